@@ -0,0 +1,51 @@
+import { parseFeedbackReport } from '../utils/arf.js';
+
+const feedbackReport = [
+  'From: feedback@mailbox.example',
+  'Subject: Abuse report',
+  'Content-Type: multipart/report; report-type=feedback-report; boundary="ARF"',
+  '',
+  '--ARF',
+  'Content-Type: text/plain',
+  '',
+  'This is an email abuse report.',
+  '',
+  '--ARF',
+  'Content-Type: message/feedback-report',
+  '',
+  'Feedback-Type: abuse',
+  'User-Agent: ExampleFBL/1.0',
+  'Version: 1',
+  'Original-Rcpt-To: <Reader@Example.com>',
+  'Arrival-Date: Thu, 16 Jan 2025 09:00:00 +0000',
+  '',
+  '--ARF',
+  'Content-Type: message/rfc822',
+  '',
+  'Message-ID: <newsletter-42@example.org>',
+  'To: reader@example.com',
+  'Subject: Weekly newsletter',
+  '',
+  'Body of the original message',
+  '',
+  '--ARF--',
+  '',
+].join('\r\n');
+
+describe('ARF feedback reports', () => {
+  test('should extract feedback fields and the original message id', () => {
+    const report = parseFeedbackReport(feedbackReport);
+
+    expect(report).toEqual({
+      feedbackType: 'abuse',
+      userAgent: 'ExampleFBL/1.0',
+      arrivalDate: new Date('2025-01-16T09:00:00Z'),
+      recipient: 'reader@example.com',
+      originalMessageId: 'newsletter-42@example.org',
+    });
+  });
+
+  test('should return null for messages without a feedback report', () => {
+    expect(parseFeedbackReport('Subject: Hello\r\n\r\nJust a reply')).toBeNull();
+  });
+});
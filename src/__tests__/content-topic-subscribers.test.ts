@@ -69,7 +69,7 @@ describe('Content, Topic, and Subscribers Integration Test', () => {
       const topicsResponse = await makeRequest('GET', '/api/topics');
       if (topicsResponse.body && Array.isArray(topicsResponse.body)) {
         for (const topic of topicsResponse.body) {
-          await makeRequest('DELETE', `/api/topics/${topic.id}`).catch(() => {});
+          await makeRequest('DELETE', `/api/topics/${topic.id}?confirm=true`).catch(() => {});
         }
       }
     } catch (error) {
@@ -77,9 +77,9 @@ describe('Content, Topic, and Subscribers Integration Test', () => {
     }
 
     try {
-      const subscribersResponse = await makeRequest('GET', '/api/subscribers');
-      if (subscribersResponse.body && Array.isArray(subscribersResponse.body)) {
-        for (const subscriber of subscribersResponse.body) {
+      const subscribersResponse = await makeRequest('GET', '/api/subscribers?active=all&limit=200');
+      if (subscribersResponse.body && Array.isArray(subscribersResponse.body.data)) {
+        for (const subscriber of subscribersResponse.body.data) {
           await makeRequest('DELETE', `/api/subscribers/${subscriber.id}`).catch(() => {});
         }
       }
@@ -0,0 +1,35 @@
+import { parseCsvRecord, hasOpenQuote, toCsvRecord } from '../utils/csv.js';
+
+describe('CSV records', () => {
+  test('should split plain fields, keeping empty ones', () => {
+    expect(parseCsvRecord('email,topics')).toEqual(['email', 'topics']);
+    expect(parseCsvRecord('a@example.com,,')).toEqual(['a@example.com', '', '']);
+  });
+
+  test('should keep commas inside quoted fields', () => {
+    expect(parseCsvRecord('a@example.com,"Technology, Science"')).toEqual(['a@example.com', 'Technology, Science']);
+  });
+
+  test('should unescape doubled quotes', () => {
+    expect(parseCsvRecord('"Say ""hi""",x')).toEqual(['Say "hi"', 'x']);
+  });
+
+  test('should keep newlines inside quoted fields', () => {
+    expect(parseCsvRecord('a@example.com,"line one\nline two"')).toEqual(['a@example.com', 'line one\nline two']);
+  });
+
+  test('should detect records that continue on the next line', () => {
+    expect(hasOpenQuote('a@example.com,"line one')).toBe(true);
+    expect(hasOpenQuote('a@example.com,"line one\nline two"')).toBe(false);
+    expect(hasOpenQuote('"Say ""hi""",x')).toBe(false);
+    expect(hasOpenQuote('"Say ""hi')).toBe(true);
+  });
+
+  test('should round-trip values through toCsvRecord', () => {
+    const values = ['plain', 'with, comma', 'with "quotes"', 'multi\nline'];
+    const record = toCsvRecord(values);
+
+    expect(record.endsWith('\r\n')).toBe(true);
+    expect(parseCsvRecord(record.slice(0, -2))).toEqual(values);
+  });
+});
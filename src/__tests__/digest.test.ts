@@ -0,0 +1,35 @@
+import { renderDigest } from '../utils/digest.js';
+
+describe('digest rendering', () => {
+  const entries = [
+    { topicName: 'Tech', title: 'Release notes', body: 'Version 2 is out' },
+    { topicName: 'Sports', title: 'Match report', body: 'We won' },
+    { topicName: 'Tech', title: null, body: 'Line one\nLine two' },
+  ];
+
+  test('should group items under their topic in order of first appearance', () => {
+    const digest = renderDigest('daily', entries);
+
+    expect(digest.subject).toBe('Your daily digest: 3 updates');
+    expect(digest.text.indexOf('Tech')).toBeLessThan(digest.text.indexOf('Sports'));
+    expect(digest.text.indexOf('Version 2 is out')).toBeLessThan(digest.text.indexOf('Line one'));
+    expect(digest.text.indexOf('Line one')).toBeLessThan(digest.text.indexOf('Sports'));
+    expect(digest.html).toContain('Line one<br>Line two');
+  });
+
+  test('should escape titles and topic names in HTML', () => {
+    const digest = renderDigest('weekly', [{ topicName: 'Q&A', title: '<b>Hi</b>', body: 'Body' }]);
+
+    expect(digest.subject).toBe('Your weekly digest: 1 update');
+    expect(digest.html).toContain('Q&amp;A');
+    expect(digest.html).toContain('&lt;b&gt;Hi&lt;/b&gt;');
+  });
+
+  test('should use the HTML body in the HTML part only', () => {
+    const digest = renderDigest('daily', [{ topicName: 'News', title: null, body: 'Hi <Ada>', htmlBody: 'Hi &lt;Ada&gt;' }]);
+
+    expect(digest.text).toContain('Hi <Ada>');
+    expect(digest.html).toContain('Hi &lt;Ada&gt;');
+    expect(digest.html).not.toContain('<Ada>');
+  });
+});
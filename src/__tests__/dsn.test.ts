@@ -0,0 +1,53 @@
+import { parseDeliveryStatus } from '../utils/dsn.js';
+
+const bounceMessage = [
+  'From: MAILER-DAEMON@mx.example.com',
+  'To: newsletter@example.org',
+  'Subject: Undelivered Mail Returned to Sender',
+  'Content-Type: multipart/report; report-type=delivery-status;',
+  '  boundary="BOUNDARY"',
+  '',
+  '--BOUNDARY',
+  'Content-Type: text/plain',
+  '',
+  'Your message could not be delivered.',
+  '',
+  '--BOUNDARY',
+  'Content-Type: message/delivery-status',
+  '',
+  'Reporting-MTA: dns; mx.example.com',
+  '',
+  'Final-Recipient: rfc822; Missing@Example.com',
+  'Action: failed',
+  'Status: 5.1.1',
+  'Diagnostic-Code: smtp; 550 5.1.1 User unknown',
+  '',
+  '--BOUNDARY',
+  'Content-Type: text/rfc822-headers',
+  '',
+  'Message-ID: <abc123@example.org>',
+  'Subject: Weekly newsletter',
+  '',
+  '--BOUNDARY--',
+  '',
+].join('\r\n');
+
+describe('delivery status notifications', () => {
+  test('should extract recipients and the original message id', () => {
+    const report = parseDeliveryStatus(bounceMessage);
+
+    expect(report).toEqual({
+      recipients: [{
+        email: 'missing@example.com',
+        action: 'failed',
+        status: '5.1.1',
+        diagnosticCode: 'smtp; 550 5.1.1 User unknown',
+      }],
+      originalMessageId: 'abc123@example.org',
+    });
+  });
+
+  test('should return null for ordinary messages', () => {
+    expect(parseDeliveryStatus('Subject: Hello\r\n\r\nJust a reply')).toBeNull();
+  });
+});
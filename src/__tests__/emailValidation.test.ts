@@ -0,0 +1,37 @@
+import { validateEmail, SYNTAX_ONLY } from '../utils/emailValidation.js';
+
+describe('email validation', () => {
+  test('should normalise case and convert internationalised domains to punycode', () => {
+    const result = validateEmail('  Ada.Lovelace@Bücher.Example ');
+
+    expect(result.valid).toBe(true);
+    expect(result.email).toBe('ada.lovelace@xn--bcher-kva.example');
+  });
+
+  test('should reject malformed addresses with structured reasons', () => {
+    expect(validateEmail('no-at-sign').reasons).toEqual([
+      { code: 'invalid_syntax', message: expect.any(String) },
+    ]);
+    expect(validateEmail('two..dots@example.com').reasons.map(r => r.code)).toEqual(['invalid_local_part']);
+    expect(validateEmail('user@-example.com').reasons.map(r => r.code)).toEqual(['invalid_domain']);
+    expect(validateEmail('user@localhost').reasons.map(r => r.code)).toEqual(['invalid_domain']);
+    expect(validateEmail(undefined).reasons.map(r => r.code)).toEqual(['missing']);
+  });
+
+  test('should canonicalise provider aliases for duplicate detection', () => {
+    expect(validateEmail('J.Doe+news@googlemail.com').canonical).toBe('jdoe@gmail.com');
+    expect(validateEmail('j.doe+news@example.com').canonical).toBe('j.doe+news@example.com');
+  });
+
+  test('should reject disposable domains and role accounts unless validating syntax only', () => {
+    expect(validateEmail('someone@mailinator.com').reasons.map(r => r.code)).toEqual(['disposable_domain']);
+    expect(validateEmail('noreply@example.com').reasons.map(r => r.code)).toEqual(['role_account']);
+    expect(validateEmail('noreply@example.com', SYNTAX_ONLY).valid).toBe(true);
+  });
+
+  test('should suggest corrections for common domain typos', () => {
+    expect(validateEmail('ada@gmial.com').suggestion).toBe('ada@gmail.com');
+    expect(validateEmail('ada@example.con').suggestion).toBe('ada@example.com');
+    expect(validateEmail('ada@aol.com').suggestion).toBeNull();
+  });
+});
@@ -0,0 +1,23 @@
+import { scoreEngagement } from '../utils/engagement.js';
+
+describe('engagement score', () => {
+  test('should not score subscribers without sends or bounces', () => {
+    expect(scoreEngagement({ sent: 0, opened: 0, clicked: 0, bounced: 0 })).toBeNull();
+  });
+
+  test('should weigh opens and clicks by the share of emails sent', () => {
+    expect(scoreEngagement({ sent: 10, opened: 0, clicked: 0, bounced: 0 })).toBe(0);
+    expect(scoreEngagement({ sent: 10, opened: 5, clicked: 0, bounced: 0 })).toBe(30);
+    expect(scoreEngagement({ sent: 10, opened: 10, clicked: 10, bounced: 0 })).toBe(100);
+  });
+
+  test('should treat clicks as opens when the pixel was blocked', () => {
+    expect(scoreEngagement({ sent: 4, opened: 0, clicked: 2, bounced: 0 })).toBe(50);
+  });
+
+  test('should subtract bounces and stay within 0-100', () => {
+    expect(scoreEngagement({ sent: 10, opened: 10, clicked: 0, bounced: 1 })).toBe(35);
+    expect(scoreEngagement({ sent: 0, opened: 0, clicked: 0, bounced: 2 })).toBe(0);
+    expect(scoreEngagement({ sent: 2, opened: 5, clicked: 5, bounced: 0 })).toBe(100);
+  });
+});
@@ -0,0 +1,105 @@
+import { parseFeed, renderFeedTemplate, unknownPlaceholders, withoutFeedPlaceholders, entryValues, nextRoundupAt } from '../utils/feed.js';
+
+describe('feeds', () => {
+  test('should parse RSS items', () => {
+    const feed = parseFeed(`<?xml version="1.0"?>
+      <rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+        <channel>
+          <title>Example &amp; Co Blog</title>
+          <link>https://blog.example.com</link>
+          <item>
+            <title>Release 2.0</title>
+            <link>https://blog.example.com/release-2</link>
+            <guid isPermaLink="false">post-42</guid>
+            <description><![CDATA[<p>Big <b>news</b> &amp; more</p>]]></description>
+            <dc:creator>Ada</dc:creator>
+            <pubDate>Mon, 20 Jan 2025 09:00:00 GMT</pubDate>
+          </item>
+          <item>
+            <title>No guid</title>
+            <link>https://blog.example.com/no-guid</link>
+            <description>&lt;p&gt;Escaped &amp;amp; markup&lt;/p&gt;</description>
+          </item>
+        </channel>
+      </rss>`);
+
+    expect(feed.title).toBe('Example & Co Blog');
+    expect(feed.entries).toEqual([
+      {
+        guid: 'post-42',
+        title: 'Release 2.0',
+        link: 'https://blog.example.com/release-2',
+        summary: 'Big news & more',
+        author: 'Ada',
+        published_at: new Date('2025-01-20T09:00:00Z'),
+      },
+      {
+        guid: 'https://blog.example.com/no-guid',
+        title: 'No guid',
+        link: 'https://blog.example.com/no-guid',
+        summary: 'Escaped & markup',
+        author: null,
+        published_at: null,
+      },
+    ]);
+  });
+
+  test('should parse Atom entries', () => {
+    const feed = parseFeed(`<feed xmlns="http://www.w3.org/2005/Atom">
+        <title type="text">Example Atom</title>
+        <link href="https://example.org/"/>
+        <entry>
+          <title>Hello</title>
+          <link rel="edit" href="https://example.org/api/1"/>
+          <link rel="alternate" href="https://example.org/hello?a=1&amp;b=2"/>
+          <id>tag:example.org,2025:1</id>
+          <updated>2025-02-01T10:00:00Z</updated>
+          <author><name>Grace</name></author>
+          <content type="xhtml"><div xmlns="http://www.w3.org/1999/xhtml"><p>Hi   there</p></div></content>
+        </entry>
+      </feed>`);
+
+    expect(feed.title).toBe('Example Atom');
+    expect(feed.entries).toEqual([{
+      guid: 'tag:example.org,2025:1',
+      title: 'Hello',
+      link: 'https://example.org/hello?a=1&b=2',
+      summary: 'Hi there',
+      author: 'Grace',
+      published_at: new Date('2025-02-01T10:00:00Z'),
+    }]);
+  });
+
+  test('should reject documents that are not feeds', () => {
+    expect(() => parseFeed('<html><body>Not a feed</body></html>')).toThrow('Not an RSS or Atom feed');
+  });
+
+  test('should fill entry placeholders and leave merge tags for send time', () => {
+    const values = entryValues({
+      title: 'Use {{first_name}} tags',
+      link: 'https://example.org/a',
+      summary: 'Summary',
+      author: null,
+      published_at: new Date('2025-01-20T09:00:00Z'),
+    });
+
+    expect(renderFeedTemplate('Hi {{first_name}}: {{ entry.title }} ({{entry.published}}) {{feed.title}}', 'entry', values))
+      .toBe('Hi {{first_name}}: Use { {first_name} } tags (Mon, 20 Jan 2025 09:00:00 GMT) {{feed.title}}');
+  });
+
+  test('should report placeholders that do not apply', () => {
+    expect(unknownPlaceholders('{{entry.title}} {{entry.body}} {{feed.title}}', 'entry', ['title'])).toEqual(['{{entry.body}}', '{{feed.title}}']);
+    expect(withoutFeedPlaceholders('{{first_name}} {{entry.title}}')).toBe('{{first_name}} ');
+  });
+
+  test('should find the next roundup slot', () => {
+    // Wednesday 2025-01-22 10:30 UTC
+    const now = new Date('2025-01-22T10:30:00Z');
+
+    expect(nextRoundupAt(now, 'daily', 8, 1)).toEqual(new Date('2025-01-23T08:00:00Z'));
+    expect(nextRoundupAt(now, 'daily', 12, 1)).toEqual(new Date('2025-01-22T12:00:00Z'));
+    expect(nextRoundupAt(now, 'weekly', 8, 1)).toEqual(new Date('2025-01-27T08:00:00Z'));
+    expect(nextRoundupAt(now, 'weekly', 12, 3)).toEqual(new Date('2025-01-22T12:00:00Z'));
+    expect(nextRoundupAt(now, 'weekly', 8, 3)).toEqual(new Date('2025-01-29T08:00:00Z'));
+  });
+});
@@ -0,0 +1,33 @@
+import { validateLayout, applyLayout, formatBodyHtml, withoutContentSlot } from '../utils/layout.js';
+
+describe('layouts', () => {
+  test('should accept layouts with a single content slot', () => {
+    expect(validateLayout({ html: '<header>Acme</header>{{ content }}<footer>1 Main St</footer>' })).toEqual({
+      valid: true,
+      layout: { html: '<header>Acme</header>{{ content }}<footer>1 Main St</footer>', text: null },
+    });
+    expect(validateLayout({ html: '{{content}}', text: '{{content}}\n--\nAcme, 1 Main St' })).toEqual({
+      valid: true,
+      layout: { html: '{{content}}', text: '{{content}}\n--\nAcme, 1 Main St' },
+    });
+  });
+
+  test('should require exactly one slot in every template', () => {
+    expect(validateLayout({ html: '<p>No slot</p>' })).toEqual({
+      valid: false,
+      error: 'Layout html must contain {{content}} exactly once',
+    });
+    expect(validateLayout({ html: '{{content}}{{content}}' }).valid).toBe(false);
+    expect(validateLayout({ html: '{{content}}', text: 'Footer only' }).valid).toBe(false);
+    expect(validateLayout({ html: 42 })).toEqual({ valid: false, error: 'Layout html must be a non-empty string' });
+  });
+
+  test('should place the body in the slot verbatim', () => {
+    expect(applyLayout('<main>{{content}}</main>', 'Costs $& more')).toBe('<main>Costs $& more</main>');
+    expect(formatBodyHtml('Line one\nLine two')).toBe('<div style="white-space: pre-wrap;">Line one<br>Line two</div>');
+  });
+
+  test('should strip the slot before merge tag checks', () => {
+    expect(withoutContentSlot('Hi {{first_name}} {{ content }}')).toBe('Hi {{first_name}} ');
+  });
+});
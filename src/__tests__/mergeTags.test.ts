@@ -0,0 +1,29 @@
+import { inspectMergeTags, renderMergeTags } from '../utils/mergeTags.js';
+
+describe('merge tags', () => {
+  test('should substitute attributes and fall back to defaults', () => {
+    const template = 'Hi {{first_name | default: "friend"}} from {{ company }}!';
+
+    expect(renderMergeTags(template, { first_name: 'Ada', company: 'Acme' })).toBe('Hi Ada from Acme!');
+    expect(renderMergeTags(template, { company: 'Acme' })).toBe('Hi friend from Acme!');
+    expect(renderMergeTags(template, { first_name: '', company: null })).toBe('Hi friend from !');
+  });
+
+  test('should escape substituted values but not fallbacks', () => {
+    const escape = (value: string) => value.replace(/</g, '&lt;');
+
+    expect(renderMergeTags('<p>{{company}}</p>', { company: '<img src=//x>' }, escape)).toBe('<p>&lt;img src=//x></p>');
+    expect(renderMergeTags('{{company | default: "<b>you</b>"}}', {}, escape)).toBe('<b>you</b>');
+  });
+
+  test('should leave malformed tags untouched when rendering', () => {
+    expect(renderMergeTags('Hi {{ First Name }}', { first_name: 'Ada' })).toBe('Hi {{ First Name }}');
+  });
+
+  test('should report used and malformed tags', () => {
+    const check = inspectMergeTags('{{first_name}} {{ plan | default: "free" }} {{first_name}} {{ bad | upper }}');
+
+    expect(check.tags).toEqual(['first_name', 'plan']);
+    expect(check.invalid).toEqual(['{{ bad | upper }}']);
+  });
+});
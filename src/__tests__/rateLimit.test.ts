@@ -0,0 +1,20 @@
+import { createRateLimiter } from '../utils/rateLimit.js';
+
+describe('rate limiter', () => {
+  test('should allow up to the limit per key within a window', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+
+    expect(limiter.hit('1.2.3.4', 0)).toEqual({ allowed: true, remaining: 1, retryAfterSeconds: 60 });
+    expect(limiter.hit('1.2.3.4', 1_000).allowed).toBe(true);
+    expect(limiter.hit('1.2.3.4', 30_000)).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 30 });
+    expect(limiter.hit('5.6.7.8', 30_000).allowed).toBe(true);
+  });
+
+  test('should start a new window once the old one has passed', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+
+    expect(limiter.hit('1.2.3.4', 0).allowed).toBe(true);
+    expect(limiter.hit('1.2.3.4', 59_999).allowed).toBe(false);
+    expect(limiter.hit('1.2.3.4', 60_000).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,54 @@
+import { validateSegmentRule, collectReferences, SegmentRule } from '../utils/segmentRules.js';
+
+describe('segment rules', () => {
+  test('should accept nested rules of every type', () => {
+    const rules = {
+      type: 'all',
+      rules: [
+        { type: 'topic', topic_ids: [1, 2] },
+        { type: 'attribute', name: 'plan', op: 'eq', value: 'pro' },
+        { type: 'signup_date', op: 'within_days', value: 30 },
+        { type: 'not', rule: { type: 'engagement', metric: 'bounced', op: 'gt', value: 0, days: 90 } },
+        { type: 'any', rules: [{ type: 'content', content_id: 7, received: false }, { type: 'attribute', name: 'vip', op: 'exists' }] },
+      ],
+    };
+
+    expect(validateSegmentRule(rules)).toEqual({ valid: true, rule: rules });
+  });
+
+  test('should report the path of the first invalid rule', () => {
+    expect(validateSegmentRule({ type: 'all', rules: [{ type: 'topic', topic_ids: [] }] })).toEqual({
+      valid: false,
+      error: 'rules.rules[0].topic_ids must be a non-empty array of topic ids',
+    });
+    expect(validateSegmentRule({ type: 'signup_date', op: 'before', value: 'yesterday' })).toEqual({
+      valid: false,
+      error: 'rules.value must be a date',
+    });
+    expect(validateSegmentRule({ type: 'attribute', name: 'Plan Name', op: 'eq', value: 'pro' }).valid).toBe(false);
+    expect(validateSegmentRule({ type: 'engagement', metric: 'replied', op: 'gt', value: 1 }).valid).toBe(false);
+    expect(validateSegmentRule(null).valid).toBe(false);
+  });
+
+  test('should limit nesting depth', () => {
+    let rule: unknown = { type: 'topic', topic_ids: [1] };
+    for (let i = 0; i < 5; i++) {
+      rule = { type: 'not', rule };
+    }
+
+    expect(validateSegmentRule(rule)).toEqual({ valid: false, error: 'Rules may be nested at most 5 levels deep' });
+  });
+
+  test('should collect referenced topics and content once each', () => {
+    const rule: SegmentRule = {
+      type: 'any',
+      rules: [
+        { type: 'topic', topic_ids: [3, 1] },
+        { type: 'not', rule: { type: 'topic', topic_ids: [1] } },
+        { type: 'content', content_id: 9, received: true },
+      ],
+    };
+
+    expect(collectReferences(rule)).toEqual({ topicIds: [3, 1], contentIds: [9] });
+  });
+});
@@ -0,0 +1,57 @@
+import { validateSenderIdentity, resolveSenderIdentity, isAllowedSendingDomain, parseDomainList } from '../utils/senderIdentity.js';
+
+const allowed = ['news.example.com', 'example.org'];
+
+describe('sender identity', () => {
+  test('should normalise valid fields and leave absent ones out', () => {
+    expect(validateSenderIdentity({
+      from_name: '  Example Tech ',
+      from_email: 'Tech@News.Example.com',
+      reply_to: 'editor@gmail.com',
+    }, allowed)).toEqual({
+      valid: true,
+      identity: { from_name: 'Example Tech', from_email: 'tech@news.example.com', reply_to: 'editor@gmail.com' },
+    });
+  });
+
+  test('should clear fields set to null or an empty string', () => {
+    expect(validateSenderIdentity({ from_email: null, envelope_sender: '' }, allowed)).toEqual({
+      valid: true,
+      identity: { from_email: null, envelope_sender: null },
+    });
+  });
+
+  test('should only allow sending addresses on allowed domains', () => {
+    expect(validateSenderIdentity({ from_email: 'tech@example.com' }, allowed)).toEqual({
+      valid: false,
+      error: 'from_email must use an allowed sending domain: news.example.com, example.org',
+    });
+    expect(validateSenderIdentity({ envelope_sender: 'bounces@sub.example.org' }, allowed).valid).toBe(false);
+    expect(validateSenderIdentity({ from_email: 'tech@example.org' }, []).valid).toBe(false);
+  });
+
+  test('should reject malformed values', () => {
+    expect(validateSenderIdentity({ from_name: 'Tech\r\nBcc: victim@example.com' }, allowed).valid).toBe(false);
+    expect(validateSenderIdentity({ reply_to: 'not-an-address' }, allowed).valid).toBe(false);
+    expect(validateSenderIdentity({ from_email: 42 }, allowed)).toEqual({ valid: false, error: 'from_email must be a string' });
+  });
+
+  test('should match sending domains exactly', () => {
+    expect(isAllowedSendingDomain('a@EXAMPLE.org', allowed)).toBe(true);
+    expect(isAllowedSendingDomain('a@mail.example.org', allowed)).toBe(false);
+    expect(parseDomainList(' Example.org, ,news.example.com ')).toEqual(['example.org', 'news.example.com']);
+  });
+
+  test('should take each field from the nearest topic that sets it', () => {
+    const child = { from_name: 'TypeScript Weekly', from_email: null, reply_to: null, envelope_sender: null };
+    const parent = { from_name: 'Example Tech', from_email: 'tech@example.org', reply_to: 'editor@example.org', envelope_sender: null };
+
+    expect(resolveSenderIdentity([child, parent])).toEqual({
+      from_name: 'TypeScript Weekly',
+      from_email: 'tech@example.org',
+      reply_to: 'editor@example.org',
+      envelope_sender: null,
+    });
+    expect(resolveSenderIdentity([])).toEqual({ from_name: null, from_email: null, reply_to: null, envelope_sender: null });
+  });
+});
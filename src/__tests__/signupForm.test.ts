@@ -0,0 +1,20 @@
+import { checkSubmission } from '../utils/signupForm.js';
+
+describe('signup form bot checks', () => {
+  const submission = { honeypot: '', issuedAt: 0, now: 10_000, minFillSeconds: 3 };
+
+  test('should accept an empty honeypot submitted after the minimum time', () => {
+    expect(checkSubmission(submission)).toBeNull();
+    expect(checkSubmission({ ...submission, honeypot: undefined })).toBeNull();
+  });
+
+  test('should flag a filled honeypot', () => {
+    expect(checkSubmission({ ...submission, honeypot: 'https://spam.example' })).toBe('honeypot');
+    expect(checkSubmission({ ...submission, honeypot: ['a'] })).toBe('honeypot');
+  });
+
+  test('should flag submissions faster than a person could fill in the form', () => {
+    expect(checkSubmission({ ...submission, now: 2_999 })).toBe('too_fast');
+    expect(checkSubmission({ ...submission, now: 3_000 })).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { zonedTimeToUtc, parseLocalDateTime, isValidTimeZone } from '../utils/timezone.js';
+
+describe('time zones', () => {
+  test('should convert local wall time to UTC across DST', () => {
+    const eightAm = (date: string) => parseLocalDateTime(`${date}T08:00`)!;
+
+    expect(zonedTimeToUtc(eightAm('2025-01-15'), 'America/New_York').toISOString()).toBe('2025-01-15T13:00:00.000Z');
+    expect(zonedTimeToUtc(eightAm('2025-07-15'), 'America/New_York').toISOString()).toBe('2025-07-15T12:00:00.000Z');
+    expect(zonedTimeToUtc(eightAm('2025-07-15'), 'Asia/Kolkata').toISOString()).toBe('2025-07-15T02:30:00.000Z');
+  });
+
+  test('should resolve skipped and repeated wall times', () => {
+    // 02:30 does not exist on 2025-03-09 in New York; it is moved past the gap
+    expect(zonedTimeToUtc(parseLocalDateTime('2025-03-09T02:30')!, 'America/New_York').toISOString())
+      .toBe('2025-03-09T07:30:00.000Z');
+    // 01:30 happens twice on 2025-11-02; the first (EDT) occurrence wins
+    expect(zonedTimeToUtc(parseLocalDateTime('2025-11-02T01:30')!, 'America/New_York').toISOString())
+      .toBe('2025-11-02T05:30:00.000Z');
+  });
+
+  test('should validate inputs', () => {
+    expect(parseLocalDateTime('2025-02-30T08:00')).toBeNull();
+    expect(parseLocalDateTime('2025-02-03T08:00Z')).toBeNull();
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
@@ -0,0 +1,33 @@
+import { signToken, verifyToken } from '../utils/tokens.js';
+
+process.env.TOKEN_SECRET = 'test-secret';
+
+describe('signed tokens', () => {
+  test('should round-trip data for the same purpose', () => {
+    const token = signToken('confirm', { subscriberId: 7 }, 3600);
+
+    expect(verifyToken('confirm', token)).toEqual({ subscriberId: 7 });
+    expect(verifyToken('unsubscribe', signToken('unsubscribe', { subscriberId: 7 }))).toEqual({ subscriberId: 7 });
+  });
+
+  test('should reject expired tokens', () => {
+    expect(verifyToken('confirm', signToken('confirm', { subscriberId: 7 }, -1))).toBeNull();
+  });
+
+  test('should reject tampered tokens', () => {
+    const [payload, signature] = signToken('confirm', { subscriberId: 7 }, 3600).split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({ purpose: 'confirm', data: { subscriberId: 8 }, exp: null })).toString('base64url');
+    const flipped = signature.slice(0, -1) + (signature.endsWith('A') ? 'B' : 'A');
+
+    expect(verifyToken('confirm', `${forgedPayload}.${signature}`)).toBeNull();
+    expect(verifyToken('confirm', `${payload}.${flipped}`)).toBeNull();
+    expect(verifyToken('confirm', payload)).toBeNull();
+  });
+
+  test('should reject tokens issued for another purpose', () => {
+    const token = signToken('preferences', { subscriberId: 7 }, 3600);
+
+    expect(verifyToken('confirm', token)).toBeNull();
+    expect(verifyToken('unsubscribe', token)).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import { ancestry, descendants, createsCycle, coveredTopics, buildTree } from '../utils/topicTree.js';
+
+// 1 Technology
+// ├── 2 Programming
+// │   └── 4 TypeScript
+// └── 3 Hardware
+// 5 Science
+const topics = [
+  { id: 1, parent_id: null, name: 'Technology' },
+  { id: 2, parent_id: 1, name: 'Programming' },
+  { id: 3, parent_id: 1, name: 'Hardware' },
+  { id: 4, parent_id: 2, name: 'TypeScript' },
+  { id: 5, parent_id: null, name: 'Science' },
+];
+
+describe('topic tree', () => {
+  test('should list ancestors nearest first', () => {
+    expect(ancestry(topics, 4)).toEqual([4, 2, 1]);
+    expect(ancestry(topics, 5)).toEqual([5]);
+    expect(ancestry(topics, 99)).toEqual([]);
+  });
+
+  test('should list descendants including the topic itself', () => {
+    expect(descendants(topics, 1)).toEqual([1, 2, 3, 4]);
+    expect(descendants(topics, 3)).toEqual([3]);
+  });
+
+  test('should reject moving a topic below itself', () => {
+    expect(createsCycle(topics, 1, 4)).toBe(true);
+    expect(createsCycle(topics, 2, 2)).toBe(true);
+    expect(createsCycle(topics, 4, 3)).toBe(false);
+    expect(createsCycle(topics, 1, null)).toBe(false);
+  });
+
+  test('should leave branches with their own subscription out of a parent subscription', () => {
+    expect(coveredTopics(topics, [1], 1)).toEqual([1, 2, 3, 4]);
+    expect(coveredTopics(topics, [1, 2], 1)).toEqual([1, 3]);
+    expect(coveredTopics(topics, [1, 2], 2)).toEqual([2, 4]);
+  });
+
+  test('should stop at a cycle instead of looping', () => {
+    const broken = [{ id: 1, parent_id: 2 }, { id: 2, parent_id: 1 }];
+
+    expect(ancestry(broken, 1)).toEqual([1, 2]);
+    expect(descendants(broken, 1)).toEqual([1, 2]);
+  });
+
+  test('should nest children under their parents', () => {
+    const tree = buildTree(topics);
+
+    expect(tree.map(node => node.name)).toEqual(['Technology', 'Science']);
+    expect(tree[0].children.map(node => node.name)).toEqual(['Programming', 'Hardware']);
+    expect(tree[0].children[0].children[0]).toMatchObject({ id: 4, children: [] });
+  });
+});
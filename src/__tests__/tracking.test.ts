@@ -0,0 +1,28 @@
+import { addTracking } from '../utils/tracking.js';
+
+describe('tracking', () => {
+  const links = {
+    openUrl: 'https://news.example.org/api/track/open/abc',
+    clickUrl: (url: string) => `https://news.example.org/api/track/click/${encodeURIComponent(url)}`,
+  };
+
+  test('should route http links through the click tracker', () => {
+    const html = '<body><a href="https://example.org/a?x=1&amp;y=2">A</a> <a class="b" href=\'http://example.org/b\'>B</a></body>';
+    const tracked = addTracking(html, links);
+
+    expect(tracked).toContain(`href="https://news.example.org/api/track/click/${encodeURIComponent('https://example.org/a?x=1&y=2')}"`);
+    expect(tracked).toContain(`class="b" href='https://news.example.org/api/track/click/${encodeURIComponent('http://example.org/b')}'`);
+  });
+
+  test('should leave other links alone', () => {
+    const html = '<a href="mailto:hi@example.org">Mail</a><a href="#top">Top</a>';
+
+    expect(addTracking(html, links).startsWith(html)).toBe(true);
+  });
+
+  test('should add the open pixel before the end of the body', () => {
+    expect(addTracking('<html><body><p>Hi</p></body></html>', links))
+      .toBe(`<html><body><p>Hi</p><img src="${links.openUrl}" width="1" height="1" alt="" style="display: block; border: 0;"></body></html>`);
+    expect(addTracking('<p>Hi</p>', links)).toMatch(/^<p>Hi<\/p><img src=/);
+  });
+});
@@ -7,13 +7,28 @@ import { topics } from './models/schema.js';
 import logger from './config/logger.js';
 import schedulerService from './services/schedulerService.js';
 import './services/queueProcessor.js';
+import './services/importProcessor.js';
 import routes from './routes/index.js';
+import { importSubscribers } from './controllers/importController.js';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
 
 const app = express();
 const PORT = process.env.PORT || 8000;
 
-app.use(cors());
+// Browsers may only call the API from these origins, such as sites hosting a custom signup form
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || '')
+  .split(',')
+  .map(origin => origin.trim().replace(/\/$/, ''))
+  .filter(Boolean);
+
+// Needed behind a load balancer so per-IP rate limits see the client address: a hop count, or true
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', /^\d+$/.test(process.env.TRUST_PROXY) ? parseInt(process.env.TRUST_PROXY) : process.env.TRUST_PROXY === 'true');
+}
+
+app.use(cors({ origin: CORS_ORIGINS }));
+// Ahead of the body parsers, which would buffer the upload and cap JSON at 100kb; the import streams it to disk
+app.post('/api/subscribers/import', importSubscribers);
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -3,12 +3,31 @@ import logger from './logger.js';
 
 interface EmailJobData {
   contentId: number;
+  topicId?: number;
+  segmentId?: number;
+  // Set for local-time deliveries so per-wave progress can be counted
+  waveId?: number;
   subscriberId: number;
   subscriberEmail: string;
   title: string;
   body: string;
 }
 
+export interface DigestJobData {
+  subscriberId: number;
+  frequency: 'daily' | 'weekly';
+}
+
+export interface ReengagementJobData {
+  subscriberId: number;
+}
+
+export interface ImportJobData {
+  importId: number;
+  filePath: string;
+  format: 'csv' | 'ndjson' | 'json';
+}
+
 const getRedisConfig = () => {
   if (process.env.REDIS_URL) {
     const url = process.env.REDIS_URL;
@@ -75,6 +94,71 @@ const emailQueue = new Queue<EmailJobData>('email-queue', {
   },
 });
 
+// Digest jobs compile their items when they run, so a retry picks up anything published in between
+export const digestQueue = new Queue<DigestJobData>('digest-queue', {
+  ...getRedisConfig(),
+  defaultJobOptions: {
+    attempts: 3,
+    timeout: 120000,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+    removeOnComplete: {
+      age: 86400,
+    },
+    removeOnFail: {
+      age: 86400,
+    },
+  },
+});
+
+digestQueue.on('error', (error: Error) => {
+  logger.error('Digest queue error', { error: error.message });
+});
+
+// Re-engagement emails from the sunset policy; sent through the same rate limiter as newsletters
+export const reengagementQueue = new Queue<ReengagementJobData>('reengagement-queue', {
+  ...getRedisConfig(),
+  defaultJobOptions: {
+    attempts: 3,
+    timeout: 120000,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+    removeOnComplete: {
+      age: 86400,
+    },
+    removeOnFail: {
+      age: 86400,
+    },
+  },
+});
+
+reengagementQueue.on('error', (error: Error) => {
+  logger.error('Re-engagement queue error', { error: error.message });
+});
+
+// Subscriber imports are long-running and must not retry automatically: a retry would re-run the whole file
+export const importQueue = new Queue<ImportJobData>('import-queue', {
+  ...getRedisConfig(),
+  defaultJobOptions: {
+    attempts: 1,
+    timeout: 3600000,
+    removeOnComplete: {
+      age: 86400,
+    },
+    removeOnFail: {
+      age: 86400,
+    },
+  },
+});
+
+importQueue.on('error', (error: Error) => {
+  logger.error('Import queue error', { error: error.message });
+});
+
 let connectionRetryCount = 0;
 const MAX_RETRY_ATTEMPTS = 10;
 const RETRY_DELAY_BASE = 2000;
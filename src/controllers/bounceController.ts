@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import bounceService from '../services/bounceService.js';
+import logger from '../config/logger.js';
+
+export const receiveBounce = async (req: Request, res: Response): Promise<void> => {
+  if (typeof req.body !== 'string' || !req.body.trim()) {
+    res.status(400).json({ error: 'Raw bounce message is required as the request body' });
+    return;
+  }
+
+  try {
+    const result = await bounceService.ingestDsn(req.body);
+
+    if (!result.is_dsn) {
+      res.status(422).json({ error: 'Message is not a delivery status notification' });
+      return;
+    }
+
+    res.json({
+      message: 'Bounce processed',
+      bounces: result.bounces,
+    });
+  } catch (error) {
+    logger.error('Error processing bounce', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to process bounce' });
+  }
+};
+
+export const processMaildir = async (req: Request, res: Response): Promise<void> => {
+  // Only the configured maildir: its files are read and moved, so callers must not choose the directory
+  if (req.body?.path !== undefined) {
+    res.status(400).json({ error: 'path is not accepted; the maildir is set by BOUNCE_MAILDIR' });
+    return;
+  }
+
+  const maildir = process.env.BOUNCE_MAILDIR;
+  if (!maildir) {
+    res.status(400).json({ error: 'BOUNCE_MAILDIR is not set' });
+    return;
+  }
+
+  try {
+    const summary = await bounceService.processMaildir(maildir);
+    res.json({ maildir, ...summary });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      res.status(404).json({ error: 'Maildir not found' });
+      return;
+    }
+    logger.error('Error processing bounce maildir', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to process maildir' });
+  }
+};
+
+export const getBounces = async (req: Request, res: Response): Promise<void> => {
+  const { subscriber_id, type, limit = 100, offset = 0 } = req.query;
+
+  if (type && type !== 'hard' && type !== 'soft') {
+    res.status(400).json({ error: 'type must be "hard" or "soft"' });
+    return;
+  }
+
+  try {
+    const bounceList = await bounceService.list({
+      subscriberId: subscriber_id ? parseInt(subscriber_id as string) : undefined,
+      type: type as 'hard' | 'soft' | undefined,
+      limit: parseInt(limit as string),
+      offset: parseInt(offset as string),
+    });
+
+    res.json(bounceList);
+  } catch (error) {
+    logger.error('Error fetching bounces', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch bounces' });
+  }
+};
@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import complaintService from '../services/complaintService.js';
+import logger from '../config/logger.js';
+
+export const receiveComplaint = async (req: Request, res: Response): Promise<void> => {
+  if (typeof req.body !== 'string' || !req.body.trim()) {
+    res.status(400).json({ error: 'Raw feedback report is required as the request body' });
+    return;
+  }
+
+  try {
+    const outcome = await complaintService.ingestArf(req.body);
+
+    switch (outcome.result) {
+      case 'not_arf':
+        res.status(422).json({ error: 'Message is not an ARF feedback report' });
+        return;
+      case 'unmatched':
+        res.status(404).json({ error: 'Complaint does not match any sent email or subscriber' });
+        return;
+      case 'duplicate':
+        res.json({ message: 'Complaint already recorded', subscriber_id: outcome.subscriberId });
+        return;
+      case 'recorded':
+        res.status(201).json({
+          message: 'Complaint recorded; subscriber unsubscribed and suppressed',
+          complaint_id: outcome.complaintId,
+          subscriber_id: outcome.subscriberId,
+          content_id: outcome.contentId,
+          subscriptions_removed: outcome.subscriptionsRemoved,
+          suppression_id: outcome.suppressionId,
+        });
+        return;
+    }
+  } catch (error) {
+    logger.error('Error processing complaint', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to process complaint' });
+  }
+};
+
+export const getComplaints = async (req: Request, res: Response): Promise<void> => {
+  const { content_id, subscriber_id, limit = 100, offset = 0 } = req.query;
+
+  try {
+    const complaintList = await complaintService.list({
+      contentId: content_id ? parseInt(content_id as string) : undefined,
+      subscriberId: subscriber_id ? parseInt(subscriber_id as string) : undefined,
+      limit: parseInt(limit as string),
+      offset: parseInt(offset as string),
+    });
+
+    res.json(complaintList);
+  } catch (error) {
+    logger.error('Error fetching complaints', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch complaints' });
+  }
+};
@@ -1,9 +1,14 @@
 import { Request, Response } from 'express';
 import { eq, desc, and, count, SQL } from 'drizzle-orm';
 import db from '../config/database.js';
-import { content, topics, emailLogs, subscriptions, subscribers } from '../models/schema.js';
+import { content, topics, segments, emailLogs } from '../models/schema.js';
 import logger from '../config/logger.js';
 import emailQueue from '../config/queue.js';
+import audienceService from '../services/audienceService.js';
+import attributeService from '../services/attributeService.js';
+import deliveryWaveService from '../services/deliveryWaveService.js';
+import { parseLocalDateTime, formatLocalDateTime } from '../utils/timezone.js';
+import { validateLayout, withoutContentSlot } from '../utils/layout.js';
 
 async function getQueueStatsForContent(contentId: number) {
   try {
@@ -29,38 +34,133 @@ async function getQueueStatsForContent(contentId: number) {
   }
 }
 
+interface ContentSchedule {
+  scheduled_time: Date;
+  delivery_mode: 'absolute' | 'local_time';
+  local_send_time: string | null;
+}
+
+// Local-time content takes a wall-clock time without offset; absolute content takes any parseable instant
+function resolveSchedule(deliveryMode: unknown, scheduledTime: unknown): ContentSchedule | string {
+  if (deliveryMode === 'local_time') {
+    const localTime = parseLocalDateTime(scheduledTime);
+    if (!localTime) {
+      return 'scheduledTime must be a local time in the form YYYY-MM-DDTHH:mm when deliveryMode is local_time';
+    }
+    const localSendTime = formatLocalDateTime(localTime);
+    return {
+      scheduled_time: deliveryWaveService.firstWaveAt(localSendTime),
+      delivery_mode: 'local_time',
+      local_send_time: localSendTime,
+    };
+  }
+
+  if (deliveryMode !== 'absolute') {
+    return 'deliveryMode must be "absolute" or "local_time"';
+  }
+
+  const scheduledDate = new Date(scheduledTime as string);
+  if (isNaN(scheduledDate.getTime())) {
+    return 'Invalid scheduledTime format';
+  }
+  return { scheduled_time: scheduledDate, delivery_mode: 'absolute', local_send_time: null };
+}
+
+interface ContentLayout {
+  layout: 'topic' | 'none' | 'custom';
+  layout_html: string | null;
+  layout_text: string | null;
+}
+
+// layoutHtml on its own implies a custom layout; the topic's layout is the default
+function resolveLayout(layout: unknown, layoutHtml: unknown, layoutText: unknown): ContentLayout | string {
+  const mode = layout ?? (layoutHtml !== undefined ? 'custom' : 'topic');
+
+  if (mode === 'custom') {
+    const validation = validateLayout({ html: layoutHtml, text: layoutText });
+    if (!validation.valid) {
+      return validation.error;
+    }
+    return { layout: 'custom', layout_html: validation.layout.html, layout_text: validation.layout.text };
+  }
+
+  if (mode !== 'topic' && mode !== 'none') {
+    return 'layout must be "topic", "none" or "custom"';
+  }
+  if (layoutHtml !== undefined || layoutText !== undefined) {
+    return 'layoutHtml and layoutText are only used with layout "custom"';
+  }
+  return { layout: mode, layout_html: null, layout_text: null };
+}
+
+const layoutTemplates = (layout: Partial<ContentLayout>): Array<string | null | undefined> =>
+  [layout.layout_html, layout.layout_text].map(template => template && withoutContentSlot(template));
+
 export const createContent = async (req: Request, res: Response): Promise<void> => {
-  const { topicId, title, body, scheduledTime } = req.body;
+  const { topicId, segmentId, title, body, scheduledTime, deliveryMode = 'absolute', layout, layoutHtml, layoutText } = req.body;
 
-  if (!topicId || !body || !scheduledTime) {
+  if ((!topicId && !segmentId) || !body || !scheduledTime) {
     res.status(400).json({
-      error: 'topicId, body, and scheduledTime are required',
+      error: 'topicId or segmentId, body, and scheduledTime are required',
     });
     return;
   }
 
-  const scheduledDate = new Date(scheduledTime);
-  if (isNaN(scheduledDate.getTime())) {
-    res.status(400).json({ error: 'Invalid scheduledTime format' });
+  if (topicId && segmentId) {
+    res.status(400).json({ error: 'Content targets either a topic or a segment, not both' });
+    return;
+  }
+
+  const schedule = resolveSchedule(deliveryMode, scheduledTime);
+  if (typeof schedule === 'string') {
+    res.status(400).json({ error: schedule });
+    return;
+  }
+
+  const contentLayout = resolveLayout(layout, layoutHtml, layoutText);
+  if (typeof contentLayout === 'string') {
+    res.status(400).json({ error: contentLayout });
     return;
   }
 
   try {
-    const [topic] = await db.select().from(topics).where(eq(topics.id, topicId)).limit(1);
+    if (topicId) {
+      const [topic] = await db.select().from(topics).where(eq(topics.id, topicId)).limit(1);
+
+      if (!topic) {
+        res.status(404).json({ error: 'Topic not found' });
+        return;
+      }
+
+      if (topic.archived_at) {
+        res.status(409).json({ error: 'Topic is archived' });
+        return;
+      }
+    } else {
+      const [segment] = await db.select({ id: segments.id }).from(segments).where(eq(segments.id, segmentId)).limit(1);
+
+      if (!segment) {
+        res.status(404).json({ error: 'Segment not found' });
+        return;
+      }
+    }
 
-    if (!topic) {
-      res.status(404).json({ error: 'Topic not found' });
+    const mergeTagProblems = await attributeService.checkTemplates([title, body, ...layoutTemplates(contentLayout)]);
+    if (mergeTagProblems) {
+      res.status(400).json({ error: 'Invalid merge tags', ...mergeTagProblems });
       return;
     }
 
     const [createdContent] = await db.insert(content).values({
-      topic_id: topicId,
+      topic_id: topicId || null,
+      segment_id: segmentId || null,
       title: title || null,
       body: body,
-      scheduled_time: scheduledDate,
+      ...schedule,
+      ...contentLayout,
     }).returning();
 
-    logger.info('Content created', { id: createdContent.id, topicId, scheduledTime });
+    logger.info('Content created', { id: createdContent.id, topicId, segmentId, scheduledTime, deliveryMode: schedule.delivery_mode });
     res.status(201).json(createdContent);
   } catch (error) {
     logger.error('Error creating content', { error: (error as Error).message });
@@ -69,13 +169,16 @@ export const createContent = async (req: Request, res: Response): Promise<void>
 };
 
 export const getContent = async (req: Request, res: Response): Promise<void> => {
-  const { topicId, status, limit = '50', offset = '0' } = req.query;
+  const { topicId, segmentId, status, limit = '50', offset = '0' } = req.query;
 
   try {
     const conditions: SQL<unknown>[] = [];
     if (topicId) {
       conditions.push(eq(content.topic_id, parseInt(topicId as string)));
     }
+    if (segmentId) {
+      conditions.push(eq(content.segment_id, parseInt(segmentId as string)));
+    }
     if (status) {
       conditions.push(eq(content.status, status as 'pending' | 'processing' | 'sent'));
     }
@@ -87,9 +190,13 @@ export const getContent = async (req: Request, res: Response): Promise<void> =>
       topic: {
         name: topics.name,
       },
+      segment: {
+        name: segments.name,
+      },
     })
       .from(content)
       .leftJoin(topics, eq(content.topic_id, topics.id))
+      .leftJoin(segments, eq(content.segment_id, segments.id))
       .where(whereClause)
       .orderBy(desc(content.created_at))
       .limit(parseInt(limit as string))
@@ -113,19 +220,20 @@ export const getContent = async (req: Request, res: Response): Promise<void> =>
             eq(emailLogs.status, 'failed')
           ));
 
-        const activeSubscriptions = await db
-          .select()
-          .from(subscriptions)
-          .innerJoin(subscribers, eq(subscriptions.subscriber_id, subscribers.id))
+        const [emailsSuppressedResult] = await db
+          .select({ count: count() })
+          .from(emailLogs)
           .where(and(
-            eq(subscriptions.topic_id, item.content.topic_id),
-            eq(subscribers.is_active, true)
+            eq(emailLogs.content_id, item.content.id),
+            eq(emailLogs.status, 'suppressed')
           ));
 
+        const totalSubscribers = await audienceService.countAudience(item.content);
+
         const sentCount = emailsSentResult?.count || 0;
         const failedCount = emailsFailedResult?.count || 0;
-        const totalSubscribers = activeSubscriptions.length;
-        const remaining = totalSubscribers - sentCount - failedCount;
+        const suppressedCount = emailsSuppressedResult?.count || 0;
+        const remaining = totalSubscribers - sentCount - failedCount - suppressedCount;
 
         const queueStats = item.content.status === 'processing' 
           ? await getQueueStatsForContent(item.content.id)
@@ -134,8 +242,10 @@ export const getContent = async (req: Request, res: Response): Promise<void> =>
         return {
           ...item.content,
           topic_name: item.topic?.name || null,
+          segment_name: item.segment?.name || null,
           emails_sent: sentCount,
           emails_failed: failedCount,
+          emails_suppressed: suppressedCount,
           total_subscribers: totalSubscribers,
           emails_remaining: remaining > 0 ? remaining : 0,
           queue_stats: queueStats,
@@ -160,9 +270,13 @@ export const getContentById = async (req: Request, res: Response): Promise<void>
         topic: {
           name: topics.name,
         },
+        segment: {
+          name: segments.name,
+        },
       })
       .from(content)
       .leftJoin(topics, eq(content.topic_id, topics.id))
+      .leftJoin(segments, eq(content.segment_id, segments.id))
       .where(eq(content.id, parseInt(id)))
       .limit(1);
 
@@ -187,32 +301,40 @@ export const getContentById = async (req: Request, res: Response): Promise<void>
         eq(emailLogs.status, 'failed')
       ));
 
-    const activeSubscriptions = await db
-      .select()
-      .from(subscriptions)
-      .innerJoin(subscribers, eq(subscriptions.subscriber_id, subscribers.id))
+    const [emailsSuppressedResult] = await db
+      .select({ count: count() })
+      .from(emailLogs)
       .where(and(
-        eq(subscriptions.topic_id, contentItem.content.topic_id),
-        eq(subscribers.is_active, true)
+        eq(emailLogs.content_id, contentItem.content.id),
+        eq(emailLogs.status, 'suppressed')
       ));
 
+    const totalSubscribers = await audienceService.countAudience(contentItem.content);
+
     const sentCount = emailsSentResult?.count || 0;
     const failedCount = emailsFailedResult?.count || 0;
-    const totalSubscribers = activeSubscriptions.length;
-    const remaining = totalSubscribers - sentCount - failedCount;
+    const suppressedCount = emailsSuppressedResult?.count || 0;
+    const remaining = totalSubscribers - sentCount - failedCount - suppressedCount;
 
     const queueStats = contentItem.content.status === 'processing'
       ? await getQueueStatsForContent(contentItem.content.id)
       : { waiting: 0, active: 0, completed: 0, failed: 0 };
 
+    const waves = contentItem.content.delivery_mode === 'local_time'
+      ? await deliveryWaveService.getWaves(contentItem.content.id)
+      : undefined;
+
     res.json({
       ...contentItem.content,
       topic_name: contentItem.topic?.name || null,
+      segment_name: contentItem.segment?.name || null,
       emails_sent: sentCount,
       emails_failed: failedCount,
+      emails_suppressed: suppressedCount,
       total_subscribers: totalSubscribers,
       emails_remaining: remaining > 0 ? remaining : 0,
       queue_stats: queueStats,
+      ...(waves ? { waves } : {}),
     });
   } catch (error) {
     logger.error('Error fetching content', { error: (error as Error).message });
@@ -222,14 +344,13 @@ export const getContentById = async (req: Request, res: Response): Promise<void>
 
 export const updateContent = async (req: Request, res: Response): Promise<void> => {
   const { id } = req.params;
-  const { title, body, scheduledTime } = req.body;
+  const { title, body, scheduledTime, deliveryMode, layout, layoutHtml, layoutText } = req.body;
 
   try {
     const updateData: {
       title?: string | null;
       body?: string;
-      scheduled_time?: Date;
-    } = {};
+    } & Partial<ContentSchedule> & Partial<ContentLayout> = {};
 
     if (title !== undefined) {
       updateData.title = title;
@@ -239,13 +360,34 @@ export const updateContent = async (req: Request, res: Response): Promise<void>
       updateData.body = body;
     }
 
+    if (deliveryMode !== undefined && scheduledTime === undefined) {
+      res.status(400).json({ error: 'scheduledTime is required when changing deliveryMode' });
+      return;
+    }
+
     if (scheduledTime !== undefined) {
-      const scheduledDate = new Date(scheduledTime);
-      if (isNaN(scheduledDate.getTime())) {
-        res.status(400).json({ error: 'Invalid scheduledTime format' });
+      // Without deliveryMode the content keeps its current mode
+      const [existing] = await db.select({ delivery_mode: content.delivery_mode })
+        .from(content)
+        .where(eq(content.id, parseInt(id)))
+        .limit(1);
+
+      const schedule = resolveSchedule(deliveryMode ?? existing?.delivery_mode ?? 'absolute', scheduledTime);
+      if (typeof schedule === 'string') {
+        res.status(400).json({ error: schedule });
+        return;
+      }
+      Object.assign(updateData, schedule);
+    }
+
+    // The layout fields replace the content's layout as a whole
+    if (layout !== undefined || layoutHtml !== undefined || layoutText !== undefined) {
+      const contentLayout = resolveLayout(layout, layoutHtml, layoutText);
+      if (typeof contentLayout === 'string') {
+        res.status(400).json({ error: contentLayout });
         return;
       }
-      updateData.scheduled_time = scheduledDate;
+      Object.assign(updateData, contentLayout);
     }
 
     if (Object.keys(updateData).length === 0) {
@@ -253,11 +395,23 @@ export const updateContent = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    const mergeTagProblems = await attributeService.checkTemplates([
+      updateData.title,
+      updateData.body,
+      ...layoutTemplates(updateData),
+    ]);
+    if (mergeTagProblems) {
+      res.status(400).json({ error: 'Invalid merge tags', ...mergeTagProblems });
+      return;
+    }
+
+    // Rescheduling is only possible before the scheduler has started delivering
     const [updatedContent] = await db.update(content)
       .set(updateData)
       .where(and(
         eq(content.id, parseInt(id)),
-        eq(content.is_sent, false)
+        eq(content.is_sent, false),
+        updateData.scheduled_time ? eq(content.status, 'pending') : undefined
       ))
       .returning();
 
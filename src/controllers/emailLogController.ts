@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import { eq, desc, and, count, SQL } from 'drizzle-orm';
 import db from '../config/database.js';
-import { emailLogs, subscribers, content } from '../models/schema.js';
+import { emailLogs, subscribers, content, complaints } from '../models/schema.js';
 import logger from '../config/logger.js';
 
 export const getEmailLogs = async (req: Request, res: Response): Promise<void> => {
@@ -13,7 +13,7 @@ export const getEmailLogs = async (req: Request, res: Response): Promise<void> =
       conditions.push(eq(emailLogs.content_id, parseInt(contentId as string)));
     }
     if (status) {
-      conditions.push(eq(emailLogs.status, status as 'pending' | 'sent' | 'failed'));
+      conditions.push(eq(emailLogs.status, status as 'pending' | 'sent' | 'failed' | 'suppressed'));
     }
 
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
@@ -53,7 +53,7 @@ export const getEmailStats = async (req: Request, res: Response): Promise<void>
   const { contentId } = req.params;
 
   try {
-    const [sentResult, failedResult, pendingResult, totalResult] = await Promise.all([
+    const [sentResult, failedResult, pendingResult, suppressedResult, totalResult, complaintResult] = await Promise.all([
       db
         .select({ count: count() })
         .from(emailLogs)
@@ -75,17 +75,34 @@ export const getEmailStats = async (req: Request, res: Response): Promise<void>
           eq(emailLogs.content_id, parseInt(contentId)),
           eq(emailLogs.status, 'pending')
         )),
+      db
+        .select({ count: count() })
+        .from(emailLogs)
+        .where(and(
+          eq(emailLogs.content_id, parseInt(contentId)),
+          eq(emailLogs.status, 'suppressed')
+        )),
       db
         .select({ count: count() })
         .from(emailLogs)
         .where(eq(emailLogs.content_id, parseInt(contentId))),
+      db
+        .select({ count: count() })
+        .from(complaints)
+        .where(eq(complaints.content_id, parseInt(contentId))),
     ]);
 
+    const sentCount = sentResult[0]?.count || 0;
+    const complaintCount = complaintResult[0]?.count || 0;
+
     res.json({
-      sent_count: (sentResult[0]?.count || 0).toString(),
+      sent_count: sentCount.toString(),
       failed_count: (failedResult[0]?.count || 0).toString(),
       pending_count: (pendingResult[0]?.count || 0).toString(),
+      suppressed_count: (suppressedResult[0]?.count || 0).toString(),
       total_count: (totalResult[0]?.count || 0).toString(),
+      complaint_count: complaintCount.toString(),
+      complaint_rate: sentCount > 0 ? Number((complaintCount / sentCount).toFixed(4)) : 0,
     });
   } catch (error) {
     logger.error('Error fetching email stats', { error: (error as Error).message });
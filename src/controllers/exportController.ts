@@ -0,0 +1,91 @@
+import { Request, Response } from 'express';
+import exportService, { ExportFilters, ExportedSubscriber } from '../services/exportService.js';
+import { toCsvRecord } from '../utils/csv.js';
+import logger from '../config/logger.js';
+
+const CSV_HEADER = ['id', 'email', 'status', 'is_active', 'is_paused', 'created_at', 'topics'];
+
+const formatCsv = (subscriber: ExportedSubscriber): string =>
+  toCsvRecord([
+    subscriber.id,
+    subscriber.email,
+    subscriber.status,
+    subscriber.is_active,
+    subscriber.is_paused,
+    subscriber.created_at.toISOString(),
+    subscriber.topics.map(topic => topic.name).join(';'),
+  ]);
+
+const formatNdjson = (subscriber: ExportedSubscriber): string => `${JSON.stringify(subscriber)}\n`;
+
+const waitForDrain = (res: Response): Promise<void> =>
+  new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+
+export const exportSubscribers = async (req: Request, res: Response): Promise<void> => {
+  const { format = 'csv', topicId, active } = req.query;
+
+  if (format !== 'csv' && format !== 'ndjson') {
+    res.status(400).json({ error: 'format must be csv or ndjson' });
+    return;
+  }
+
+  const filters: ExportFilters = {};
+  if (topicId !== undefined) {
+    filters.topicId = parseInt(topicId as string);
+    if (isNaN(filters.topicId)) {
+      res.status(400).json({ error: 'Invalid topicId' });
+      return;
+    }
+  }
+  if (active !== undefined) {
+    if (active !== 'true' && active !== 'false') {
+      res.status(400).json({ error: 'active must be true or false' });
+      return;
+    }
+    filters.isActive = active === 'true';
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+  res.setHeader('Content-Disposition', `attachment; filename="subscribers-${timestamp}.${format}"`);
+
+  const formatRow = format === 'csv' ? formatCsv : formatNdjson;
+  let exported = 0;
+
+  try {
+    if (format === 'csv') {
+      res.write(toCsvRecord(CSV_HEADER));
+    }
+
+    for await (const batch of exportService.streamSubscribers(filters)) {
+      if (res.destroyed) {
+        logger.warn('Subscriber export aborted by client', { exported });
+        return;
+      }
+
+      // Respect backpressure so slow clients don't make us buffer the whole export
+      if (!res.write(batch.map(formatRow).join(''))) {
+        await waitForDrain(res);
+      }
+      exported += batch.length;
+    }
+
+    res.end();
+    logger.info('Subscribers exported', { format, ...filters, exported });
+  } catch (error) {
+    logger.error('Error exporting subscribers', { error: (error as Error).message, exported });
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to export subscribers' });
+    } else {
+      res.destroy(error as Error);
+    }
+  }
+};
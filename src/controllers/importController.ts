@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+import importService, { ImportFormat, JSON_ARRAY_ERROR } from '../services/importService.js';
+import { importQueue } from '../config/queue.js';
+import logger from '../config/logger.js';
+
+const IMPORT_SYNC_MAX_BYTES = parseInt(process.env.IMPORT_SYNC_MAX_BYTES || '262144');
+const IMPORT_MAX_BYTES = parseInt(process.env.IMPORT_MAX_BYTES || '52428800');
+
+// Checks the start of a spooled JSON upload, so the caller gets a 400 rather than a failed import
+const startsAsArray = async (filePath: string): Promise<boolean> => {
+  const handle = await fs.promises.open(filePath);
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(1024), 0, 1024, 0);
+    return buffer.toString('utf-8', 0, bytesRead).trimStart().startsWith('[');
+  } finally {
+    await handle.close();
+  }
+};
+
+// Registered ahead of the body parsers in app.ts, so every upload is streamed to disk unparsed
+export const importSubscribers = async (req: Request, res: Response): Promise<void> => {
+  let format: ImportFormat;
+
+  if (req.is('text/csv')) {
+    format = 'csv';
+  } else if (req.is('application/x-ndjson')) {
+    format = 'ndjson';
+  } else if (req.is('application/json')) {
+    format = 'json';
+  } else {
+    res.status(415).json({ error: 'Upload must be text/csv, application/x-ndjson or application/json' });
+    return;
+  }
+
+  const tooLargeError = `Upload must not be larger than ${IMPORT_MAX_BYTES} bytes`;
+  if (parseInt(req.get('content-length') || '0') > IMPORT_MAX_BYTES) {
+    res.status(413).json({ error: tooLargeError });
+    return;
+  }
+
+  const filePath = importService.newUploadPath();
+  let tooLarge = false;
+
+  try {
+    // Chunked uploads have no Content-Length, so the size is also checked as the upload is written
+    await pipeline(req, async function* (upload: AsyncIterable<Buffer>) {
+      let size = 0;
+      for await (const chunk of upload) {
+        size += chunk.length;
+        if (size > IMPORT_MAX_BYTES) {
+          tooLarge = true;
+          throw new Error(tooLargeError);
+        }
+        yield chunk;
+      }
+    }, fs.createWriteStream(filePath));
+
+    if (format === 'json' && !await startsAsArray(filePath)) {
+      fs.promises.unlink(filePath).catch(() => {});
+      res.status(400).json({ error: JSON_ARRAY_ERROR });
+      return;
+    }
+
+    const { size } = await fs.promises.stat(filePath);
+    const importRecord = await importService.createImport(format);
+    const runInBackground = req.query.async === 'true' || size > IMPORT_SYNC_MAX_BYTES;
+
+    logger.info('Subscriber import received', { importId: importRecord.id, format, size, runInBackground });
+
+    if (runInBackground) {
+      await importQueue.add('import-subscribers', { importId: importRecord.id, filePath, format });
+      res.status(202).json({
+        ...importRecord,
+        status_url: `/api/subscribers/imports/${importRecord.id}`,
+      });
+      return;
+    }
+
+    await importService.run(importRecord.id, filePath, format);
+    res.json(await importService.getImport(importRecord.id));
+  } catch (error) {
+    fs.promises.unlink(filePath).catch(() => {});
+    if (tooLarge) {
+      res.status(413).json({ error: tooLargeError });
+      return;
+    }
+    logger.error('Error importing subscribers', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to import subscribers' });
+  }
+};
+
+export const getImportStatus = async (req: Request, res: Response): Promise<void> => {
+  const { importId } = req.params;
+
+  try {
+    const importRecord = await importService.getImport(parseInt(importId));
+
+    if (!importRecord) {
+      res.status(404).json({ error: 'Import not found' });
+      return;
+    }
+
+    res.json(importRecord);
+  } catch (error) {
+    logger.error('Error fetching import status', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch import status' });
+  }
+};
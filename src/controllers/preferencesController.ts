@@ -0,0 +1,296 @@
+import { Request, Response } from 'express';
+import preferencesService, { SubscriberPreferences, PreferencesUpdate } from '../services/preferencesService.js';
+import { DELIVERY_FREQUENCIES, DeliveryFrequency, isDeliveryFrequency } from '../services/subscriptionService.js';
+import { escapeHtml, renderPage } from '../utils/html.js';
+import logger from '../config/logger.js';
+
+const invalidLinkPage = renderPage(
+  'Invalid link',
+  '<p>This preferences link is invalid or no longer applies.</p>'
+);
+
+const errorPage = renderPage('Something went wrong', '<p>Please try again later.</p>');
+
+const frequencyLabels: Record<DeliveryFrequency, string> = {
+  immediate: 'As published',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+};
+
+// Only snoozes that are still running are worth mentioning
+const snoozeNote = (pausedUntil: Date | null): string =>
+  pausedUntil && pausedUntil.getTime() > Date.now()
+    ? ` <em>(snoozed until ${escapeHtml(pausedUntil.toUTCString())})</em>`
+    : '';
+
+const renderFrequencySelect = (topicId: number, current: DeliveryFrequency | null): string => {
+  const options = DELIVERY_FREQUENCIES.map(frequency =>
+    `<option value="${frequency}"${frequency === (current ?? 'immediate') ? ' selected' : ''}>${frequencyLabels[frequency]}</option>`
+  ).join('');
+  return `<select name="frequency_${topicId}" style="margin-left: 10px;">${options}</select>`;
+};
+
+const renderPreferencesPage = (preferences: SubscriberPreferences, notice?: string): string => {
+  const noticeHtml = notice ? `<p style="color: #2e7d32;">${escapeHtml(notice)}</p>` : '';
+
+  if (!preferences.is_active) {
+    return renderPage('Your preferences', `
+      ${noticeHtml}
+      <p>${escapeHtml(preferences.email)} is deactivated and receives no newsletters. Sign up again to resume.</p>
+    `);
+  }
+
+  const topicNames = new Map(preferences.topics.map(topic => [topic.id, topic.name]));
+  const coveredNote = (coveredBy: number | null): string =>
+    coveredBy !== null ? ` <em>(already included with ${escapeHtml(topicNames.get(coveredBy) || '')})</em>` : '';
+
+  const topicRows = preferences.topics.map(topic => `
+      <label style="display: block; margin: 8px 0;">
+        <input type="checkbox" name="topicIds" value="${topic.id}"${topic.subscribed ? ' checked' : ''}>
+        <strong>${escapeHtml(topic.name)}</strong>${topic.description ? ` &ndash; ${escapeHtml(topic.description)}` : ''}
+        ${renderFrequencySelect(topic.id, topic.frequency)}${snoozeNote(topic.paused_until)}${topic.subscribed ? '' : coveredNote(topic.covered_by)}
+      </label>`).join('');
+
+  return renderPage('Your preferences', `
+    ${noticeHtml}
+    <p>Managing newsletters for ${escapeHtml(preferences.email)}.</p>
+    <form method="POST" action="">
+      <h2 style="font-size: 1.1em;">Topics</h2>
+      ${topicRows || '<p>There are no topics yet.</p>'}
+      <h2 style="font-size: 1.1em;">Delivery</h2>
+      <label style="display: block; margin: 8px 0;">
+        <input type="checkbox" name="paused" value="true"${preferences.is_paused ? ' checked' : ''}>
+        Pause all newsletters${snoozeNote(preferences.paused_until)}
+      </label>
+      <button type="submit" name="action" value="save">Save preferences</button>
+      <button type="submit" name="action" value="deactivate" style="margin-left: 10px;">Unsubscribe from everything</button>
+    </form>
+  `);
+};
+
+// Accepts a single value or an array, as sent by forms and JSON clients respectively
+const parseTopicIds = (value: unknown): number[] | null => {
+  const values = Array.isArray(value) ? value : [value];
+  const ids = values.map(v => parseInt(String(v)));
+  return ids.every(id => !isNaN(id)) ? ids : null;
+};
+
+// Form fields are named frequency_<topicId>; JSON clients send { "<topicId>": "daily" }
+const parseFrequencies = (entries: [string, unknown][]): Record<number, DeliveryFrequency> | null => {
+  const frequencies: Record<number, DeliveryFrequency> = {};
+  for (const [key, value] of entries) {
+    const topicId = parseInt(key);
+    if (isNaN(topicId) || !isDeliveryFrequency(value)) {
+      return null;
+    }
+    frequencies[topicId] = value;
+  }
+  return frequencies;
+};
+
+const unknownTopicIds = (preferences: SubscriberPreferences, topicIds: number[]): number[] => {
+  const known = new Set(preferences.topics.map(topic => topic.id));
+  return topicIds.filter(id => !known.has(id));
+};
+
+export const showPreferencesPage = async (req: Request, res: Response): Promise<void> => {
+  const subscriberId = preferencesService.resolveSubscriberId(req.params.token);
+
+  if (!subscriberId) {
+    res.status(400).send(invalidLinkPage);
+    return;
+  }
+
+  try {
+    const preferences = await preferencesService.get(subscriberId);
+
+    if (!preferences) {
+      res.status(404).send(invalidLinkPage);
+      return;
+    }
+
+    res.send(renderPreferencesPage(preferences));
+  } catch (error) {
+    logger.error('Error rendering preferences page', { error: (error as Error).message });
+    res.status(500).send(errorPage);
+  }
+};
+
+export const submitPreferencesForm = async (req: Request, res: Response): Promise<void> => {
+  const subscriberId = preferencesService.resolveSubscriberId(req.params.token);
+
+  if (!subscriberId) {
+    res.status(400).send(invalidLinkPage);
+    return;
+  }
+
+  try {
+    const preferences = await preferencesService.get(subscriberId);
+
+    if (!preferences || !preferences.is_active) {
+      res.status(preferences ? 409 : 404).send(preferences ? renderPreferencesPage(preferences) : invalidLinkPage);
+      return;
+    }
+
+    if (req.body.action === 'deactivate') {
+      await preferencesService.deactivate(subscriberId);
+      res.send(renderPreferencesPage({ ...preferences, is_active: false }, 'You have been unsubscribed from everything.'));
+      return;
+    }
+
+    // Unchecked boxes are simply absent from the form body
+    const topicIds = req.body.topicIds === undefined ? [] : parseTopicIds(req.body.topicIds);
+
+    const frequencies = parseFrequencies(
+      Object.entries(req.body)
+        .filter(([key]) => key.startsWith('frequency_'))
+        .map(([key, value]) => [key.slice('frequency_'.length), value])
+    );
+
+    if (
+      !topicIds
+      || !frequencies
+      || unknownTopicIds(preferences, [...topicIds, ...Object.keys(frequencies).map(Number)]).length > 0
+    ) {
+      res.status(400).send(renderPreferencesPage(preferences, 'Please choose from the listed topics.'));
+      return;
+    }
+
+    await preferencesService.update(subscriberId, preferences, {
+      topicIds,
+      frequencies,
+      paused: req.body.paused === 'true',
+    });
+
+    const updated = await preferencesService.get(subscriberId);
+    res.send(renderPreferencesPage(updated!, 'Your preferences have been saved.'));
+  } catch (error) {
+    logger.error('Error saving preferences form', { error: (error as Error).message });
+    res.status(500).send(errorPage);
+  }
+};
+
+export const getPreferences = async (req: Request, res: Response): Promise<void> => {
+  const subscriberId = preferencesService.resolveSubscriberId(req.params.token);
+
+  if (!subscriberId) {
+    res.status(400).json({ error: 'Invalid preferences token' });
+    return;
+  }
+
+  try {
+    const preferences = await preferencesService.get(subscriberId);
+
+    if (!preferences) {
+      res.status(404).json({ error: 'Subscriber not found' });
+      return;
+    }
+
+    res.json(preferences);
+  } catch (error) {
+    logger.error('Error fetching preferences', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch preferences' });
+  }
+};
+
+export const updatePreferences = async (req: Request, res: Response): Promise<void> => {
+  const subscriberId = preferencesService.resolveSubscriberId(req.params.token);
+  const { topicIds, frequencies, paused } = req.body;
+
+  if (!subscriberId) {
+    res.status(400).json({ error: 'Invalid preferences token' });
+    return;
+  }
+
+  if (topicIds === undefined && frequencies === undefined && paused === undefined) {
+    res.status(400).json({ error: 'No fields to update' });
+    return;
+  }
+
+  if (paused !== undefined && typeof paused !== 'boolean') {
+    res.status(400).json({ error: 'paused must be a boolean' });
+    return;
+  }
+
+  try {
+    const preferences = await preferencesService.get(subscriberId);
+
+    if (!preferences) {
+      res.status(404).json({ error: 'Subscriber not found' });
+      return;
+    }
+
+    if (!preferences.is_active) {
+      res.status(409).json({ error: 'Subscriber is deactivated' });
+      return;
+    }
+
+    const update: PreferencesUpdate = { paused };
+
+    if (topicIds !== undefined) {
+      const parsedIds = Array.isArray(topicIds) ? parseTopicIds(topicIds) : null;
+      if (!parsedIds) {
+        res.status(400).json({ error: 'topicIds must be an array of topic ids' });
+        return;
+      }
+
+      const unknownIds = unknownTopicIds(preferences, parsedIds);
+      if (unknownIds.length > 0) {
+        res.status(400).json({ error: 'Unknown topic ids', topicIds: unknownIds });
+        return;
+      }
+
+      update.topicIds = parsedIds;
+    }
+
+    if (frequencies !== undefined) {
+      const parsedFrequencies = frequencies && typeof frequencies === 'object' && !Array.isArray(frequencies)
+        ? parseFrequencies(Object.entries(frequencies))
+        : null;
+      if (!parsedFrequencies) {
+        res.status(400).json({
+          error: `frequencies must map topic ids to one of: ${DELIVERY_FREQUENCIES.join(', ')}`,
+        });
+        return;
+      }
+
+      const unknownIds = unknownTopicIds(preferences, Object.keys(parsedFrequencies).map(Number));
+      if (unknownIds.length > 0) {
+        res.status(400).json({ error: 'Unknown topic ids', topicIds: unknownIds });
+        return;
+      }
+
+      update.frequencies = parsedFrequencies;
+    }
+
+    await preferencesService.update(subscriberId, preferences, update);
+    res.json(await preferencesService.get(subscriberId));
+  } catch (error) {
+    logger.error('Error updating preferences', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to update preferences' });
+  }
+};
+
+export const deactivateFromPreferences = async (req: Request, res: Response): Promise<void> => {
+  const subscriberId = preferencesService.resolveSubscriberId(req.params.token);
+
+  if (!subscriberId) {
+    res.status(400).json({ error: 'Invalid preferences token' });
+    return;
+  }
+
+  try {
+    const preferences = await preferencesService.get(subscriberId);
+
+    if (!preferences) {
+      res.status(404).json({ error: 'Subscriber not found' });
+      return;
+    }
+
+    await preferencesService.deactivate(subscriberId);
+    res.json({ message: 'Subscriber deactivated successfully' });
+  } catch (error) {
+    logger.error('Error deactivating subscriber from preferences', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to deactivate subscriber' });
+  }
+};
@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import segmentService from '../services/segmentService.js';
+import { SegmentRule } from '../utils/segmentRules.js';
+import logger from '../config/logger.js';
+
+const DEFAULT_SAMPLE_SIZE = 10;
+const MAX_SAMPLE_SIZE = 100;
+
+const parseSampleSize = (value: unknown): number | null => {
+  if (value === undefined) {
+    return DEFAULT_SAMPLE_SIZE;
+  }
+  const size = parseInt(value as string);
+  return Number.isInteger(size) && size >= 0 && size <= MAX_SAMPLE_SIZE ? size : null;
+};
+
+export const createSegment = async (req: Request, res: Response): Promise<void> => {
+  const { name, description, rules } = req.body;
+
+  if (!name || typeof name !== 'string' || name.trim().length === 0) {
+    res.status(400).json({ error: 'Segment name is required' });
+    return;
+  }
+
+  try {
+    const validation = await segmentService.validateRules(rules);
+    if (!validation.valid) {
+      res.status(400).json({ error: 'Invalid segment rules', details: validation.error });
+      return;
+    }
+
+    const segment = await segmentService.create({
+      name: name.trim(),
+      description: description || null,
+      rules: validation.rule,
+    });
+
+    res.status(201).json(segment);
+  } catch (error: any) {
+    if (error.code === '23505') {
+      res.status(409).json({ error: 'Segment with this name already exists' });
+      return;
+    }
+    logger.error('Error creating segment', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to create segment' });
+  }
+};
+
+export const getSegments = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(await segmentService.list());
+  } catch (error) {
+    logger.error('Error fetching segments', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch segments' });
+  }
+};
+
+export const getSegment = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const segment = await segmentService.get(parseInt(id));
+
+    if (!segment) {
+      res.status(404).json({ error: 'Segment not found' });
+      return;
+    }
+
+    res.json(segment);
+  } catch (error) {
+    logger.error('Error fetching segment', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch segment' });
+  }
+};
+
+export const updateSegment = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { name, description, rules } = req.body;
+
+  const changes: { name?: string; description?: string | null; rules?: SegmentRule } = {};
+
+  if (name !== undefined) {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      res.status(400).json({ error: 'Segment name cannot be empty' });
+      return;
+    }
+    changes.name = name.trim();
+  }
+
+  if (description !== undefined) {
+    changes.description = description || null;
+  }
+
+  try {
+    if (rules !== undefined) {
+      const validation = await segmentService.validateRules(rules);
+      if (!validation.valid) {
+        res.status(400).json({ error: 'Invalid segment rules', details: validation.error });
+        return;
+      }
+      changes.rules = validation.rule;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      res.status(400).json({ error: 'No fields to update' });
+      return;
+    }
+
+    const segment = await segmentService.update(parseInt(id), changes);
+
+    if (!segment) {
+      res.status(404).json({ error: 'Segment not found' });
+      return;
+    }
+
+    res.json(segment);
+  } catch (error: any) {
+    if (error.code === '23505') {
+      res.status(409).json({ error: 'Segment with this name already exists' });
+      return;
+    }
+    logger.error('Error updating segment', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to update segment' });
+  }
+};
+
+export const deleteSegment = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const result = await segmentService.delete(parseInt(id));
+
+    if (result === 'not_found') {
+      res.status(404).json({ error: 'Segment not found' });
+      return;
+    }
+
+    if (result === 'in_use') {
+      res.status(409).json({ error: 'Segment is targeted by content and cannot be deleted' });
+      return;
+    }
+
+    res.json({ message: 'Segment deleted successfully' });
+  } catch (error) {
+    logger.error('Error deleting segment', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to delete segment' });
+  }
+};
+
+// Previews unsaved rules, so a segment can be tried out before it is created
+export const previewRules = async (req: Request, res: Response): Promise<void> => {
+  const sampleSize = parseSampleSize(req.query.sample);
+  if (sampleSize === null) {
+    res.status(400).json({ error: `sample must be between 0 and ${MAX_SAMPLE_SIZE}` });
+    return;
+  }
+
+  try {
+    const validation = await segmentService.validateRules(req.body.rules);
+    if (!validation.valid) {
+      res.status(400).json({ error: 'Invalid segment rules', details: validation.error });
+      return;
+    }
+
+    res.json(await segmentService.preview(validation.rule, sampleSize));
+  } catch (error) {
+    logger.error('Error previewing segment rules', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to preview segment' });
+  }
+};
+
+export const previewSegment = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  const sampleSize = parseSampleSize(req.query.sample);
+  if (sampleSize === null) {
+    res.status(400).json({ error: `sample must be between 0 and ${MAX_SAMPLE_SIZE}` });
+    return;
+  }
+
+  try {
+    const segment = await segmentService.get(parseInt(id));
+
+    if (!segment) {
+      res.status(404).json({ error: 'Segment not found' });
+      return;
+    }
+
+    res.json({
+      segment_id: segment.id,
+      ...await segmentService.preview(segment.rules, sampleSize),
+    });
+  } catch (error) {
+    logger.error('Error previewing segment', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to preview segment' });
+  }
+};
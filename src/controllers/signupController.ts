@@ -0,0 +1,225 @@
+import { Request, Response } from 'express';
+import { eq } from 'drizzle-orm';
+import db from '../config/database.js';
+import { topics } from '../models/schema.js';
+import signupService from '../services/signupService.js';
+import subscriptionService from '../services/subscriptionService.js';
+import { subscriberContext } from '../services/subscriberEventService.js';
+import { validateEmail } from '../utils/emailValidation.js';
+import { HONEYPOT_FIELD, checkSubmission } from '../utils/signupForm.js';
+import { escapeHtml, renderPage } from '../utils/html.js';
+import logger from '../config/logger.js';
+
+const SIGNUP_MIN_FILL_SECONDS = parseInt(process.env.SIGNUP_MIN_FILL_SECONDS || '3');
+const SIGNUP_CONFIRMATION_COOLDOWN_MINUTES = parseInt(process.env.SIGNUP_CONFIRMATION_COOLDOWN_MINUTES || '15');
+
+// The same answer whatever happened to the address, so the form cannot be used to probe who is subscribed
+const SIGNED_UP_MESSAGE = 'Thanks for signing up! If this address is new to us, check your inbox for a link to confirm it.';
+
+const unavailablePage = renderPage('Signup unavailable', '<p>This signup form is no longer available.</p>');
+
+const errorPage = renderPage('Something went wrong', '<p>Please try again later.</p>');
+
+const rateLimitedPage = renderPage('Too many signups', '<p>Too many signups from your network. Please try again later.</p>');
+
+// Forms post urlencoded and get pages back; scripts post JSON and get JSON
+const wantsJson = (req: Request): boolean => !!req.is('application/json');
+
+const renderSignupForm = (topic: { id: number; name: string; description: string | null }, notice?: string): string => {
+  const noticeHtml = notice ? `<p style="color: #c62828;">${escapeHtml(notice)}</p>` : '';
+
+  return renderPage(`Subscribe to ${topic.name}`, `
+    ${topic.description ? `<p>${escapeHtml(topic.description)}</p>` : ''}
+    ${noticeHtml}
+    <form method="POST" action="">
+      <input type="hidden" name="token" value="${escapeHtml(signupService.issueFormToken(topic.id))}">
+      <div style="position: absolute; left: -10000px;" aria-hidden="true">
+        <label>Leave this empty <input type="text" name="${HONEYPOT_FIELD}" tabindex="-1" autocomplete="off"></label>
+      </div>
+      <label style="display: block; margin: 8px 0;">
+        Email address
+        <input type="email" name="email" required autocomplete="email" style="display: block; width: 100%; padding: 6px; margin-top: 4px;">
+      </label>
+      <button type="submit">Subscribe</button>
+    </form>
+  `);
+};
+
+// Signup forms only exist for topics that still take subscribers
+const findSignupTopic = async (topicId: string) => {
+  const id = parseInt(topicId);
+  if (isNaN(id)) {
+    return null;
+  }
+
+  const [topic] = await db.select({
+    id: topics.id,
+    name: topics.name,
+    description: topics.description,
+    archived_at: topics.archived_at,
+  })
+    .from(topics)
+    .where(eq(topics.id, id))
+    .limit(1);
+
+  return topic && !topic.archived_at ? topic : null;
+};
+
+export const showSignupForm = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const topic = await findSignupTopic(req.params.topicId);
+
+    if (!topic) {
+      res.status(404).type('html').send(unavailablePage);
+      return;
+    }
+
+    res.type('html').send(renderSignupForm(topic));
+  } catch (error) {
+    logger.error('Error showing signup form', { error: (error as Error).message });
+    res.status(500).type('html').send(errorPage);
+  }
+};
+
+// For custom forms on allowed origins that submit with JavaScript
+export const getSignupToken = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const topic = await findSignupTopic(req.params.topicId);
+
+    if (!topic) {
+      res.status(404).json({ error: 'Topic not found' });
+      return;
+    }
+
+    res.json({ token: signupService.issueFormToken(topic.id), honeypot_field: HONEYPOT_FIELD });
+  } catch (error) {
+    logger.error('Error issuing signup token', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to issue signup token' });
+  }
+};
+
+// Answers submissions over the per-IP limit in the same form as the submission
+export const rejectRateLimitedSignup = (req: Request, res: Response): void => {
+  if (wantsJson(req)) {
+    res.status(429).json({ error: 'Too many requests, please try again later' });
+  } else {
+    res.status(429).type('html').send(rateLimitedPage);
+  }
+};
+
+export const submitSignup = async (req: Request, res: Response): Promise<void> => {
+  const json = wantsJson(req);
+
+  const reject = (status: number, error: string, topic?: Parameters<typeof renderSignupForm>[0], extra: object = {}) => {
+    if (json) {
+      res.status(status).json({ error, ...extra });
+    } else {
+      res.status(status).type('html').send(topic ? renderSignupForm(topic, error) : unavailablePage);
+    }
+  };
+
+  const accept = () => {
+    if (json) {
+      res.status(202).json({ message: SIGNED_UP_MESSAGE });
+    } else {
+      res.type('html').send(renderPage('Almost done', `<p>${escapeHtml(SIGNED_UP_MESSAGE)}</p>`));
+    }
+  };
+
+  try {
+    const topic = await findSignupTopic(req.params.topicId);
+    if (!topic) {
+      reject(404, 'Topic not found');
+      return;
+    }
+
+    const issuedAt = signupService.verifyFormToken(req.body.token, topic.id);
+    if (issuedAt === null) {
+      reject(400, 'This form has expired. Please try again.', topic);
+      return;
+    }
+
+    // Bots are told they succeeded so they have nothing to adapt to
+    const botSignal = checkSubmission({
+      honeypot: req.body[HONEYPOT_FIELD],
+      issuedAt,
+      now: Date.now(),
+      minFillSeconds: SIGNUP_MIN_FILL_SECONDS,
+    });
+    if (botSignal) {
+      logger.warn('Discarded signup flagged as a bot', { topicId: topic.id, signal: botSignal, ip: req.ip });
+      accept();
+      return;
+    }
+
+    const validation = validateEmail(req.body.email);
+    if (!validation.valid) {
+      const message = validation.suggestion
+        ? `Please enter a valid email address. Did you mean ${validation.suggestion}?`
+        : 'Please enter a valid email address.';
+      reject(400, message, topic, { reasons: validation.reasons, suggestion: validation.suggestion });
+      return;
+    }
+
+    const context = subscriberContext('signup_form');
+    const outcome = await signupService.signUp({
+      email: validation.email,
+      canonical: validation.canonical,
+      attributes: {},
+      fields: [],
+      confirmationCooldownMinutes: SIGNUP_CONFIRMATION_COOLDOWN_MINUTES,
+    }, context);
+
+    if (outcome.result === 'signed_up' && outcome.subscriber.status === 'confirmed') {
+      try {
+        await signupService.requestTopicConfirmation(outcome.subscriber, topic);
+      } catch (error) {
+        logger.error('Error sending topic confirmation email', {
+          subscriberId: outcome.subscriber.id,
+          topicId: topic.id,
+          error: (error as Error).message,
+        });
+      }
+    } else if (outcome.result === 'signed_up') {
+      // Already being subscribed is fine. Pending addresses get nothing until they confirm, which covers this topic too.
+      await subscriptionService.subscribe(outcome.subscriber.id, topic.id, 'immediate', context);
+    } else {
+      logger.info('Signup form submission not applied', { topicId: topic.id, result: outcome.result });
+    }
+
+    accept();
+  } catch (error) {
+    logger.error('Error processing signup', { error: (error as Error).message });
+    if (json) {
+      res.status(500).json({ error: 'Failed to process signup' });
+    } else {
+      res.status(500).type('html').send(errorPage);
+    }
+  }
+};
+
+// The link from the email a confirmed subscriber gets after signing up to another topic
+export const confirmTopicSignup = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const outcome = await signupService.confirmTopic(req.params.token);
+
+    if (!outcome || outcome.result === 'subscriber_not_found') {
+      res.status(400).type('html').send(renderPage('Link expired', '<p>This confirmation link is invalid or has expired. Please sign up again.</p>'));
+      return;
+    }
+
+    switch (outcome.result) {
+      case 'topic_not_found':
+      case 'topic_archived':
+        res.status(404).type('html').send(unavailablePage);
+        return;
+      case 'subscribed':
+      case 'already_subscribed':
+        res.type('html').send(renderPage('Subscription confirmed', '<p>Thanks! Your subscription is confirmed.</p>'));
+        return;
+    }
+  } catch (error) {
+    logger.error('Error confirming topic signup', { error: (error as Error).message });
+    res.status(500).type('html').send(errorPage);
+  }
+};
@@ -1,47 +1,206 @@
 import { Request, Response } from 'express';
-import { eq, desc, and } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
 import db from '../config/database.js';
 import { subscribers, subscriptions, topics } from '../models/schema.js';
+import confirmationService from '../services/confirmationService.js';
+import subscriptionService, { DELIVERY_FREQUENCIES, isDeliveryFrequency } from '../services/subscriptionService.js';
+import attributeService from '../services/attributeService.js';
+import gdprService from '../services/gdprService.js';
+import signupService from '../services/signupService.js';
+import pauseService from '../services/pauseService.js';
+import engagementService from '../services/engagementService.js';
+import subscriberEventService from '../services/subscriberEventService.js';
+import deliveryHistoryService, { EMAIL_STATUSES, isEmailStatus } from '../services/deliveryHistoryService.js';
+import subscriberSearchService, { SORTABLE_COLUMNS, SortColumn } from '../services/subscriberSearchService.js';
+import { validateEmail } from '../utils/emailValidation.js';
+import { isValidTimeZone } from '../utils/timezone.js';
+import { apiContext } from '../utils/eventContext.js';
 import logger from '../config/logger.js';
 
 export const createSubscriber = async (req: Request, res: Response): Promise<void> => {
-  const { email } = req.body;
+  const { attributes = {}, timezone } = req.body;
 
-  if (!email || !email.includes('@')) {
-    res.status(400).json({ error: 'Valid email is required' });
+  const validation = validateEmail(req.body.email);
+  if (!validation.valid) {
+    res.status(400).json({
+      error: 'Invalid email address',
+      reasons: validation.reasons,
+      suggestion: validation.suggestion,
+    });
+    return;
+  }
+  const { email, canonical } = validation;
+
+  const attributesError = attributeService.validateAttributes(attributes);
+  if (attributesError) {
+    res.status(400).json({ error: attributesError });
+    return;
+  }
+
+  if (timezone !== undefined && !isValidTimeZone(timezone)) {
+    res.status(400).json({ error: 'timezone must be an IANA time zone such as "Europe/Berlin"' });
     return;
   }
 
   try {
-    const [subscriber] = await db.insert(subscribers).values({
-      email: email.toLowerCase(),
-      is_active: true,
-    }).onConflictDoUpdate({
-      target: subscribers.email,
-      set: { is_active: true },
-    }).returning();
+    const outcome = await signupService.signUp({
+      email,
+      canonical,
+      attributes,
+      timezone,
+      fields: Object.keys(req.body).filter(field => field !== 'email'),
+    }, apiContext(req));
 
-    logger.info('Subscriber created', { id: subscriber.id, email: subscriber.email });
-    res.status(201).json(subscriber);
+    switch (outcome.result) {
+      case 'suppressed': {
+        const { suppression } = outcome;
+        res.status(409).json({
+          error: 'Email address is suppressed',
+          suppression: {
+            id: suppression.id,
+            type: suppression.type,
+            reason: suppression.reason,
+            source: suppression.source,
+            expires_at: suppression.expires_at,
+          },
+        });
+        return;
+      }
+      case 'erased':
+        res.status(409).json({ error: 'Email address was erased on request' });
+        return;
+      case 'duplicate':
+        res.status(409).json({
+          error: 'Email address duplicates an existing subscriber',
+          reasons: [{ code: 'duplicate', message: 'Another address delivering to the same mailbox is already subscribed' }],
+          subscriber_id: outcome.subscriberId,
+        });
+        return;
+      case 'signed_up':
+        res.status(201).json(validation.suggestion
+          ? { ...outcome.subscriber, email_suggestion: validation.suggestion }
+          : outcome.subscriber);
+        return;
+    }
   } catch (error) {
     logger.error('Error creating subscriber', { error: (error as Error).message });
     res.status(500).json({ error: 'Failed to create subscriber' });
   }
 };
 
-export const getSubscribers = async (req: Request, res: Response): Promise<void> => {
-  const { active_only = 'true' } = req.query;
+export const confirmSubscriber = async (req: Request, res: Response): Promise<void> => {
+  const { token } = req.params;
 
   try {
-    let query = db.select().from(subscribers).orderBy(desc(subscribers.created_at));
+    const subscriber = await confirmationService.confirm(token);
 
-    if (active_only === 'true') {
-      query = query.where(eq(subscribers.is_active, true)) as any;
+    if (!subscriber) {
+      res.status(400).json({ error: 'Invalid or expired confirmation token' });
+      return;
     }
 
-    const subscribersList = await query;
+    res.json({ message: 'Subscription confirmed successfully', subscriber });
+  } catch (error) {
+    logger.error('Error confirming subscriber', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to confirm subscription' });
+  }
+};
+
+const MAX_PAGE_SIZE = 200;
+
+const parseDateParam = (value: unknown): Date | null | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const getSubscribers = async (req: Request, res: Response): Promise<void> => {
+  const {
+    q,
+    domain,
+    topic_id,
+    active,
+    active_only,
+    created_after,
+    created_before,
+    sort = 'created_at',
+    order = 'desc',
+    limit = '50',
+    cursor,
+    include_total = 'false',
+  } = req.query;
+
+  if (!SORTABLE_COLUMNS.includes(sort as SortColumn)) {
+    res.status(400).json({ error: `sort must be one of: ${SORTABLE_COLUMNS.join(', ')}` });
+    return;
+  }
+
+  if (order !== 'asc' && order !== 'desc') {
+    res.status(400).json({ error: 'order must be "asc" or "desc"' });
+    return;
+  }
+
+  const pageSize = parseInt(limit as string);
+  if (isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` });
+    return;
+  }
+
+  const topicId = topic_id !== undefined ? parseInt(topic_id as string) : undefined;
+  if (topicId !== undefined && isNaN(topicId)) {
+    res.status(400).json({ error: 'topic_id must be a number' });
+    return;
+  }
+
+  // `active_only=false` predates the `active` filter and still means "everyone"
+  const activeFilter = (active as string | undefined) ?? (active_only === 'false' ? 'all' : 'true');
+  if (!['true', 'false', 'all'].includes(activeFilter)) {
+    res.status(400).json({ error: 'active must be "true", "false" or "all"' });
+    return;
+  }
+
+  const createdAfter = parseDateParam(created_after);
+  const createdBefore = parseDateParam(created_before);
+  if (createdAfter === null || createdBefore === null) {
+    res.status(400).json({ error: 'Invalid created_after or created_before format' });
+    return;
+  }
+
+  const decodedCursor = cursor
+    ? subscriberSearchService.decodeCursor(cursor as string, sort as SortColumn, order)
+    : null;
+  if (cursor && !decodedCursor) {
+    res.status(400).json({ error: 'Invalid cursor' });
+    return;
+  }
+
+  try {
+    const page = await subscriberSearchService.search({
+      filters: {
+        q: typeof q === 'string' && q.trim() ? q.trim() : undefined,
+        domain: typeof domain === 'string' && domain.trim() ? domain.trim().replace(/^@/, '') : undefined,
+        topicId,
+        isActive: activeFilter === 'all' ? undefined : activeFilter === 'true',
+        createdAfter,
+        createdBefore,
+      },
+      sort: sort as SortColumn,
+      order,
+      limit: pageSize,
+      includeTotal: include_total === 'true',
+    }, decodedCursor);
+
+    const engagement = await engagementService.getSummaries(page.data.map(subscriber => subscriber.id));
 
-    res.json(subscribersList || []);
+    res.json({
+      ...page,
+      data: page.data.map(subscriber => ({
+        ...subscriber,
+        engagement_score: engagement.get(subscriber.id)?.score ?? null,
+      })),
+    });
   } catch (error) {
     logger.error('Error fetching subscribers', { error: (error as Error).message });
     res.status(500).json({ error: 'Failed to fetch subscribers' });
@@ -62,6 +221,8 @@ export const getSubscriber = async (req: Request, res: Response): Promise<void>
     const subscriberSubscriptions = await db
       .select({
         topic_id: subscriptions.topic_id,
+        frequency: subscriptions.frequency,
+        paused_until: subscriptions.paused_until,
         topic: {
           id: topics.id,
           name: topics.name,
@@ -74,11 +235,14 @@ export const getSubscriber = async (req: Request, res: Response): Promise<void>
     const topicsList = subscriberSubscriptions.map((sub) => ({
       id: sub.topic.id,
       name: sub.topic.name,
+      frequency: sub.frequency,
+      paused_until: sub.paused_until,
     }));
 
     res.json({
       ...subscriber,
       topics: topicsList,
+      engagement: await engagementService.getSummary(subscriber.id),
     });
   } catch (error) {
     logger.error('Error fetching subscriber', { error: (error as Error).message });
@@ -86,18 +250,82 @@ export const getSubscriber = async (req: Request, res: Response): Promise<void>
   }
 };
 
+export const updateSubscriber = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { attributes, timezone } = req.body;
+
+  if (attributes === undefined && timezone === undefined) {
+    res.status(400).json({ error: 'No fields to update' });
+    return;
+  }
+
+  const attributesError = attributes !== undefined ? attributeService.validateAttributes(attributes) : null;
+  if (attributesError) {
+    res.status(400).json({ error: attributesError });
+    return;
+  }
+
+  if (timezone !== undefined && timezone !== null && !isValidTimeZone(timezone)) {
+    res.status(400).json({ error: 'timezone must be an IANA time zone such as "Europe/Berlin"' });
+    return;
+  }
+
+  try {
+    const [existing] = await db.select().from(subscribers).where(eq(subscribers.id, parseInt(id))).limit(1);
+
+    if (!existing) {
+      res.status(404).json({ error: 'Subscriber not found' });
+      return;
+    }
+
+    const [subscriber] = await db.update(subscribers)
+      .set({
+        ...(attributes !== undefined ? { attributes: attributeService.merge(existing.attributes, attributes) } : {}),
+        ...(timezone !== undefined ? { timezone } : {}),
+      })
+      .where(eq(subscribers.id, existing.id))
+      .returning();
+
+    await subscriberEventService.record(apiContext(req), {
+      subscriberId: subscriber.id,
+      type: 'updated',
+      details: {
+        fields: [
+          ...(attributes !== undefined ? ['attributes'] : []),
+          ...(timezone !== undefined ? ['timezone'] : []),
+        ],
+      },
+    });
+
+    logger.info('Subscriber updated', { id });
+    res.json(subscriber);
+  } catch (error) {
+    logger.error('Error updating subscriber', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to update subscriber' });
+  }
+};
+
 export const deleteSubscriber = async (req: Request, res: Response): Promise<void> => {
   const { id } = req.params;
 
   try {
+    const [existing] = await db.select({ is_active: subscribers.is_active })
+      .from(subscribers)
+      .where(eq(subscribers.id, parseInt(id)))
+      .limit(1);
+
+    if (!existing) {
+      res.status(404).json({ error: 'Subscriber not found' });
+      return;
+    }
+
     const [subscriber] = await db.update(subscribers)
       .set({ is_active: false })
       .where(eq(subscribers.id, parseInt(id)))
       .returning();
 
-    if (!subscriber) {
-      res.status(404).json({ error: 'Subscriber not found' });
-      return;
+    if (existing.is_active) {
+      await subscriberEventService.record(apiContext(req), { subscriberId: subscriber.id, type: 'deactivated' });
     }
 
     logger.info('Subscriber deactivated', { id });
@@ -108,73 +336,309 @@ export const deleteSubscriber = async (req: Request, res: Response): Promise<voi
   }
 };
 
-export const subscribeToTopic = async (req: Request, res: Response): Promise<void> => {
+export const getSubscriberEvents = async (req: Request, res: Response): Promise<void> => {
   const { id } = req.params;
-  const { topicId } = req.body;
+  const { limit = '50', before } = req.query;
 
-  if (!topicId) {
-    res.status(400).json({ error: 'topicId is required' });
+  const pageSize = parseInt(limit as string);
+  if (isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` });
+    return;
+  }
+
+  const beforeId = before !== undefined ? parseInt(before as string) : undefined;
+  if (beforeId !== undefined && isNaN(beforeId)) {
+    res.status(400).json({ error: 'before must be an event id' });
     return;
   }
 
   try {
-    const [subscriber] = await db.select()
+    const [subscriber] = await db.select({ id: subscribers.id })
       .from(subscribers)
-      .where(and(
-        eq(subscribers.id, parseInt(id)),
-        eq(subscribers.is_active, true)
-      ))
+      .where(eq(subscribers.id, parseInt(id)))
       .limit(1);
 
     if (!subscriber) {
-      res.status(404).json({ error: 'Subscriber not found or inactive' });
+      res.status(404).json({ error: 'Subscriber not found' });
       return;
     }
 
-    const [topic] = await db.select()
-      .from(topics)
-      .where(eq(topics.id, topicId))
+    const events = await subscriberEventService.list(subscriber.id, pageSize, beforeId);
+
+    res.json({
+      data: events,
+      next_before: events.length === pageSize ? events[events.length - 1].id : null,
+    });
+  } catch (error) {
+    logger.error('Error fetching subscriber events', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch subscriber events' });
+  }
+};
+
+export const getSubscriberEmails = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { status, since, until, limit = '50', before } = req.query;
+
+  if (status !== undefined && !isEmailStatus(status)) {
+    res.status(400).json({ error: `status must be one of: ${EMAIL_STATUSES.join(', ')}` });
+    return;
+  }
+
+  const sinceDate = parseDateParam(since);
+  const untilDate = parseDateParam(until);
+  if (sinceDate === null || untilDate === null) {
+    res.status(400).json({ error: 'Invalid since or until format' });
+    return;
+  }
+
+  const pageSize = parseInt(limit as string);
+  if (isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` });
+    return;
+  }
+
+  const beforeId = before !== undefined ? parseInt(before as string) : undefined;
+  if (beforeId !== undefined && isNaN(beforeId)) {
+    res.status(400).json({ error: 'before must be an email log id' });
+    return;
+  }
+
+  try {
+    const [subscriber] = await db.select({ id: subscribers.id })
+      .from(subscribers)
+      .where(eq(subscribers.id, parseInt(id)))
       .limit(1);
 
-    if (!topic) {
-      res.status(404).json({ error: 'Topic not found' });
+    if (!subscriber) {
+      res.status(404).json({ error: 'Subscriber not found' });
       return;
     }
 
-    const [subscription] = await db.insert(subscriptions).values({
-      subscriber_id: parseInt(id),
-      topic_id: topicId,
-    }).returning();
+    res.json(await deliveryHistoryService.list(subscriber.id, {
+      status,
+      since: sinceDate,
+      until: untilDate,
+      limit: pageSize,
+      before: beforeId,
+    }));
+  } catch (error) {
+    logger.error('Error fetching subscriber emails', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch subscriber emails' });
+  }
+};
 
-    logger.info('Subscriber subscribed to topic', { subscriberId: id, topicId });
-    res.status(201).json(subscription);
-  } catch (error: any) {
-    if (error.code === '23505') {
-      res.status(409).json({ error: 'Already subscribed to this topic' });
+export const exportSubscriberData = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const data = await gdprService.exportData(parseInt(id));
+
+    if (!data) {
+      res.status(404).json({ error: 'Subscriber not found' });
       return;
     }
+
+    logger.info('Subscriber data exported', { id });
+    res.json(data);
+  } catch (error) {
+    logger.error('Error exporting subscriber data', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to export subscriber data' });
+  }
+};
+
+export const eraseSubscriber = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const outcome = await gdprService.erase(parseInt(id), apiContext(req));
+
+    switch (outcome.result) {
+      case 'not_found':
+        res.status(404).json({ error: 'Subscriber not found' });
+        return;
+      case 'already_erased':
+        res.status(409).json({ error: 'Subscriber already erased' });
+        return;
+      case 'erased':
+        res.json({
+          message: 'Subscriber erased successfully',
+          subscriptions_removed: outcome.subscriptionsRemoved,
+          email_logs_anonymised: outcome.emailLogsAnonymised,
+        });
+        return;
+    }
+  } catch (error) {
+    logger.error('Error erasing subscriber', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to erase subscriber' });
+  }
+};
+
+export const subscribeToTopic = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { topicId, frequency = 'immediate' } = req.body;
+
+  if (!topicId) {
+    res.status(400).json({ error: 'topicId is required' });
+    return;
+  }
+
+  if (!isDeliveryFrequency(frequency)) {
+    res.status(400).json({ error: `frequency must be one of: ${DELIVERY_FREQUENCIES.join(', ')}` });
+    return;
+  }
+
+  try {
+    const outcome = await subscriptionService.subscribe(parseInt(id), topicId, frequency, apiContext(req));
+
+    switch (outcome.result) {
+      case 'subscriber_not_found':
+        res.status(404).json({ error: 'Subscriber not found or inactive' });
+        return;
+      case 'topic_not_found':
+        res.status(404).json({ error: 'Topic not found' });
+        return;
+      case 'topic_archived':
+        res.status(409).json({ error: 'Topic is archived' });
+        return;
+      case 'already_subscribed':
+        res.status(409).json({ error: 'Already subscribed to this topic' });
+        return;
+      case 'subscribed':
+        res.status(201).json(outcome.subscription);
+        return;
+    }
+  } catch (error) {
     logger.error('Error subscribing to topic', { error: (error as Error).message });
     res.status(500).json({ error: 'Failed to subscribe to topic' });
   }
 };
 
+export const updateSubscription = async (req: Request, res: Response): Promise<void> => {
+  const { id, topicId } = req.params;
+  const { frequency } = req.body;
+
+  if (!isDeliveryFrequency(frequency)) {
+    res.status(400).json({ error: `frequency must be one of: ${DELIVERY_FREQUENCIES.join(', ')}` });
+    return;
+  }
+
+  try {
+    const subscription = await subscriptionService.setFrequency(parseInt(id), parseInt(topicId), frequency, apiContext(req));
+
+    if (!subscription) {
+      res.status(404).json({ error: 'Subscription not found' });
+      return;
+    }
+
+    res.json(subscription);
+  } catch (error) {
+    logger.error('Error updating subscription', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to update subscription' });
+  }
+};
+
+// A pause end date must be a parseable instant in the future
+const parsePauseUntil = (value: unknown): Date | null => {
+  const until = typeof value === 'string' ? new Date(value) : null;
+  return until && !isNaN(until.getTime()) && until.getTime() > Date.now() ? until : null;
+};
+
+export const pauseSubscriber = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { until } = req.body;
+
+  const pausedUntil = until === undefined || until === null ? null : parsePauseUntil(until);
+  if (until !== undefined && until !== null && !pausedUntil) {
+    res.status(400).json({ error: 'until must be a future date-time' });
+    return;
+  }
+
+  try {
+    const subscriber = await pauseService.pauseSubscriber(parseInt(id), pausedUntil, apiContext(req));
+
+    if (!subscriber) {
+      res.status(404).json({ error: 'Subscriber not found' });
+      return;
+    }
+
+    res.json(subscriber);
+  } catch (error) {
+    logger.error('Error pausing subscriber', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to pause subscriber' });
+  }
+};
+
+export const resumeSubscriber = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const subscriber = await pauseService.resumeSubscriber(parseInt(id), apiContext(req));
+
+    if (!subscriber) {
+      res.status(404).json({ error: 'Subscriber not found' });
+      return;
+    }
+
+    res.json(subscriber);
+  } catch (error) {
+    logger.error('Error resuming subscriber', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to resume subscriber' });
+  }
+};
+
+export const pauseSubscription = async (req: Request, res: Response): Promise<void> => {
+  const { id, topicId } = req.params;
+
+  const pausedUntil = parsePauseUntil(req.body.until);
+  if (!pausedUntil) {
+    res.status(400).json({ error: 'until is required and must be a future date-time' });
+    return;
+  }
+
+  try {
+    const subscription = await pauseService.pauseSubscription(parseInt(id), parseInt(topicId), pausedUntil, apiContext(req));
+
+    if (!subscription) {
+      res.status(404).json({ error: 'Subscription not found' });
+      return;
+    }
+
+    res.json(subscription);
+  } catch (error) {
+    logger.error('Error pausing subscription', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to pause subscription' });
+  }
+};
+
+export const resumeSubscription = async (req: Request, res: Response): Promise<void> => {
+  const { id, topicId } = req.params;
+
+  try {
+    const subscription = await pauseService.resumeSubscription(parseInt(id), parseInt(topicId), apiContext(req));
+
+    if (!subscription) {
+      res.status(404).json({ error: 'Subscription not found' });
+      return;
+    }
+
+    res.json(subscription);
+  } catch (error) {
+    logger.error('Error resuming subscription', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to resume subscription' });
+  }
+};
+
 export const unsubscribeFromTopic = async (req: Request, res: Response): Promise<void> => {
   const { id, topicId } = req.params;
 
   try {
-    const result = await db.delete(subscriptions)
-      .where(and(
-        eq(subscriptions.subscriber_id, parseInt(id)),
-        eq(subscriptions.topic_id, parseInt(topicId))
-      ))
-      .returning();
+    const removed = await subscriptionService.unsubscribe(parseInt(id), parseInt(topicId), apiContext(req));
 
-    if (result.length === 0) {
+    if (!removed) {
       res.status(404).json({ error: 'Subscription not found' });
       return;
     }
 
-    logger.info('Subscriber unsubscribed from topic', { subscriberId: id, topicId });
     res.json({ message: 'Unsubscribed successfully' });
   } catch (error) {
     logger.error('Error unsubscribing from topic', { error: (error as Error).message });
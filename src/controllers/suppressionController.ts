@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import suppressionService from '../services/suppressionService.js';
+import { validateEmail, SYNTAX_ONLY } from '../utils/emailValidation.js';
+import logger from '../config/logger.js';
+
+const DOMAIN_PATTERN = /^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+export const createSuppression = async (req: Request, res: Response): Promise<void> => {
+  const { email, domain, reason, source, expiresAt } = req.body;
+
+  if ((email && domain) || (!email && !domain)) {
+    res.status(400).json({ error: 'Exactly one of email or domain is required' });
+    return;
+  }
+
+  const emailValidation = email ? validateEmail(email, SYNTAX_ONLY) : null;
+  if (emailValidation && !emailValidation.valid) {
+    res.status(400).json({ error: 'Invalid email address', reasons: emailValidation.reasons });
+    return;
+  }
+
+  if (domain && (typeof domain !== 'string' || !DOMAIN_PATTERN.test(domain.trim().toLowerCase()))) {
+    res.status(400).json({ error: 'Valid domain is required' });
+    return;
+  }
+
+  let expiresDate: Date | null = null;
+  if (expiresAt !== undefined && expiresAt !== null) {
+    expiresDate = new Date(expiresAt);
+    if (isNaN(expiresDate.getTime())) {
+      res.status(400).json({ error: 'Invalid expiresAt format' });
+      return;
+    }
+  }
+
+  try {
+    const suppression = await suppressionService.add({
+      type: emailValidation ? 'address' : 'domain',
+      value: emailValidation?.email || domain,
+      reason: reason || null,
+      source: source || 'manual',
+      expiresAt: expiresDate,
+    });
+
+    res.status(201).json(suppression);
+  } catch (error) {
+    logger.error('Error creating suppression', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to create suppression' });
+  }
+};
+
+export const getSuppressions = async (req: Request, res: Response): Promise<void> => {
+  const { active_only = 'true' } = req.query;
+
+  try {
+    const suppressionList = await suppressionService.list(active_only === 'true');
+    res.json(suppressionList);
+  } catch (error) {
+    logger.error('Error fetching suppressions', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch suppressions' });
+  }
+};
+
+export const checkSuppression = async (req: Request, res: Response): Promise<void> => {
+  const { email } = req.query;
+
+  const validation = validateEmail(email, SYNTAX_ONLY);
+  if (!validation.valid) {
+    res.status(400).json({ error: 'Invalid email address', reasons: validation.reasons });
+    return;
+  }
+
+  try {
+    const suppression = await suppressionService.check(validation.email);
+    res.json({ email: validation.email, suppressed: !!suppression, suppression });
+  } catch (error) {
+    logger.error('Error checking suppression', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to check suppression' });
+  }
+};
+
+export const deleteSuppression = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const removed = await suppressionService.remove(parseInt(id));
+
+    if (!removed) {
+      res.status(404).json({ error: 'Suppression not found' });
+      return;
+    }
+
+    logger.info('Suppression deleted', { id });
+    res.json({ message: 'Suppression deleted successfully' });
+  } catch (error) {
+    logger.error('Error deleting suppression', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to delete suppression' });
+  }
+};
@@ -1,25 +1,70 @@
 import { Request, Response } from 'express';
-import { eq, desc, and } from 'drizzle-orm';
-import db from '../config/database.js';
-import { topics, subscriptions, subscribers } from '../models/schema.js';
+import topicService from '../services/topicService.js';
+import layoutService, { SaveLayoutResult } from '../services/layoutService.js';
+import attributeService from '../services/attributeService.js';
+import feedService, { FeedSettings } from '../services/feedService.js';
+import { ALLOWED_SENDER_DOMAINS } from '../services/emailService.js';
+import { apiContext } from '../utils/eventContext.js';
+import { validateSenderIdentity, SenderField } from '../utils/senderIdentity.js';
+import { validateLayout, withoutContentSlot } from '../utils/layout.js';
+import { ENTRY_PLACEHOLDERS, ROUNDUP_PLACEHOLDERS, unknownPlaceholders, withoutFeedPlaceholders } from '../utils/feed.js';
+import { escapeHtml } from '../utils/html.js';
+import { publicUrl } from '../utils/publicUrl.js';
 import logger from '../config/logger.js';
 
+// A parent is a topic id, or null for a top-level topic
+const parseParentId = (value: unknown): number | null | undefined =>
+  value === null ? null : Number.isInteger(value) && (value as number) > 0 ? value as number : undefined;
+
+const SENDER_BODY_FIELDS: Record<string, SenderField> = {
+  fromName: 'from_name',
+  fromEmail: 'from_email',
+  replyTo: 'reply_to',
+  envelopeSender: 'envelope_sender',
+};
+
+// Picks the sender fields present in the request body
+const parseSender = (body: Record<string, unknown>) => validateSenderIdentity(
+  Object.fromEntries(Object.entries(SENDER_BODY_FIELDS)
+    .filter(([bodyField]) => bodyField in body)
+    .map(([bodyField, field]) => [field, body[bodyField]])),
+  ALLOWED_SENDER_DOMAINS
+);
+
 export const createTopic = async (req: Request, res: Response): Promise<void> => {
-  const { name, description } = req.body;
+  const { name, description, parentId = null } = req.body;
 
   if (!name || name.trim().length === 0) {
     res.status(400).json({ error: 'Topic name is required' });
     return;
   }
 
+  const parent = parseParentId(parentId);
+  if (parent === undefined) {
+    res.status(400).json({ error: 'parentId must be a topic id or null' });
+    return;
+  }
+
+  const sender = parseSender(req.body);
+  if (!sender.valid) {
+    res.status(400).json({ error: sender.error });
+    return;
+  }
+
   try {
-    const [topic] = await db.insert(topics).values({
+    const outcome = await topicService.create({
       name: name.trim(),
       description: description || null,
-    }).returning();
+      parentId: parent,
+      sender: sender.identity,
+    });
+
+    if (outcome.result === 'parent_not_found') {
+      res.status(400).json({ error: 'Parent topic not found' });
+      return;
+    }
 
-    logger.info('Topic created', { id: topic.id, name: topic.name });
-    res.status(201).json(topic);
+    res.status(201).json(outcome.topic);
   } catch (error: any) {
     if (error.code === '23505') {
       res.status(409).json({ error: 'Topic with this name already exists' });
@@ -30,80 +75,473 @@ export const createTopic = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
-export const getTopics = async (_req: Request, res: Response): Promise<void> => {
+export const getTopics = async (req: Request, res: Response): Promise<void> => {
   try {
-    const allTopics = await db.select().from(topics).orderBy(desc(topics.created_at));
-
-    const topicsWithCount = await Promise.all(
-      allTopics.map(async (topic) => {
-        const activeSubscriptions = await db
-          .select()
-          .from(subscriptions)
-          .innerJoin(subscribers, eq(subscriptions.subscriber_id, subscribers.id))
-          .where(and(
-            eq(subscriptions.topic_id, topic.id),
-            eq(subscribers.is_active, true)
-          ));
-
-        return {
-          ...topic,
-          subscriber_count: activeSubscriptions.length.toString(),
-        };
-      })
-    );
-
-    res.json(topicsWithCount);
+    res.json(await topicService.list(req.query.include_archived === 'true'));
   } catch (error) {
     logger.error('Error fetching topics', { error: (error as Error).message });
     res.status(500).json({ error: 'Failed to fetch topics' });
   }
 };
 
+export const getTopicTree = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(await topicService.tree(req.query.include_archived === 'true'));
+  } catch (error) {
+    logger.error('Error fetching topic tree', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch topic tree' });
+  }
+};
+
 export const getTopic = async (req: Request, res: Response): Promise<void> => {
   const { id } = req.params;
 
   try {
-    const [topic] = await db.select().from(topics).where(eq(topics.id, parseInt(id))).limit(1);
+    const topic = await topicService.get(parseInt(id));
 
     if (!topic) {
       res.status(404).json({ error: 'Topic not found' });
       return;
     }
 
-    const activeSubscriptions = await db
-      .select()
-      .from(subscriptions)
-      .innerJoin(subscribers, eq(subscriptions.subscriber_id, subscribers.id))
-      .where(and(
-        eq(subscriptions.topic_id, topic.id),
-        eq(subscribers.is_active, true)
-      ));
-
-    res.json({
-      ...topic,
-      subscriber_count: activeSubscriptions.length.toString(),
-    });
+    res.json(topic);
   } catch (error) {
     logger.error('Error fetching topic', { error: (error as Error).message });
     res.status(500).json({ error: 'Failed to fetch topic' });
   }
 };
 
-export const deleteTopic = async (req: Request, res: Response): Promise<void> => {
+export const updateTopic = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { name, description } = req.body;
+
+  const sender = parseSender(req.body);
+  if (!sender.valid) {
+    res.status(400).json({ error: sender.error });
+    return;
+  }
+
+  if (name === undefined && description === undefined && !('parentId' in req.body) && Object.keys(sender.identity).length === 0) {
+    res.status(400).json({ error: 'No fields to update' });
+    return;
+  }
+
+  if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+    res.status(400).json({ error: 'Topic name cannot be empty' });
+    return;
+  }
+
+  const parent = 'parentId' in req.body ? parseParentId(req.body.parentId) : undefined;
+  if ('parentId' in req.body && parent === undefined) {
+    res.status(400).json({ error: 'parentId must be a topic id or null' });
+    return;
+  }
+
+  try {
+    const outcome = await topicService.update(parseInt(id), {
+      name: name?.trim(),
+      description: description === undefined ? undefined : description || null,
+      parentId: parent,
+      sender: sender.identity,
+    });
+
+    switch (outcome.result) {
+      case 'not_found':
+        res.status(404).json({ error: 'Topic not found' });
+        return;
+      case 'parent_not_found':
+        res.status(400).json({ error: 'Parent topic not found' });
+        return;
+      case 'cycle':
+        res.status(409).json({ error: 'A topic cannot be moved below itself or one of its descendants' });
+        return;
+      case 'updated':
+        res.json(outcome.topic);
+        return;
+    }
+  } catch (error: any) {
+    if (error.code === '23505') {
+      res.status(409).json({ error: 'Topic with this name already exists' });
+      return;
+    }
+    logger.error('Error updating topic', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to update topic' });
+  }
+};
+
+export const archiveTopic = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const topic = await topicService.archive(parseInt(id));
+
+    if (!topic) {
+      res.status(404).json({ error: 'Topic not found' });
+      return;
+    }
+
+    res.json(topic);
+  } catch (error) {
+    logger.error('Error archiving topic', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to archive topic' });
+  }
+};
+
+export const restoreTopic = async (req: Request, res: Response): Promise<void> => {
   const { id } = req.params;
 
   try {
-    const result = await db.delete(topics).where(eq(topics.id, parseInt(id))).returning();
+    const topic = await topicService.restore(parseInt(id));
 
-    if (result.length === 0) {
+    if (!topic) {
       res.status(404).json({ error: 'Topic not found' });
       return;
     }
 
-    logger.info('Topic deleted', { id });
-    res.json({ message: 'Topic deleted successfully' });
+    res.json(topic);
+  } catch (error) {
+    logger.error('Error restoring topic', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to restore topic' });
+  }
+};
+
+// Without ?confirm=true nothing is deleted; the response lists what a confirmed delete would remove
+export const deleteTopic = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (req.query.confirm !== 'true') {
+      const topic = await topicService.get(parseInt(id));
+
+      if (!topic) {
+        res.status(404).json({ error: 'Topic not found' });
+        return;
+      }
+
+      res.status(409).json({
+        error: 'Deleting a topic permanently removes its content, send history and subscriptions. Archive it instead, or repeat the request with ?confirm=true',
+        would_remove: await topicService.getDeletionImpact(topic.id),
+      });
+      return;
+    }
+
+    const outcome = await topicService.delete(parseInt(id), apiContext(req));
+
+    switch (outcome.result) {
+      case 'not_found':
+        res.status(404).json({ error: 'Topic not found' });
+        return;
+      case 'has_children':
+        res.status(409).json({ error: 'Topic has child topics; move or delete them first' });
+        return;
+      case 'deleted':
+        res.json({ message: 'Topic deleted successfully', removed: outcome.removed });
+        return;
+    }
   } catch (error) {
     logger.error('Error deleting topic', { error: (error as Error).message });
     res.status(500).json({ error: 'Failed to delete topic' });
   }
 };
+
+export const getTopicLayout = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const state = await layoutService.getState(parseInt(id));
+
+    if (!state) {
+      res.status(404).json({ error: 'Topic not found' });
+      return;
+    }
+
+    res.json(state);
+  } catch (error) {
+    logger.error('Error fetching topic layout', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch topic layout' });
+  }
+};
+
+export const getTopicLayoutVersions = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const versions = await layoutService.listVersions(parseInt(id));
+
+    if (!versions) {
+      res.status(404).json({ error: 'Topic not found' });
+      return;
+    }
+
+    res.json(versions);
+  } catch (error) {
+    logger.error('Error fetching topic layout versions', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch topic layout versions' });
+  }
+};
+
+const sendSavedLayout = (res: Response, outcome: SaveLayoutResult): void => {
+  switch (outcome.result) {
+    case 'not_found':
+      res.status(404).json({ error: 'Topic not found' });
+      return;
+    case 'version_not_found':
+      res.status(404).json({ error: 'Layout version not found' });
+      return;
+    case 'saved':
+      res.status(201).json(outcome.layout);
+      return;
+  }
+};
+
+export const saveTopicLayout = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  const validation = validateLayout({ html: req.body.html, text: req.body.text });
+  if (!validation.valid) {
+    res.status(400).json({ error: validation.error });
+    return;
+  }
+
+  try {
+    const { layout } = validation;
+    const mergeTagProblems = await attributeService.checkTemplates([
+      withoutContentSlot(layout.html),
+      layout.text && withoutContentSlot(layout.text),
+    ]);
+    if (mergeTagProblems) {
+      res.status(400).json({ error: 'Invalid merge tags', ...mergeTagProblems });
+      return;
+    }
+
+    sendSavedLayout(res, await layoutService.save(parseInt(id), layout, apiContext(req).actor));
+  } catch (error) {
+    logger.error('Error saving topic layout', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to save topic layout' });
+  }
+};
+
+// Saves a version without a layout, so the topic falls back to its parent's layout
+export const removeTopicLayout = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    sendSavedLayout(res, await layoutService.save(parseInt(id), null, apiContext(req).actor));
+  } catch (error) {
+    logger.error('Error removing topic layout', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to remove topic layout' });
+  }
+};
+
+export const restoreTopicLayoutVersion = async (req: Request, res: Response): Promise<void> => {
+  const { id, version } = req.params;
+
+  try {
+    sendSavedLayout(res, await layoutService.restoreVersion(parseInt(id), parseInt(version), apiContext(req).actor));
+  } catch (error) {
+    logger.error('Error restoring topic layout version', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to restore topic layout version' });
+  }
+};
+
+// The public signup form runs in an iframe, so every visitor gets a freshly timed form
+export const getTopicSignupForm = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const topic = await topicService.get(parseInt(id));
+
+    if (!topic) {
+      res.status(404).json({ error: 'Topic not found' });
+      return;
+    }
+
+    if (topic.archived_at) {
+      res.status(409).json({ error: 'Topic is archived' });
+      return;
+    }
+
+    const formUrl = publicUrl(`/api/signup/${topic.id}`);
+    res.json({
+      form_url: formUrl,
+      token_url: publicUrl(`/api/signup/${topic.id}/token`),
+      embed_html: `<iframe src="${escapeHtml(formUrl)}" title="${escapeHtml(`Subscribe to ${topic.name}`)}" style="border: 0; width: 100%; max-width: 480px; height: 320px;"></iframe>`,
+    });
+  } catch (error) {
+    logger.error('Error fetching topic signup form', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch topic signup form' });
+  }
+};
+
+const FEED_DELIVERIES: FeedSettings['delivery'][] = ['immediate', 'daily', 'weekly'];
+
+const isFeedDelivery = (value: unknown): value is FeedSettings['delivery'] =>
+  FEED_DELIVERIES.includes(value as FeedSettings['delivery']);
+
+const FEED_TEMPLATE_FIELDS = [
+  { field: 'titleTemplate', scope: 'entry', allowed: ENTRY_PLACEHOLDERS },
+  { field: 'bodyTemplate', scope: 'entry', allowed: ENTRY_PLACEHOLDERS },
+  { field: 'roundupTitleTemplate', scope: 'feed', allowed: ROUNDUP_PLACEHOLDERS },
+] as const;
+
+const isIntegerBetween = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const parseFeedSettings = (body: Record<string, unknown>): { valid: true; settings: FeedSettings } | { valid: false; error: string } => {
+  const { url, delivery = 'immediate', roundupHour, roundupWeekday, isActive } = body;
+
+  if (typeof url !== 'string' || url.trim().length === 0) {
+    return { valid: false, error: 'url is required' };
+  }
+  const sourceError = feedService.checkSource(url.trim());
+  if (sourceError) {
+    return { valid: false, error: sourceError };
+  }
+  if (!isFeedDelivery(delivery)) {
+    return { valid: false, error: `delivery must be one of: ${FEED_DELIVERIES.join(', ')}` };
+  }
+  if (roundupHour !== undefined && !isIntegerBetween(roundupHour, 0, 23)) {
+    return { valid: false, error: 'roundupHour must be an integer from 0 to 23 (UTC)' };
+  }
+  if (roundupWeekday !== undefined && !isIntegerBetween(roundupWeekday, 0, 6)) {
+    return { valid: false, error: 'roundupWeekday must be an integer from 0 (Sunday) to 6' };
+  }
+  if (isActive !== undefined && typeof isActive !== 'boolean') {
+    return { valid: false, error: 'isActive must be a boolean' };
+  }
+
+  const templates: Partial<Record<(typeof FEED_TEMPLATE_FIELDS)[number]['field'], string>> = {};
+  for (const { field, scope, allowed } of FEED_TEMPLATE_FIELDS) {
+    const template = body[field];
+    if (template === undefined) {
+      continue;
+    }
+    if (typeof template !== 'string' || template.trim().length === 0) {
+      return { valid: false, error: `${field} must be a non-empty string` };
+    }
+    const unknown = unknownPlaceholders(template, scope, allowed);
+    if (unknown.length > 0) {
+      return {
+        valid: false,
+        error: `${field} uses unknown placeholders: ${unknown.join(', ')}. Available: ${allowed.map(name => `{{${scope}.${name}}}`).join(', ')}`,
+      };
+    }
+    templates[field] = template;
+  }
+
+  return {
+    valid: true,
+    settings: {
+      url: url.trim(),
+      delivery,
+      ...templates,
+      roundupHour,
+      roundupWeekday,
+      isActive,
+    },
+  };
+};
+
+export const getTopicFeed = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const feed = await feedService.get(parseInt(id));
+
+    if (!feed) {
+      res.status(404).json({ error: 'Topic has no feed' });
+      return;
+    }
+
+    res.json(feed);
+  } catch (error) {
+    logger.error('Error fetching topic feed', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to fetch topic feed' });
+  }
+};
+
+export const saveTopicFeed = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  const validation = parseFeedSettings(req.body);
+  if (!validation.valid) {
+    res.status(400).json({ error: validation.error });
+    return;
+  }
+
+  try {
+    const { settings } = validation;
+    // Feed placeholders are filled in when content is created; merge tags are left for send time
+    const mergeTagProblems = await attributeService.checkTemplates(
+      [settings.titleTemplate, settings.bodyTemplate, settings.roundupTitleTemplate]
+        .map(template => template && withoutFeedPlaceholders(template))
+    );
+    if (mergeTagProblems) {
+      res.status(400).json({ error: 'Invalid merge tags', ...mergeTagProblems });
+      return;
+    }
+
+    const outcome = await feedService.save(parseInt(id), settings);
+
+    switch (outcome.result) {
+      case 'not_found':
+        res.status(404).json({ error: 'Topic not found' });
+        return;
+      case 'archived':
+        res.status(409).json({ error: 'Topic is archived' });
+        return;
+      case 'saved':
+        res.json(outcome.feed);
+        return;
+    }
+  } catch (error) {
+    logger.error('Error saving topic feed', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to save topic feed' });
+  }
+};
+
+export const removeTopicFeed = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    if (!await feedService.remove(parseInt(id))) {
+      res.status(404).json({ error: 'Topic has no feed' });
+      return;
+    }
+
+    res.json({ message: 'Topic feed removed successfully' });
+  } catch (error) {
+    logger.error('Error removing topic feed', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to remove topic feed' });
+  }
+};
+
+export const pollTopicFeed = async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const outcome = await feedService.pollTopic(parseInt(id), new Date());
+
+    switch (outcome.result) {
+      case 'not_found':
+        res.status(404).json({ error: 'Topic has no feed' });
+        return;
+      case 'archived':
+        res.status(409).json({ error: 'Topic is archived' });
+        return;
+      case 'failed':
+        res.status(502).json({ error: 'Failed to fetch feed', details: outcome.error });
+        return;
+      case 'polled':
+        res.json({
+          baseline: outcome.baseline,
+          new_entries: outcome.new_entries,
+          content_ids: outcome.content_ids,
+        });
+        return;
+    }
+  } catch (error) {
+    logger.error('Error polling topic feed', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to poll topic feed' });
+  }
+};
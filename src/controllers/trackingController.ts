@@ -0,0 +1,43 @@
+import { Request, Response } from 'express';
+import engagementService from '../services/engagementService.js';
+import { renderPage } from '../utils/html.js';
+import logger from '../config/logger.js';
+
+const TRANSPARENT_GIF = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+// Always answers with the pixel: a broken image in someone's inbox helps nobody
+export const trackOpen = async (req: Request, res: Response): Promise<void> => {
+  const data = engagementService.resolve(req.params.token);
+
+  if (data) {
+    try {
+      await engagementService.record('open', data);
+    } catch (error) {
+      logger.error('Error recording open', { subscriberId: data.subscriberId, error: (error as Error).message });
+    }
+  }
+
+  res.set({
+    'Content-Type': 'image/gif',
+    'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+  });
+  res.send(TRANSPARENT_GIF);
+};
+
+export const trackClick = async (req: Request, res: Response): Promise<void> => {
+  const data = engagementService.resolve(req.params.token);
+
+  if (!data?.url) {
+    res.status(400).send(renderPage('Invalid link', '<p>This link is invalid.</p>'));
+    return;
+  }
+
+  // Recording must not stand between the reader and the page they clicked through to
+  try {
+    await engagementService.record('click', data);
+  } catch (error) {
+    logger.error('Error recording click', { subscriberId: data.subscriberId, error: (error as Error).message });
+  }
+
+  res.redirect(302, data.url);
+};
@@ -0,0 +1,56 @@
+import { Request, Response } from 'express';
+import unsubscribeService from '../services/unsubscribeService.js';
+import { escapeHtml, renderPage } from '../utils/html.js';
+import logger from '../config/logger.js';
+
+const invalidLinkPage = renderPage(
+  'Invalid unsubscribe link',
+  '<p>This unsubscribe link is invalid or no longer applies.</p>'
+);
+
+// GET only shows a confirmation form so that link scanners cannot unsubscribe people
+export const showUnsubscribe = async (req: Request, res: Response): Promise<void> => {
+  const { token } = req.params;
+
+  try {
+    const target = await unsubscribeService.resolve(token);
+
+    if (!target) {
+      res.status(400).send(invalidLinkPage);
+      return;
+    }
+
+    res.send(renderPage('Unsubscribe', `
+      <p>Stop sending <strong>${escapeHtml(target.topicName)}</strong> to ${escapeHtml(target.email)}?</p>
+      <form method="POST" action="">
+        <button type="submit">Unsubscribe</button>
+      </form>
+    `));
+  } catch (error) {
+    logger.error('Error rendering unsubscribe page', { error: (error as Error).message });
+    res.status(500).send(renderPage('Something went wrong', '<p>Please try again later.</p>'));
+  }
+};
+
+// Handles both the form above and RFC 8058 one-click POSTs from mailbox providers
+export const processUnsubscribe = async (req: Request, res: Response): Promise<void> => {
+  const { token } = req.params;
+
+  try {
+    const target = await unsubscribeService.resolve(token);
+
+    if (!target) {
+      res.status(400).send(invalidLinkPage);
+      return;
+    }
+
+    await unsubscribeService.unsubscribe(target);
+
+    res.send(renderPage('Unsubscribed', `
+      <p>${escapeHtml(target.email)} will no longer receive <strong>${escapeHtml(target.topicName)}</strong>.</p>
+    `));
+  } catch (error) {
+    logger.error('Error processing unsubscribe', { error: (error as Error).message });
+    res.status(500).send(renderPage('Something went wrong', '<p>Please try again later.</p>'));
+  }
+};
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { createRateLimiter, RateLimitOptions } from '../utils/rateLimit.js';
+import logger from '../config/logger.js';
+
+type LimitedHandler = (req: Request, res: Response) => void;
+
+const sendTooManyRequests: LimitedHandler = (_req, res) => {
+  res.status(429).json({ error: 'Too many requests, please try again later' });
+};
+
+// Per-IP limit for public endpoints. Behind a proxy, set TRUST_PROXY so req.ip is the client's address.
+// onLimited answers requests over the limit, for endpoints that do not speak JSON.
+export const rateLimitByIp = (name: string, options: RateLimitOptions, onLimited: LimitedHandler = sendTooManyRequests) => {
+  const limiter = createRateLimiter(options);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const decision = limiter.hit(req.ip || 'unknown');
+
+    if (!decision.allowed) {
+      logger.warn('Rate limit exceeded', { limiter: name, ip: req.ip, path: req.path });
+      res.setHeader('Retry-After', decision.retryAfterSeconds.toString());
+      onLimited(req, res);
+      return;
+    }
+
+    next();
+  };
+};
@@ -1,42 +1,156 @@
-import { pgTable, serial, text, timestamp, boolean, integer, varchar, pgEnum, uniqueIndex } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, serial, text, timestamp, boolean, integer, varchar, pgEnum, uniqueIndex, index, jsonb, check, AnyPgColumn } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import type { SubscriberAttributes } from '../utils/mergeTags.js';
+import type { SegmentRule } from '../utils/segmentRules.js';
 
 export const statusEnum = pgEnum('content_status', ['pending', 'processing', 'sent']);
-export const emailStatusEnum = pgEnum('email_status', ['pending', 'sent', 'failed']);
+export const emailStatusEnum = pgEnum('email_status', ['pending', 'sent', 'failed', 'suppressed']);
+export const subscriberStatusEnum = pgEnum('subscriber_status', ['pending', 'confirmed']);
+export const suppressionTypeEnum = pgEnum('suppression_type', ['address', 'domain']);
+export const bounceTypeEnum = pgEnum('bounce_type', ['hard', 'soft']);
+export const deliveryModeEnum = pgEnum('delivery_mode', ['absolute', 'local_time']);
+export const waveStatusEnum = pgEnum('wave_status', ['pending', 'queued']);
+export const deliveryFrequencyEnum = pgEnum('delivery_frequency', ['immediate', 'daily', 'weekly']);
+export const importStatusEnum = pgEnum('import_status', ['queued', 'processing', 'completed', 'failed']);
+export const engagementTypeEnum = pgEnum('engagement_type', ['open', 'click']);
+export const contentLayoutEnum = pgEnum('content_layout', ['topic', 'none', 'custom']);
+export const subscriberEventTypeEnum = pgEnum('subscriber_event_type', [
+  'created',
+  'reactivated',
+  'confirmed',
+  'updated',
+  'deactivated',
+  'paused',
+  'resumed',
+  'subscribed',
+  'unsubscribed',
+  'frequency_changed',
+  'subscription_paused',
+  'subscription_resumed',
+  'reengagement_sent',
+  'erased',
+]);
+export const subscriberEventSourceEnum = pgEnum('subscriber_event_source', [
+  'api',
+  'import',
+  'confirmation',
+  'preference_center',
+  'unsubscribe_link',
+  'bounce',
+  'complaint',
+  'sunset',
+  'signup_form',
+]);
 
+// Subscribing to a topic covers its child topics; topicService keeps the hierarchy free of cycles.
+// Archived topics take no new content or subscriptions but keep their history.
 export const topics = pgTable('topics', {
   id: serial('id').primaryKey(),
   name: text('name').notNull().unique(),
   description: text('description'),
+  parent_id: integer('parent_id').references((): AnyPgColumn => topics.id, { onDelete: 'no action' }),
+  archived_at: timestamp('archived_at'),
+  // Sender identity for the topic's newsletters (see utils/senderIdentity.ts); unset fields are inherited
+  from_name: varchar('from_name', { length: 255 }),
+  from_email: varchar('from_email', { length: 255 }),
+  reply_to: varchar('reply_to', { length: 255 }),
+  envelope_sender: varchar('envelope_sender', { length: 255 }),
   created_at: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => ({
+  parentIdIdx: index('topics_parent_id_idx').on(table.parent_id),
+  notOwnParent: check('topics_not_own_parent', sql`${table.parent_id} <> ${table.id}`),
+}));
+
+// Versioned layouts of a topic (see utils/layout.ts). Rows are never changed: every save adds the next
+// version, and the highest version is current. A version without html removes the topic's own layout.
+export const topicLayouts = pgTable('topic_layouts', {
+  id: serial('id').primaryKey(),
+  topic_id: integer('topic_id').notNull().references(() => topics.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(),
+  html: text('html'),
+  text: text('text'),
+  created_by: varchar('created_by', { length: 255 }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueTopicVersion: uniqueIndex('unique_topic_layout_version').on(table.topic_id, table.version),
+  textNeedsHtml: check('topic_layouts_text_needs_html', sql`${table.html} is not null or ${table.text} is null`),
+}));
 
 export const subscribers = pgTable('subscribers', {
   id: serial('id').primaryKey(),
   email: varchar('email', { length: 255 }).notNull().unique(),
+  // Provider-normalised address (Gmail dots, plus tags) used to detect duplicate sign-ups
+  canonical_email: varchar('canonical_email', { length: 255 }),
   is_active: boolean('is_active').default(true).notNull(),
+  is_paused: boolean('is_paused').default(false).notNull(),
+  // Snooze: no mail until this time, after which delivery resumes by itself
+  paused_until: timestamp('paused_until'),
+  status: subscriberStatusEnum('status').default('confirmed').notNull(),
+  confirmation_sent_at: timestamp('confirmation_sent_at'),
+  confirmed_at: timestamp('confirmed_at'),
+  attributes: jsonb('attributes').$type<SubscriberAttributes>().default({}).notNull(),
+  // IANA zone name; null falls back to DEFAULT_TIMEZONE
+  timezone: varchar('timezone', { length: 64 }),
+  erased_at: timestamp('erased_at'),
+  // Sunset policy: when the "still interested?" email went out, and when the subscriber was deactivated for not answering it
+  reengagement_sent_at: timestamp('reengagement_sent_at'),
+  sunset_at: timestamp('sunset_at'),
   created_at: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => ({
+  createdAtIdx: index('subscribers_created_at_id_idx').on(table.created_at, table.id),
+  // Substring search; requires the pg_trgm extension
+  emailTrgmIdx: index('subscribers_email_trgm_idx').using('gin', table.email.op('gin_trgm_ops')),
+  emailDomainIdx: index('subscribers_email_domain_idx').on(sql`split_part(${table.email}, '@', 2)`),
+  canonicalEmailIdx: index('subscribers_canonical_email_idx').on(table.canonical_email),
+}));
 
 export const subscriptions = pgTable('subscriptions', {
   subscriber_id: integer('subscriber_id').notNull().references(() => subscribers.id, { onDelete: 'cascade' }),
-  topic_id: integer('topic_id').notNull().references(() => topics.id, { onDelete: 'cascade' }),
+  // Restricted so that only topicService's confirmed delete can remove a topic with subscribers
+  topic_id: integer('topic_id').notNull().references(() => topics.id, { onDelete: 'restrict' }),
+  // daily and weekly subscriptions are left out of the immediate send and collected into digests
+  frequency: deliveryFrequencyEnum('frequency').default('immediate').notNull(),
+  // Snoozes this topic only; content released meanwhile is skipped
+  paused_until: timestamp('paused_until'),
   created_at: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   uniqueSubscriberTopic: uniqueIndex('unique_subscriber_topic').on(table.subscriber_id, table.topic_id),
+  topicIdx: index('subscriptions_topic_id_idx').on(table.topic_id),
 }));
 
+export const segments = pgTable('segments', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  description: text('description'),
+  rules: jsonb('rules').$type<SegmentRule>().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
 export const content = pgTable('content', {
   id: serial('id').primaryKey(),
-  topic_id: integer('topic_id').notNull().references(() => topics.id, { onDelete: 'cascade' }),
+  // Content targets either every subscriber of a topic or the members of a segment
+  topic_id: integer('topic_id').references(() => topics.id, { onDelete: 'restrict' }),
+  segment_id: integer('segment_id').references(() => segments.id, { onDelete: 'restrict' }),
   title: text('title'),
   body: text('body').notNull(),
   scheduled_time: timestamp('scheduled_time').notNull(),
+  delivery_mode: deliveryModeEnum('delivery_mode').default('absolute').notNull(),
+  // Wall-clock target ("2025-01-20T08:00") for local_time delivery; scheduled_time then holds the first wave
+  local_send_time: varchar('local_send_time', { length: 16 }),
+  // 'topic' wraps the body in the topic's current layout at send time, 'none' sends it without one,
+  // and 'custom' uses layout_html/layout_text instead
+  layout: contentLayoutEnum('layout').default('topic').notNull(),
+  layout_html: text('layout_html'),
+  layout_text: text('layout_text'),
   is_sent: boolean('is_sent').default(false).notNull(),
   status: statusEnum('status').default('pending').notNull(),
   sent_at: timestamp('sent_at'),
   created_at: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => ({
+  targetCheck: check('content_target_check', sql`num_nonnulls(${table.topic_id}, ${table.segment_id}) = 1`),
+  customLayoutCheck: check('content_custom_layout_check', sql`(${table.layout} = 'custom') = (${table.layout_html} is not null)`),
+}));
 
 export const emailLogs = pgTable('email_logs', {
   id: serial('id').primaryKey(),
@@ -45,20 +159,206 @@ export const emailLogs = pgTable('email_logs', {
   status: emailStatusEnum('status').notNull(),
   message_id: varchar('message_id', { length: 255 }),
   error_message: text('error_message'),
+  // Set when the content went out as part of a digest; every item in one digest shares its message_id
+  digest_id: integer('digest_id').references(() => digests.id, { onDelete: 'set null' }),
   sent_at: timestamp('sent_at'),
   created_at: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   uniqueContentSubscriber: uniqueIndex('unique_content_subscriber').on(table.content_id, table.subscriber_id),
+  subscriberIdIdx: index('email_logs_subscriber_id_id_idx').on(table.subscriber_id, table.id),
+}));
+
+// Lifecycle history of a subscriber and their subscriptions. topic_id has no foreign key so the
+// history outlives deleted topics.
+export const subscriberEvents = pgTable('subscriber_events', {
+  id: serial('id').primaryKey(),
+  subscriber_id: integer('subscriber_id').notNull().references(() => subscribers.id, { onDelete: 'cascade' }),
+  type: subscriberEventTypeEnum('type').notNull(),
+  source: subscriberEventSourceEnum('source').notNull(),
+  actor: varchar('actor', { length: 255 }),
+  topic_id: integer('topic_id'),
+  details: jsonb('details').$type<Record<string, unknown>>().default({}).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  subscriberIdIdx: index('subscriber_events_subscriber_id_id_idx').on(table.subscriber_id, table.id),
+}));
+
+// Opens and clicks from tracked emails; content_id is null for mail that is not content, such as re-engagement emails
+export const engagementEvents = pgTable('engagement_events', {
+  id: serial('id').primaryKey(),
+  subscriber_id: integer('subscriber_id').notNull().references(() => subscribers.id, { onDelete: 'cascade' }),
+  content_id: integer('content_id').references(() => content.id, { onDelete: 'cascade' }),
+  type: engagementTypeEnum('type').notNull(),
+  url: text('url'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  subscriberCreatedAtIdx: index('engagement_events_subscriber_id_created_at_idx').on(table.subscriber_id, table.created_at),
+}));
+
+export const digests = pgTable('digests', {
+  id: serial('id').primaryKey(),
+  subscriber_id: integer('subscriber_id').notNull().references(() => subscribers.id, { onDelete: 'cascade' }),
+  frequency: deliveryFrequencyEnum('frequency').notNull(),
+  message_id: varchar('message_id', { length: 255 }),
+  item_count: integer('item_count').notNull(),
+  sent_at: timestamp('sent_at').defaultNow().notNull(),
+}, (table) => ({
+  subscriberSentAtIdx: index('digests_subscriber_id_sent_at_idx').on(table.subscriber_id, table.sent_at),
+}));
+
+export const subscriberImports = pgTable('subscriber_imports', {
+  id: serial('id').primaryKey(),
+  format: varchar('format', { length: 10 }).notNull(),
+  status: importStatusEnum('status').default('queued').notNull(),
+  total_rows: integer('total_rows').default(0).notNull(),
+  created_count: integer('created_count').default(0).notNull(),
+  skipped_count: integer('skipped_count').default(0).notNull(),
+  duplicate_count: integer('duplicate_count').default(0).notNull(),
+  rejected_count: integer('rejected_count').default(0).notNull(),
+  report: jsonb('report'),
+  error_message: text('error_message'),
+  started_at: timestamp('started_at'),
+  completed_at: timestamp('completed_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const erasureTombstones = pgTable('erasure_tombstones', {
+  email_hash: varchar('email_hash', { length: 64 }).primaryKey(),
+  erased_at: timestamp('erased_at').defaultNow().notNull(),
+});
+
+export const suppressions = pgTable('suppressions', {
+  id: serial('id').primaryKey(),
+  type: suppressionTypeEnum('type').notNull(),
+  value: varchar('value', { length: 255 }).notNull(),
+  reason: text('reason'),
+  source: varchar('source', { length: 50 }).default('manual').notNull(),
+  expires_at: timestamp('expires_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueTypeValue: uniqueIndex('unique_suppression_type_value').on(table.type, table.value),
+}));
+
+export const bounces = pgTable('bounces', {
+  id: serial('id').primaryKey(),
+  subscriber_id: integer('subscriber_id').notNull().references(() => subscribers.id, { onDelete: 'cascade' }),
+  email_log_id: integer('email_log_id').references(() => emailLogs.id, { onDelete: 'set null' }),
+  type: bounceTypeEnum('type').notNull(),
+  status_code: varchar('status_code', { length: 20 }),
+  diagnostic: text('diagnostic'),
+  source: varchar('source', { length: 20 }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  // The same DSN ingested twice; bounces that could not be linked to a send are not deduplicated
+  uniqueEmailLogStatus: uniqueIndex('unique_bounce_email_log_status')
+    .on(table.email_log_id, sql`coalesce(${table.status_code}, '')`)
+    .where(sql`${table.email_log_id} is not null`),
+}));
+
+export const contentWaves = pgTable('content_waves', {
+  id: serial('id').primaryKey(),
+  content_id: integer('content_id').notNull().references(() => content.id, { onDelete: 'cascade' }),
+  timezone: varchar('timezone', { length: 64 }).notNull(),
+  send_at: timestamp('send_at').notNull(),
+  status: waveStatusEnum('status').default('pending').notNull(),
+  subscriber_count: integer('subscriber_count').default(0).notNull(),
+  queued_count: integer('queued_count').default(0).notNull(),
+  sent_count: integer('sent_count').default(0).notNull(),
+  failed_count: integer('failed_count').default(0).notNull(),
+  queued_at: timestamp('queued_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueContentTimezone: uniqueIndex('unique_content_wave_timezone').on(table.content_id, table.timezone),
+}));
+
+export const complaints = pgTable('complaints', {
+  id: serial('id').primaryKey(),
+  subscriber_id: integer('subscriber_id').notNull().references(() => subscribers.id, { onDelete: 'cascade' }),
+  email_log_id: integer('email_log_id').references(() => emailLogs.id, { onDelete: 'set null' }),
+  content_id: integer('content_id').references(() => content.id, { onDelete: 'set null' }),
+  feedback_type: varchar('feedback_type', { length: 50 }).notNull(),
+  user_agent: varchar('user_agent', { length: 255 }),
+  arrival_date: timestamp('arrival_date'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueEmailLog: uniqueIndex('unique_complaint_email_log').on(table.email_log_id),
+  // Reports matched by recipient have no email log, so resent copies are recognised by what they do carry
+  uniqueUnloggedReport: uniqueIndex('unique_complaint_unlogged_report')
+    .on(table.subscriber_id, sql`coalesce(${table.content_id}, 0)`, sql`coalesce(${table.arrival_date}, 'epoch'::timestamp)`)
+    .where(sql`${table.email_log_id} is null`),
+}));
+
+// An RSS or Atom feed that turns new entries into content for its topic (see services/feedService.ts).
+// 'immediate' creates one content row per entry; 'daily' and 'weekly' collect entries into a scheduled roundup.
+export const topicFeeds = pgTable('topic_feeds', {
+  id: serial('id').primaryKey(),
+  topic_id: integer('topic_id').notNull().unique().references(() => topics.id, { onDelete: 'cascade' }),
+  url: text('url').notNull(),
+  delivery: deliveryFrequencyEnum('delivery').default('immediate').notNull(),
+  title_template: text('title_template').notNull(),
+  body_template: text('body_template').notNull(),
+  roundup_title_template: text('roundup_title_template').notNull(),
+  // Roundups go out at this UTC hour, weekly ones on this weekday (0 = Sunday)
+  roundup_hour: integer('roundup_hour').default(8).notNull(),
+  roundup_weekday: integer('roundup_weekday').default(1).notNull(),
+  is_active: boolean('is_active').default(true).notNull(),
+  last_polled_at: timestamp('last_polled_at'),
+  // Last successful fetch. Null until the first one, whose entries are taken as already published.
+  last_fetched_at: timestamp('last_fetched_at'),
+  // Why the last poll failed; null after a successful one
+  last_error: text('last_error'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  roundupHourCheck: check('topic_feeds_roundup_hour_check', sql`${table.roundup_hour} between 0 and 23`),
+  roundupWeekdayCheck: check('topic_feeds_roundup_weekday_check', sql`${table.roundup_weekday} between 0 and 6`),
+}));
+
+// Every entry a feed has seen, so each GUID becomes content at most once. Entries present when the feed
+// was first polled have no content.
+export const feedEntries = pgTable('feed_entries', {
+  id: serial('id').primaryKey(),
+  feed_id: integer('feed_id').notNull().references(() => topicFeeds.id, { onDelete: 'cascade' }),
+  guid: text('guid').notNull(),
+  title: text('title').notNull(),
+  link: text('link'),
+  summary: text('summary').notNull(),
+  author: text('author'),
+  published_at: timestamp('published_at'),
+  content_id: integer('content_id').references(() => content.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueFeedGuid: uniqueIndex('unique_feed_entry_guid').on(table.feed_id, table.guid),
+  contentIdx: index('feed_entries_content_id_idx').on(table.content_id),
 }));
 
-export const topicsRelations = relations(topics, ({ many }) => ({
+export const topicsRelations = relations(topics, ({ one, many }) => ({
+  parent: one(topics, {
+    fields: [topics.parent_id],
+    references: [topics.id],
+    relationName: 'topic_parent',
+  }),
+  children: many(topics, { relationName: 'topic_parent' }),
   subscriptions: many(subscriptions),
   content: many(content),
+  layouts: many(topicLayouts),
+  feed: one(topicFeeds),
+}));
+
+export const topicLayoutsRelations = relations(topicLayouts, ({ one }) => ({
+  topic: one(topics, {
+    fields: [topicLayouts.topic_id],
+    references: [topics.id],
+  }),
 }));
 
 export const subscribersRelations = relations(subscribers, ({ many }) => ({
   subscriptions: many(subscriptions),
   emailLogs: many(emailLogs),
+  digests: many(digests),
+  engagementEvents: many(engagementEvents),
+  events: many(subscriberEvents),
+  bounces: many(bounces),
+  complaints: many(complaints),
 }));
 
 export const subscriptionsRelations = relations(subscriptions, ({ one }) => ({
@@ -72,12 +372,24 @@ export const subscriptionsRelations = relations(subscriptions, ({ one }) => ({
   }),
 }));
 
+export const segmentsRelations = relations(segments, ({ many }) => ({
+  content: many(content),
+}));
+
 export const contentRelations = relations(content, ({ one, many }) => ({
   topic: one(topics, {
     fields: [content.topic_id],
     references: [topics.id],
   }),
+  segment: one(segments, {
+    fields: [content.segment_id],
+    references: [segments.id],
+  }),
   emailLogs: many(emailLogs),
+  engagementEvents: many(engagementEvents),
+  complaints: many(complaints),
+  waves: many(contentWaves),
+  feedEntries: many(feedEntries),
 }));
 
 export const emailLogsRelations = relations(emailLogs, ({ one }) => ({
@@ -89,4 +401,86 @@ export const emailLogsRelations = relations(emailLogs, ({ one }) => ({
     fields: [emailLogs.subscriber_id],
     references: [subscribers.id],
   }),
+  digest: one(digests, {
+    fields: [emailLogs.digest_id],
+    references: [digests.id],
+  }),
+}));
+
+export const digestsRelations = relations(digests, ({ one, many }) => ({
+  subscriber: one(subscribers, {
+    fields: [digests.subscriber_id],
+    references: [subscribers.id],
+  }),
+  emailLogs: many(emailLogs),
+}));
+
+export const subscriberEventsRelations = relations(subscriberEvents, ({ one }) => ({
+  subscriber: one(subscribers, {
+    fields: [subscriberEvents.subscriber_id],
+    references: [subscribers.id],
+  }),
+}));
+
+export const engagementEventsRelations = relations(engagementEvents, ({ one }) => ({
+  subscriber: one(subscribers, {
+    fields: [engagementEvents.subscriber_id],
+    references: [subscribers.id],
+  }),
+  content: one(content, {
+    fields: [engagementEvents.content_id],
+    references: [content.id],
+  }),
+}));
+
+export const bouncesRelations = relations(bounces, ({ one }) => ({
+  subscriber: one(subscribers, {
+    fields: [bounces.subscriber_id],
+    references: [subscribers.id],
+  }),
+  emailLog: one(emailLogs, {
+    fields: [bounces.email_log_id],
+    references: [emailLogs.id],
+  }),
+}));
+
+export const complaintsRelations = relations(complaints, ({ one }) => ({
+  subscriber: one(subscribers, {
+    fields: [complaints.subscriber_id],
+    references: [subscribers.id],
+  }),
+  emailLog: one(emailLogs, {
+    fields: [complaints.email_log_id],
+    references: [emailLogs.id],
+  }),
+  content: one(content, {
+    fields: [complaints.content_id],
+    references: [content.id],
+  }),
+}));
+
+export const contentWavesRelations = relations(contentWaves, ({ one }) => ({
+  content: one(content, {
+    fields: [contentWaves.content_id],
+    references: [content.id],
+  }),
+}));
+
+export const topicFeedsRelations = relations(topicFeeds, ({ one, many }) => ({
+  topic: one(topics, {
+    fields: [topicFeeds.topic_id],
+    references: [topics.id],
+  }),
+  entries: many(feedEntries),
+}));
+
+export const feedEntriesRelations = relations(feedEntries, ({ one }) => ({
+  feed: one(topicFeeds, {
+    fields: [feedEntries.feed_id],
+    references: [topicFeeds.id],
+  }),
+  content: one(content, {
+    fields: [feedEntries.content_id],
+    references: [content.id],
+  }),
 }));
@@ -0,0 +1,16 @@
+import express from 'express';
+import {
+  receiveBounce,
+  processMaildir,
+  getBounces,
+} from '../controllers/bounceController.js';
+
+const router = express.Router();
+
+const rawMessage = express.text({ type: ['message/*', 'text/plain'], limit: '10mb' });
+
+router.post('/', rawMessage, receiveBounce);
+router.post('/maildir', processMaildir);
+router.get('/', getBounces);
+
+export default router;
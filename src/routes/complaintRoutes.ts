@@ -0,0 +1,14 @@
+import express from 'express';
+import {
+  receiveComplaint,
+  getComplaints,
+} from '../controllers/complaintController.js';
+
+const router = express.Router();
+
+const rawMessage = express.text({ type: ['message/*', 'multipart/report', 'text/plain'], limit: '10mb' });
+
+router.post('/', rawMessage, receiveComplaint);
+router.get('/', getComplaints);
+
+export default router;
@@ -2,8 +2,16 @@ import express from 'express';
 import subscriberRoutes from './subscriberRoutes.js';
 import topicRoutes from './topicRoutes.js';
 import contentRoutes from './contentRoutes.js';
+import segmentRoutes from './segmentRoutes.js';
 import emailLogRoutes from './emailLogRoutes.js';
 import logRoutes from './logRoutes.js';
+import unsubscribeRoutes from './unsubscribeRoutes.js';
+import preferencesRoutes from './preferencesRoutes.js';
+import trackingRoutes from './trackingRoutes.js';
+import suppressionRoutes from './suppressionRoutes.js';
+import bounceRoutes from './bounceRoutes.js';
+import complaintRoutes from './complaintRoutes.js';
+import signupRoutes from './signupRoutes.js';
 import { getHealth } from '../controllers/healthController.js';
 
 const router = express.Router();
@@ -13,8 +21,16 @@ router.get('/health', getHealth);
 router.use('/subscribers', subscriberRoutes);
 router.use('/topics', topicRoutes);
 router.use('/content', contentRoutes);
+router.use('/segments', segmentRoutes);
 router.use('/email-logs', emailLogRoutes);
+router.use('/suppressions', suppressionRoutes);
+router.use('/bounces', bounceRoutes);
+router.use('/complaints', complaintRoutes);
 router.use('/logs', logRoutes);
+router.use('/unsubscribe', unsubscribeRoutes);
+router.use('/preferences', preferencesRoutes);
+router.use('/track', trackingRoutes);
+router.use('/signup', signupRoutes);
 
 export default router;
 
@@ -0,0 +1,18 @@
+import express from 'express';
+import {
+  showPreferencesPage,
+  submitPreferencesForm,
+  getPreferences,
+  updatePreferences,
+  deactivateFromPreferences,
+} from '../controllers/preferencesController.js';
+
+const router = express.Router();
+
+router.get('/:token', showPreferencesPage);
+router.post('/:token', submitPreferencesForm);
+router.get('/:token/settings', getPreferences);
+router.patch('/:token/settings', updatePreferences);
+router.delete('/:token/settings', deactivateFromPreferences);
+
+export default router;
@@ -0,0 +1,22 @@
+import express from 'express';
+import {
+  createSegment,
+  getSegments,
+  getSegment,
+  updateSegment,
+  deleteSegment,
+  previewRules,
+  previewSegment,
+} from '../controllers/segmentController.js';
+
+const router = express.Router();
+
+router.post('/', createSegment);
+router.get('/', getSegments);
+router.post('/preview', previewRules);
+router.get('/:id', getSegment);
+router.get('/:id/preview', previewSegment);
+router.patch('/:id', updateSegment);
+router.delete('/:id', deleteSegment);
+
+export default router;
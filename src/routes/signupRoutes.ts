@@ -0,0 +1,21 @@
+import express from 'express';
+import { showSignupForm, getSignupToken, submitSignup, confirmTopicSignup, rejectRateLimitedSignup } from '../controllers/signupController.js';
+import { rateLimitByIp } from '../middleware/rateLimit.js';
+
+const SIGNUP_RATE_LIMIT = parseInt(process.env.SIGNUP_RATE_LIMIT || '10');
+const SIGNUP_RATE_WINDOW_MINUTES = parseInt(process.env.SIGNUP_RATE_WINDOW_MINUTES || '15');
+
+const router = express.Router();
+
+// Public and unauthenticated; submissions are limited per client IP
+const signupLimit = rateLimitByIp('signup', {
+  limit: SIGNUP_RATE_LIMIT,
+  windowMs: SIGNUP_RATE_WINDOW_MINUTES * 60 * 1000,
+}, rejectRateLimitedSignup);
+
+router.get('/confirm/:token', confirmTopicSignup);
+router.get('/:topicId', showSignupForm);
+router.get('/:topicId/token', getSignupToken);
+router.post('/:topicId', signupLimit, submitSignup);
+
+export default router;
@@ -1,21 +1,48 @@
 import express from 'express';
 import {
   createSubscriber,
+  confirmSubscriber,
   getSubscribers,
   getSubscriber,
+  updateSubscriber,
   deleteSubscriber,
+  getSubscriberEvents,
+  getSubscriberEmails,
+  exportSubscriberData,
+  eraseSubscriber,
+  pauseSubscriber,
+  resumeSubscriber,
   subscribeToTopic,
+  updateSubscription,
+  pauseSubscription,
+  resumeSubscription,
   unsubscribeFromTopic,
 } from '../controllers/subscriberController.js';
+import { exportSubscribers } from '../controllers/exportController.js';
+// POST /import is registered in app.ts, before the body parsers
+import { getImportStatus } from '../controllers/importController.js';
 
 const router = express.Router();
 
 router.post('/', createSubscriber);
 router.get('/', getSubscribers);
+router.get('/confirm/:token', confirmSubscriber);
+router.get('/imports/:importId', getImportStatus);
+router.get('/export', exportSubscribers);
 router.get('/:id', getSubscriber);
+router.patch('/:id', updateSubscriber);
 router.delete('/:id', deleteSubscriber);
+router.get('/:id/events', getSubscriberEvents);
+router.get('/:id/emails', getSubscriberEmails);
+router.get('/:id/data-export', exportSubscriberData);
+router.post('/:id/erase', eraseSubscriber);
+router.post('/:id/pause', pauseSubscriber);
+router.delete('/:id/pause', resumeSubscriber);
 router.post('/:id/subscribe', subscribeToTopic);
+router.patch('/:id/subscribe/:topicId', updateSubscription);
 router.delete('/:id/subscribe/:topicId', unsubscribeFromTopic);
+router.post('/:id/subscribe/:topicId/pause', pauseSubscription);
+router.delete('/:id/subscribe/:topicId/pause', resumeSubscription);
 
 export default router;
 
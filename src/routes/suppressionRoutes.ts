@@ -0,0 +1,16 @@
+import express from 'express';
+import {
+  createSuppression,
+  getSuppressions,
+  checkSuppression,
+  deleteSuppression,
+} from '../controllers/suppressionController.js';
+
+const router = express.Router();
+
+router.post('/', createSuppression);
+router.get('/', getSuppressions);
+router.get('/check', checkSuppression);
+router.delete('/:id', deleteSuppression);
+
+export default router;
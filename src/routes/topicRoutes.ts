@@ -2,16 +2,44 @@ import express from 'express';
 import {
   createTopic,
   getTopics,
+  getTopicTree,
   getTopic,
+  updateTopic,
+  archiveTopic,
+  restoreTopic,
   deleteTopic,
+  getTopicLayout,
+  getTopicLayoutVersions,
+  saveTopicLayout,
+  removeTopicLayout,
+  restoreTopicLayoutVersion,
+  getTopicSignupForm,
+  getTopicFeed,
+  saveTopicFeed,
+  removeTopicFeed,
+  pollTopicFeed,
 } from '../controllers/topicController.js';
 
 const router = express.Router();
 
 router.post('/', createTopic);
 router.get('/', getTopics);
+router.get('/tree', getTopicTree);
 router.get('/:id', getTopic);
+router.patch('/:id', updateTopic);
+router.post('/:id/archive', archiveTopic);
+router.post('/:id/restore', restoreTopic);
 router.delete('/:id', deleteTopic);
+router.get('/:id/layout', getTopicLayout);
+router.put('/:id/layout', saveTopicLayout);
+router.delete('/:id/layout', removeTopicLayout);
+router.get('/:id/layout/versions', getTopicLayoutVersions);
+router.post('/:id/layout/versions/:version/restore', restoreTopicLayoutVersion);
+router.get('/:id/signup-form', getTopicSignupForm);
+router.get('/:id/feed', getTopicFeed);
+router.put('/:id/feed', saveTopicFeed);
+router.delete('/:id/feed', removeTopicFeed);
+router.post('/:id/feed/poll', pollTopicFeed);
 
 export default router;
 
@@ -0,0 +1,12 @@
+import express from 'express';
+import {
+  trackOpen,
+  trackClick,
+} from '../controllers/trackingController.js';
+
+const router = express.Router();
+
+router.get('/open/:token', trackOpen);
+router.get('/click/:token', trackClick);
+
+export default router;
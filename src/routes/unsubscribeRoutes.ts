@@ -0,0 +1,12 @@
+import express from 'express';
+import {
+  showUnsubscribe,
+  processUnsubscribe,
+} from '../controllers/unsubscribeController.js';
+
+const router = express.Router();
+
+router.get('/:token', showUnsubscribe);
+router.post('/:token', processUnsubscribe);
+
+export default router;
@@ -0,0 +1,84 @@
+import { sql } from 'drizzle-orm';
+import db from '../config/database.js';
+import { subscribers } from '../models/schema.js';
+import {
+  ATTRIBUTE_NAME_PATTERN,
+  BUILT_IN_TAGS,
+  AttributeValue,
+  SubscriberAttributes,
+  inspectMergeTags,
+} from '../utils/mergeTags.js';
+
+export interface TemplateProblems {
+  invalid_tags: string[];
+  unknown_tags: string[];
+}
+
+const isAttributeValue = (value: unknown): value is AttributeValue =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+class AttributeService {
+  // Returns an error message, or null when the attribute bag is acceptable
+  validateAttributes(input: unknown): string | null {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      return 'attributes must be an object';
+    }
+
+    for (const [name, value] of Object.entries(input)) {
+      if (!ATTRIBUTE_NAME_PATTERN.test(name) || BUILT_IN_TAGS.includes(name)) {
+        return `Invalid attribute name: ${name}`;
+      }
+      if (!isAttributeValue(value)) {
+        return `Attribute ${name} must be a string, number, boolean or null`;
+      }
+    }
+
+    return null;
+  }
+
+  // Applies a partial update: keys set to null are removed from the bag
+  merge(current: SubscriberAttributes, changes: SubscriberAttributes): SubscriberAttributes {
+    const merged = { ...current };
+    for (const [name, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete merged[name];
+      } else {
+        merged[name] = value;
+      }
+    }
+    return merged;
+  }
+
+  async knownTags(): Promise<Set<string>> {
+    const rows = await db.selectDistinct({ name: sql<string>`jsonb_object_keys(${subscribers.attributes})` })
+      .from(subscribers);
+
+    return new Set([...BUILT_IN_TAGS, ...rows.map(row => row.name)]);
+  }
+
+  // Checks every template for malformed tags and tags no subscriber could ever fill
+  async checkTemplates(templates: Array<string | null | undefined>): Promise<TemplateProblems | null> {
+    const invalid: string[] = [];
+    const used = new Set<string>();
+
+    for (const template of templates) {
+      if (!template) {
+        continue;
+      }
+      const check = inspectMergeTags(template);
+      invalid.push(...check.invalid);
+      check.tags.forEach(tag => used.add(tag));
+    }
+
+    const known = used.size > 0 ? await this.knownTags() : new Set<string>();
+    const unknown = [...used].filter(tag => !known.has(tag));
+
+    if (invalid.length === 0 && unknown.length === 0) {
+      return null;
+    }
+
+    return { invalid_tags: invalid, unknown_tags: unknown };
+  }
+}
+
+export default new AttributeService();
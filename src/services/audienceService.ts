@@ -0,0 +1,328 @@
+import { eq, and, or, not, isNull, lt, lte, gte, exists, inArray, count, sql, SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import db from '../config/database.js';
+import { subscriptions, subscribers, topics, segments, emailLogs, engagementEvents, bounces, complaints } from '../models/schema.js';
+import topicService from './topicService.js';
+import type { AttributeValue, SubscriberAttributes } from '../utils/mergeTags.js';
+import type { AttributeOperator, EngagementMetric, SegmentRule } from '../utils/segmentRules.js';
+
+export interface AudienceMember {
+  id: number;
+  email: string;
+}
+
+export interface DeliverableSubscriber extends AudienceMember {
+  attributes: SubscriberAttributes;
+}
+
+// What a piece of content is sent to: every subscriber of a topic, or the members of a segment
+export interface AudienceTarget {
+  topic_id: number | null;
+  segment_id: number | null;
+}
+
+const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'UTC';
+
+const SQL_OPERATORS: Record<string, string> = { eq: '=', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+class AudienceService {
+  // Subscribers without a time zone of their own are treated as living in DEFAULT_TIMEZONE
+  effectiveTimezone(): SQL<string> {
+    return sql<string>`coalesce(${subscribers.timezone}, ${DEFAULT_TIMEZONE})`;
+  }
+
+  // A pause with an end date lapses on its own once that time has passed
+  notPaused(pausedUntil: PgColumn): SQL<unknown> {
+    return or(isNull(pausedUntil), lte(pausedUntil, sql`now()`))!;
+  }
+
+  // Conditions a subscriber row must meet before we are allowed to mail it
+  deliverableConditions(): SQL<unknown>[] {
+    return [
+      eq(subscribers.is_active, true),
+      eq(subscribers.is_paused, false),
+      this.notPaused(subscribers.paused_until),
+      eq(subscribers.status, 'confirmed'),
+    ];
+  }
+
+  // Content on a topic reaches subscribers of the topic and of every ancestor in `chain` (nearest first).
+  // Only the nearest of several subscriptions along the branch counts, so its frequency and snooze decide.
+  private coveringCondition(chain: number[], immediateOnly: boolean): SQL<unknown> {
+    const subscribedTo = (topicIds: number[], ...extra: SQL<unknown>[]) => exists(
+      db.select({ one: sql`1` })
+        .from(subscriptions)
+        .where(and(
+          eq(subscriptions.subscriber_id, subscribers.id),
+          inArray(subscriptions.topic_id, topicIds),
+          ...extra
+        ))
+    );
+
+    if (chain.length === 0) {
+      return sql`false`;
+    }
+
+    return or(...chain.map((topicId, i) => and(
+      subscribedTo(
+        [topicId],
+        this.notPaused(subscriptions.paused_until),
+        ...(immediateOnly ? [eq(subscriptions.frequency, 'immediate')] : [])
+      ),
+      i > 0 ? not(subscribedTo(chain.slice(0, i))) : undefined
+    )))!;
+  }
+
+  // Topic audiences cover immediate subscriptions only; daily and weekly subscribers get the content in a digest
+  private async topicCondition(topicId: number): Promise<SQL<unknown>> {
+    return this.coveringCondition(await topicService.getAncestry(topicId), true);
+  }
+
+  // The topics plus all of their ancestors, as a subquery
+  private withAncestors(topicIds: number[]): SQL<unknown> {
+    return sql`(with recursive branch as (
+      select ${topics.id}, ${topics.parent_id} from ${topics} where ${inArray(topics.id, topicIds)}
+      union
+      select parent.id, parent.parent_id from ${topics} parent join branch on parent.id = branch.parent_id
+    ) select id from branch)`;
+  }
+
+  // Segments reach across topics, but only to people still subscribed to something: unsubscribing
+  // from every topic must also take a subscriber out of every segment
+  segmentConditions(rule: SegmentRule): SQL<unknown>[] {
+    return [
+      ...this.deliverableConditions(),
+      exists(
+        db.select({ one: sql`1` })
+          .from(subscriptions)
+          .where(and(
+            eq(subscriptions.subscriber_id, subscribers.id),
+            this.notPaused(subscriptions.paused_until)
+          ))
+      ),
+      this.compileRule(rule),
+    ];
+  }
+
+  // Conditions on `subscribers` selecting everyone the target should be mailed to right now
+  async audienceConditions(target: AudienceTarget): Promise<SQL<unknown>[]> {
+    if (target.segment_id === null) {
+      return [...this.deliverableConditions(), await this.topicCondition(target.topic_id!)];
+    }
+
+    const [segment] = await db.select({ rules: segments.rules })
+      .from(segments)
+      .where(eq(segments.id, target.segment_id))
+      .limit(1);
+
+    if (!segment) {
+      throw new Error(`Segment ${target.segment_id} not found`);
+    }
+
+    return this.segmentConditions(segment.rules);
+  }
+
+  async getAudience(target: AudienceTarget, timezone?: string): Promise<AudienceMember[]> {
+    const conditions = await this.audienceConditions(target);
+    return db
+      .select({
+        id: subscribers.id,
+        email: subscribers.email,
+      })
+      .from(subscribers)
+      .where(and(
+        ...conditions,
+        timezone ? sql`${this.effectiveTimezone()} = ${timezone}` : undefined
+      ));
+  }
+
+  // The audience minus everyone whose email for this content was already sent or suppressed, for example in an earlier wave
+  async getOutstandingAudience(contentItem: AudienceTarget & { id: number }): Promise<AudienceMember[]> {
+    const conditions = await this.audienceConditions(contentItem);
+    return db
+      .select({
+        id: subscribers.id,
+        email: subscribers.email,
+      })
+      .from(subscribers)
+      .where(and(
+        ...conditions,
+        not(exists(
+          db.select({ one: sql`1` })
+            .from(emailLogs)
+            .where(and(
+              eq(emailLogs.subscriber_id, subscribers.id),
+              eq(emailLogs.content_id, contentItem.id),
+              inArray(emailLogs.status, ['sent', 'suppressed'])
+            ))
+        ))
+      ));
+  }
+
+  async countAudienceByTimezone(target: AudienceTarget): Promise<{ timezone: string; count: number }[]> {
+    const conditions = await this.audienceConditions(target);
+    const timezone = this.effectiveTimezone();
+    return db
+      .select({ timezone, count: count() })
+      .from(subscribers)
+      .where(and(...conditions))
+      .groupBy(timezone);
+  }
+
+  async countAudience(target: AudienceTarget): Promise<number> {
+    const conditions = await this.audienceConditions(target);
+    const [result] = await db
+      .select({ count: count() })
+      .from(subscribers)
+      .where(and(...conditions));
+
+    return result?.count || 0;
+  }
+
+  private compileRule(rule: SegmentRule): SQL<unknown> {
+    switch (rule.type) {
+      case 'all':
+        return and(...rule.rules.map(child => this.compileRule(child)))!;
+      case 'any':
+        return or(...rule.rules.map(child => this.compileRule(child)))!;
+      case 'not':
+        return not(this.compileRule(rule.rule));
+      case 'topic':
+        // A subscription to a parent topic covers its children
+        return exists(
+          db.select({ one: sql`1` })
+            .from(subscriptions)
+            .where(and(
+              eq(subscriptions.subscriber_id, subscribers.id),
+              sql`${subscriptions.topic_id} in ${this.withAncestors(rule.topic_ids)}`
+            ))
+        );
+      case 'attribute':
+        return this.compileAttributeRule(rule.name, rule.op, rule.value);
+      case 'signup_date':
+        switch (rule.op) {
+          case 'before':
+            return lt(subscribers.created_at, new Date(rule.value));
+          case 'after':
+            return gte(subscribers.created_at, new Date(rule.value));
+          case 'within_days':
+            return sql`${subscribers.created_at} >= now() - make_interval(days => ${rule.value})`;
+          case 'older_than_days':
+            return sql`${subscribers.created_at} < now() - make_interval(days => ${rule.value})`;
+        }
+        break;
+      case 'engagement':
+        return sql`(${this.engagementCount(rule.metric, rule.days)}) ${sql.raw(SQL_OPERATORS[rule.op])} ${rule.value}`;
+      case 'content': {
+        const received = exists(
+          db.select({ one: sql`1` })
+            .from(emailLogs)
+            .where(and(
+              eq(emailLogs.subscriber_id, subscribers.id),
+              eq(emailLogs.content_id, rule.content_id),
+              eq(emailLogs.status, 'sent')
+            ))
+        );
+        return rule.received ? received : not(received);
+      }
+    }
+    throw new Error(`Unknown segment rule type: ${(rule as { type: string }).type}`);
+  }
+
+  private compileAttributeRule(name: string, op: AttributeOperator, value: AttributeValue | undefined): SQL<unknown> {
+    const attribute = sql`(${subscribers.attributes} -> ${name})`;
+    const json = sql`${JSON.stringify(value ?? null)}::jsonb`;
+
+    switch (op) {
+      case 'exists':
+        return sql`${subscribers.attributes} ? ${name}`;
+      case 'not_exists':
+        return sql`not (${subscribers.attributes} ? ${name})`;
+      case 'eq':
+        return sql`${attribute} = ${json}`;
+      case 'neq':
+        return sql`${attribute} is distinct from ${json}`;
+      case 'contains':
+        return sql`${subscribers.attributes} ->> ${name} ilike ${`%${escapeLikePattern(String(value))}%`}`;
+      default:
+        // jsonb orders numbers numerically and strings lexically, but also orders across types; compare like with like
+        return sql`(jsonb_typeof(${attribute}) = jsonb_typeof(${json}) and ${attribute} ${sql.raw(SQL_OPERATORS[op])} ${json})`;
+    }
+  }
+
+  private engagementCount(metric: EngagementMetric, days?: number): SQL<unknown> {
+    const since = (column: PgColumn) =>
+      days === undefined ? undefined : sql`${column} >= now() - make_interval(days => ${days})`;
+
+    switch (metric) {
+      case 'sent':
+        return sql`${db.select({ count: count() })
+          .from(emailLogs)
+          .where(and(
+            eq(emailLogs.subscriber_id, subscribers.id),
+            eq(emailLogs.status, 'sent'),
+            since(emailLogs.sent_at)
+          ))}`;
+      case 'opened':
+      case 'clicked':
+        // Emails opened or clicked, not raw events: one email opened five times counts once
+        return sql`${db.select({ count: sql`count(distinct ${engagementEvents.content_id})` })
+          .from(engagementEvents)
+          .where(and(
+            eq(engagementEvents.subscriber_id, subscribers.id),
+            metric === 'clicked' ? eq(engagementEvents.type, 'click') : undefined,
+            since(engagementEvents.created_at)
+          ))}`;
+      case 'bounced':
+        return sql`${db.select({ count: count() })
+          .from(bounces)
+          .where(and(eq(bounces.subscriber_id, subscribers.id), since(bounces.created_at)))}`;
+      case 'complained':
+        return sql`${db.select({ count: count() })
+          .from(complaints)
+          .where(and(eq(complaints.subscriber_id, subscribers.id), since(complaints.created_at)))}`;
+    }
+  }
+
+  // Returns null when the subscriber should no longer be mailed; with a topic target, also when the
+  // subscription covering it has since been removed or snoozed, and with a segment target when they left the segment
+  async getDeliverableSubscriber(subscriberId: number, target?: AudienceTarget): Promise<DeliverableSubscriber | null> {
+    const topicId = target?.topic_id ?? undefined;
+    const conditions = target?.segment_id
+      ? await this.audienceConditions(target)
+      : this.deliverableConditions();
+    const chain = topicId === undefined ? [] : await topicService.getAncestry(topicId);
+
+    const [subscriber] = await db
+      .select({
+        id: subscribers.id,
+        email: subscribers.email,
+        attributes: subscribers.attributes,
+      })
+      .from(subscribers)
+      .where(and(
+        eq(subscribers.id, subscriberId),
+        ...conditions,
+        topicId === undefined ? undefined : this.coveringCondition(chain, false)
+      ))
+      .limit(1);
+
+    return subscriber || null;
+  }
+
+  // The subscribed topic that delivers content on `topicId` to the subscriber: the topic itself or its nearest subscribed ancestor
+  async getCoveringTopicId(subscriberId: number, topicId: number): Promise<number> {
+    const chain = await topicService.getAncestry(topicId);
+    const rows = chain.length > 0
+      ? await db.select({ topic_id: subscriptions.topic_id })
+        .from(subscriptions)
+        .where(and(eq(subscriptions.subscriber_id, subscriberId), inArray(subscriptions.topic_id, chain)))
+      : [];
+
+    return chain.find(id => rows.some(row => row.topic_id === id)) ?? topicId;
+  }
+}
+
+export default new AudienceService();
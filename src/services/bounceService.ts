@@ -0,0 +1,281 @@
+import fs from 'fs';
+import path from 'path';
+import { eq, and, gte, count, asc, desc, inArray } from 'drizzle-orm';
+import db from '../config/database.js';
+import { bounces, subscribers, emailLogs } from '../models/schema.js';
+import suppressionService from './suppressionService.js';
+import subscriberEventService from './subscriberEventService.js';
+import { SmtpError } from './emailService.js';
+import { parseDeliveryStatus } from '../utils/dsn.js';
+import { normaliseMessageId } from '../utils/mime.js';
+import logger from '../config/logger.js';
+
+const BOUNCE_HARD_THRESHOLD = parseInt(process.env.BOUNCE_HARD_THRESHOLD || '1');
+const BOUNCE_SOFT_THRESHOLD = parseInt(process.env.BOUNCE_SOFT_THRESHOLD || '5');
+const BOUNCE_SOFT_WINDOW_DAYS = parseInt(process.env.BOUNCE_SOFT_WINDOW_DAYS || '30');
+
+export type BounceType = 'hard' | 'soft';
+export type BounceAction = 'none' | 'deactivated' | 'suppressed';
+
+export interface BounceInput {
+  email: string;
+  messageId?: string | null;
+  emailLogId?: number | null;
+  type: BounceType;
+  statusCode: string | null;
+  diagnostic: string | null;
+  source: 'dsn' | 'smtp';
+}
+
+export interface BounceOutcome {
+  email: string;
+  type: BounceType;
+  status_code: string | null;
+  recorded: boolean;
+  action: BounceAction;
+}
+
+export interface DsnIngestResult {
+  is_dsn: boolean;
+  bounces: BounceOutcome[];
+}
+
+// Mailbox full, message too large, and policy/network rejections are usually temporary
+const SOFT_ENHANCED_STATUSES = [/^5\.2\.2$/, /^5\.2\.3$/, /^5\.4\.\d+$/, /^5\.7\.\d+$/];
+const SOFT_SMTP_CODES = [552, 554];
+
+class BounceService {
+  classifyStatus(status: string | null): BounceType {
+    if (!status || !status.startsWith('5.')) {
+      return 'soft';
+    }
+    return SOFT_ENHANCED_STATUSES.some(pattern => pattern.test(status)) ? 'soft' : 'hard';
+  }
+
+  classifySmtpCode(responseCode: number): BounceType {
+    return responseCode >= 500 && !SOFT_SMTP_CODES.includes(responseCode) ? 'hard' : 'soft';
+  }
+
+  async record(input: BounceInput): Promise<BounceOutcome> {
+    const email = input.email.toLowerCase();
+    const outcome: BounceOutcome = {
+      email,
+      type: input.type,
+      status_code: input.statusCode,
+      recorded: false,
+      action: 'none',
+    };
+
+    const [subscriber] = await db.select({ id: subscribers.id })
+      .from(subscribers)
+      .where(eq(subscribers.email, email))
+      .limit(1);
+
+    if (!subscriber) {
+      logger.warn('Bounce for unknown address ignored', { email, type: input.type });
+      return outcome;
+    }
+
+    let emailLogId = input.emailLogId ?? null;
+    const messageId = normaliseMessageId(input.messageId ?? undefined);
+    if (!emailLogId && messageId) {
+      const [log] = await db.select({ id: emailLogs.id })
+        .from(emailLogs)
+        .where(and(
+          eq(emailLogs.subscriber_id, subscriber.id),
+          inArray(emailLogs.message_id, [messageId, `<${messageId}>`])
+        ))
+        // Digest logs share one Message-ID; always picking the first keeps a resent DSN recognisable
+        .orderBy(asc(emailLogs.id))
+        .limit(1);
+      emailLogId = log?.id ?? null;
+    }
+
+    // A DSN delivered or uploaded twice is recorded once, so it cannot count twice towards the thresholds
+    const [bounce] = await db.insert(bounces)
+      .values({
+        subscriber_id: subscriber.id,
+        email_log_id: emailLogId,
+        type: input.type,
+        status_code: input.statusCode,
+        diagnostic: input.diagnostic,
+        source: input.source,
+      })
+      .onConflictDoNothing()
+      .returning({ id: bounces.id });
+
+    if (!bounce) {
+      logger.info('Duplicate bounce ignored', { subscriberId: subscriber.id, statusCode: input.statusCode, emailLogId });
+      return outcome;
+    }
+
+    logger.info('Bounce recorded', {
+      subscriberId: subscriber.id,
+      type: input.type,
+      statusCode: input.statusCode,
+      source: input.source,
+      emailLogId,
+    });
+
+    outcome.recorded = true;
+    outcome.action = await this.applyThresholds(subscriber.id, email, input);
+    return outcome;
+  }
+
+  // Hard bounces suppress the address; repeated soft bounces within the window deactivate the subscriber
+  private async applyThresholds(subscriberId: number, email: string, latest: BounceInput): Promise<BounceAction> {
+    const softWindowStart = new Date(Date.now() - BOUNCE_SOFT_WINDOW_DAYS * 24 * 3600 * 1000);
+
+    const [[hardResult], [softResult]] = await Promise.all([
+      db.select({ count: count() })
+        .from(bounces)
+        .where(and(eq(bounces.subscriber_id, subscriberId), eq(bounces.type, 'hard'))),
+      db.select({ count: count() })
+        .from(bounces)
+        .where(and(
+          eq(bounces.subscriber_id, subscriberId),
+          eq(bounces.type, 'soft'),
+          gte(bounces.created_at, softWindowStart)
+        )),
+    ]);
+
+    if ((hardResult?.count || 0) >= BOUNCE_HARD_THRESHOLD) {
+      await suppressionService.add({
+        type: 'address',
+        value: email,
+        reason: `Hard bounce${latest.statusCode ? ` (${latest.statusCode})` : ''}`,
+        source: 'bounce',
+      });
+      await this.deactivate(subscriberId, 'hard_bounce');
+      return 'suppressed';
+    }
+
+    if ((softResult?.count || 0) >= BOUNCE_SOFT_THRESHOLD) {
+      await this.deactivate(subscriberId, 'soft_bounces');
+      return 'deactivated';
+    }
+
+    return 'none';
+  }
+
+  private async deactivate(subscriberId: number, reason: 'hard_bounce' | 'soft_bounces'): Promise<void> {
+    const [subscriber] = await db.update(subscribers)
+      .set({ is_active: false })
+      .where(and(eq(subscribers.id, subscriberId), eq(subscribers.is_active, true)))
+      .returning({ id: subscribers.id });
+
+    if (subscriber) {
+      await subscriberEventService.record({ source: 'bounce' }, { subscriberId, type: 'deactivated', details: { reason } });
+      logger.warn('Subscriber deactivated after bounces', { subscriberId });
+    }
+  }
+
+  // Synchronous SMTP rejections never produce a DSN, so they are recorded from the send attempt itself
+  async recordSmtpFailure(email: string, contentId: number, subscriberId: number, error: SmtpError): Promise<BounceOutcome> {
+    const [log] = await db.select({ id: emailLogs.id })
+      .from(emailLogs)
+      .where(and(eq(emailLogs.content_id, contentId), eq(emailLogs.subscriber_id, subscriberId)))
+      .limit(1);
+
+    return this.record({
+      email,
+      emailLogId: log?.id ?? null,
+      type: this.classifySmtpCode(error.responseCode!),
+      statusCode: String(error.responseCode),
+      diagnostic: error.response || error.message,
+      source: 'smtp',
+    });
+  }
+
+  async ingestDsn(raw: string): Promise<DsnIngestResult> {
+    const report = parseDeliveryStatus(raw);
+
+    if (!report) {
+      return { is_dsn: false, bounces: [] };
+    }
+
+    const outcomes: BounceOutcome[] = [];
+    for (const recipient of report.recipients) {
+      // Successful deliveries and relays can also be reported in a DSN. Delay warnings are skipped too: the
+      // message is still being retried, and repeated warnings must not count as bounces.
+      if (recipient.action !== 'failed') {
+        continue;
+      }
+
+      outcomes.push(await this.record({
+        email: recipient.email,
+        messageId: report.originalMessageId,
+        type: this.classifyStatus(recipient.status),
+        statusCode: recipient.status,
+        diagnostic: recipient.diagnosticCode,
+        source: 'dsn',
+      }));
+    }
+
+    return { is_dsn: true, bounces: outcomes };
+  }
+
+  // Reads unprocessed messages from maildir/new and files them under maildir/cur once handled. Each message is
+  // claimed by moving it to cur before it is parsed, so the scheduled run and an API-triggered run never both
+  // process it. Messages that fail go back to new for the next run.
+  async processMaildir(maildir: string): Promise<{ processed: number; bounces: number; errors: number }> {
+    const newDir = path.join(maildir, 'new');
+    const curDir = path.join(maildir, 'cur');
+    const summary = { processed: 0, bounces: 0, errors: 0 };
+
+    const files = await fs.promises.readdir(newDir);
+    await fs.promises.mkdir(curDir, { recursive: true });
+
+    for (const file of files) {
+      const filePath = path.join(newDir, file);
+      const claimedPath = path.join(curDir, `${file}:2,`);
+      try {
+        await fs.promises.rename(filePath, claimedPath);
+      } catch (error) {
+        // ENOENT: a concurrent run claimed it first
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          summary.errors++;
+          logger.error('Error claiming maildir message', { file, error: (error as Error).message });
+        }
+        continue;
+      }
+
+      try {
+        const raw = await fs.promises.readFile(claimedPath, 'utf-8');
+        const result = await this.ingestDsn(raw);
+        summary.bounces += result.bounces.filter(b => b.recorded).length;
+        summary.processed++;
+        await fs.promises.rename(claimedPath, path.join(curDir, `${file}:2,S`));
+      } catch (error) {
+        summary.errors++;
+        logger.error('Error processing maildir message', { file, error: (error as Error).message });
+        await fs.promises.rename(claimedPath, filePath).catch(() => {});
+      }
+    }
+
+    if (files.length > 0) {
+      logger.info('Maildir bounce processing completed', { maildir, ...summary });
+    }
+
+    return summary;
+  }
+
+  async list(filters: { subscriberId?: number; type?: BounceType; limit: number; offset: number }) {
+    const conditions = [];
+    if (filters.subscriberId) {
+      conditions.push(eq(bounces.subscriber_id, filters.subscriberId));
+    }
+    if (filters.type) {
+      conditions.push(eq(bounces.type, filters.type));
+    }
+
+    return db.select()
+      .from(bounces)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(bounces.created_at))
+      .limit(filters.limit)
+      .offset(filters.offset);
+  }
+}
+
+export default new BounceService();
@@ -0,0 +1,158 @@
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import db from '../config/database.js';
+import { complaints, subscribers, subscriptions, emailLogs } from '../models/schema.js';
+import suppressionService from './suppressionService.js';
+import subscriberEventService from './subscriberEventService.js';
+import { parseFeedbackReport } from '../utils/arf.js';
+import logger from '../config/logger.js';
+
+export type ComplaintResult =
+  | {
+    result: 'recorded';
+    complaintId: number;
+    subscriberId: number;
+    contentId: number | null;
+    subscriptionsRemoved: number;
+    suppressionId: number;
+  }
+  | { result: 'duplicate'; subscriberId: number }
+  | { result: 'unmatched' }
+  | { result: 'not_arf' };
+
+class ComplaintService {
+  // Resolves the complained-about send via Message-ID first, then falls back to the reported recipient.
+  // A digest's email logs all share its Message-ID, so a complaint about a digest is not pinned to any one item.
+  private async findTarget(messageId: string | null, recipient: string | null) {
+    if (messageId) {
+      const [log] = await db.select({
+        id: emailLogs.id,
+        subscriber_id: emailLogs.subscriber_id,
+        content_id: emailLogs.content_id,
+        digest_id: emailLogs.digest_id,
+        email: subscribers.email,
+      })
+        .from(emailLogs)
+        .innerJoin(subscribers, eq(emailLogs.subscriber_id, subscribers.id))
+        .where(inArray(emailLogs.message_id, [messageId, `<${messageId}>`]))
+        .limit(1);
+
+      if (log) {
+        return log.digest_id === null
+          ? { subscriberId: log.subscriber_id, email: log.email, emailLogId: log.id, contentId: log.content_id }
+          : { subscriberId: log.subscriber_id, email: log.email, emailLogId: null, contentId: null };
+      }
+    }
+
+    if (recipient) {
+      const [subscriber] = await db.select({ id: subscribers.id, email: subscribers.email })
+        .from(subscribers)
+        .where(eq(subscribers.email, recipient))
+        .limit(1);
+
+      if (subscriber) {
+        return { subscriberId: subscriber.id, email: subscriber.email, emailLogId: null, contentId: null };
+      }
+    }
+
+    return null;
+  }
+
+  async ingestArf(raw: string): Promise<ComplaintResult> {
+    const report = parseFeedbackReport(raw);
+    if (!report) {
+      return { result: 'not_arf' };
+    }
+
+    const target = await this.findTarget(report.originalMessageId, report.recipient);
+    if (!target) {
+      logger.warn('Spam complaint could not be matched to a subscriber', {
+        messageId: report.originalMessageId,
+        feedbackType: report.feedbackType,
+      });
+      return { result: 'unmatched' };
+    }
+
+    // One transaction, so a complaint is only on record once the subscriber is unsubscribed and suppressed;
+    // otherwise a failure part-way would turn every resent report into a duplicate that changes nothing
+    const outcome = await db.transaction(async (tx) => {
+      const [complaint] = await tx.insert(complaints)
+        .values({
+          subscriber_id: target.subscriberId,
+          email_log_id: target.emailLogId,
+          content_id: target.contentId,
+          feedback_type: report.feedbackType,
+          user_agent: report.userAgent?.slice(0, 255) ?? null,
+          arrival_date: report.arrivalDate,
+        })
+        .onConflictDoNothing()
+        .returning({ id: complaints.id });
+
+      // Providers resend reports; the first one already unsubscribed and suppressed the address. Duplicates are
+      // caught by the unique email log, or for reports without one by subscriber, content and arrival date.
+      if (!complaint) {
+        return null;
+      }
+
+      const removedSubscriptions = await tx.delete(subscriptions)
+        .where(eq(subscriptions.subscriber_id, target.subscriberId))
+        .returning({ topic_id: subscriptions.topic_id });
+
+      await subscriberEventService.record({ source: 'complaint' }, removedSubscriptions.map(subscription => ({
+        subscriberId: target.subscriberId,
+        type: 'unsubscribed' as const,
+        topicId: subscription.topic_id,
+        details: { complaint_id: complaint.id },
+      })), tx);
+
+      const suppression = await suppressionService.add({
+        type: 'address',
+        value: target.email,
+        reason: `Spam complaint (${report.feedbackType})`,
+        source: 'complaint',
+      }, tx);
+
+      return { complaint, removedSubscriptions, suppression };
+    });
+
+    if (!outcome) {
+      return { result: 'duplicate', subscriberId: target.subscriberId };
+    }
+    const { complaint, removedSubscriptions, suppression } = outcome;
+
+    logger.warn('Spam complaint recorded', {
+      complaintId: complaint.id,
+      subscriberId: target.subscriberId,
+      contentId: target.contentId,
+      feedbackType: report.feedbackType,
+      subscriptionsRemoved: removedSubscriptions.length,
+    });
+
+    return {
+      result: 'recorded',
+      complaintId: complaint.id,
+      subscriberId: target.subscriberId,
+      contentId: target.contentId,
+      subscriptionsRemoved: removedSubscriptions.length,
+      suppressionId: suppression.id,
+    };
+  }
+
+  async list(filters: { contentId?: number; subscriberId?: number; limit: number; offset: number }) {
+    const conditions = [];
+    if (filters.contentId) {
+      conditions.push(eq(complaints.content_id, filters.contentId));
+    }
+    if (filters.subscriberId) {
+      conditions.push(eq(complaints.subscriber_id, filters.subscriberId));
+    }
+
+    return db.select()
+      .from(complaints)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(complaints.created_at))
+      .limit(filters.limit)
+      .offset(filters.offset);
+  }
+}
+
+export default new ComplaintService();
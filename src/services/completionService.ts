@@ -0,0 +1,79 @@
+import { eq, and, count, inArray } from 'drizzle-orm';
+import db from '../config/database.js';
+import { emailLogs, content, contentWaves, subscribers } from '../models/schema.js';
+import audienceService from './audienceService.js';
+import logger from '../config/logger.js';
+
+class CompletionService {
+  // Suppressed recipients count as handled so they don't hold content in 'processing' forever.
+  // Both sides count the current audience only: digest deliveries happen on their own schedule,
+  // and recipients who paused, left or fell out of the segment mid-send drop out of the total and the handled count alike
+  async checkContentCompletion(contentId: number): Promise<void> {
+    const [contentItem] = await db.select({
+      topic_id: content.topic_id,
+      segment_id: content.segment_id,
+      delivery_mode: content.delivery_mode,
+    })
+      .from(content)
+      .where(eq(content.id, contentId))
+      .limit(1);
+
+    if (!contentItem) {
+      return;
+    }
+
+    // Local-time content is never complete while later time zones are still waiting for their wave
+    if (contentItem.delivery_mode === 'local_time') {
+      const [pendingWaves] = await db.select({ count: count() })
+        .from(contentWaves)
+        .where(and(eq(contentWaves.content_id, contentId), eq(contentWaves.status, 'pending')));
+
+      if ((pendingWaves?.count || 0) > 0) {
+        return;
+      }
+    }
+
+    const audienceConditions = await audienceService.audienceConditions(contentItem);
+    const [handledCountResult, totalSubscribers] = await Promise.all([
+      db
+        .select({ count: count() })
+        .from(emailLogs)
+        .innerJoin(subscribers, eq(subscribers.id, emailLogs.subscriber_id))
+        .where(and(
+          eq(emailLogs.content_id, contentId),
+          inArray(emailLogs.status, ['sent', 'suppressed']),
+          ...audienceConditions
+        )),
+      audienceService.countAudience(contentItem),
+    ]);
+
+    const sentCount = handledCountResult[0]?.count || 0;
+
+    logger.info('Email progress for content', {
+      contentId,
+      sentCount,
+      totalSubscribers,
+      remaining: totalSubscribers - sentCount,
+      progressPercent: totalSubscribers > 0 ? Math.round((sentCount / totalSubscribers) * 100) : 0,
+    });
+
+    // An empty audience means everyone left or paused mid-send; their queued jobs are skipped
+    if (sentCount >= totalSubscribers) {
+      await db.update(content)
+        .set({
+          is_sent: true,
+          status: 'sent',
+          sent_at: new Date(),
+        })
+        .where(eq(content.id, contentId));
+
+      logger.info('All emails sent for content - marking as complete', {
+        contentId,
+        totalSent: sentCount,
+        totalSubscribers,
+      });
+    }
+  }
+}
+
+export default new CompletionService();
@@ -0,0 +1,130 @@
+import { eq, and, or, lt, isNull, isNotNull } from 'drizzle-orm';
+import db from '../config/database.js';
+import { subscribers } from '../models/schema.js';
+import emailService from './emailService.js';
+import subscriberEventService, { subscriberContext } from './subscriberEventService.js';
+import { signToken, verifyToken } from '../utils/tokens.js';
+import { publicUrl } from '../utils/publicUrl.js';
+import logger from '../config/logger.js';
+
+const CONFIRMATION_TTL_HOURS = parseInt(process.env.CONFIRMATION_TTL_HOURS || '48');
+
+interface ConfirmTokenData {
+  subscriberId: number;
+}
+
+class ConfirmationService {
+  async sendConfirmation(subscriber: { id: number; email: string }): Promise<void> {
+    const token = signToken<ConfirmTokenData>(
+      'confirm',
+      { subscriberId: subscriber.id },
+      CONFIRMATION_TTL_HOURS * 3600
+    );
+    const confirmUrl = publicUrl(`/api/subscribers/confirm/${token}`);
+
+    await emailService.sendEmail(
+      subscriber.email,
+      'Please confirm your subscription',
+      [
+        'Thanks for signing up!',
+        '',
+        'Please confirm your email address by opening the link below:',
+        confirmUrl,
+        '',
+        `This link expires in ${CONFIRMATION_TTL_HOURS} hours. If you did not sign up, you can ignore this email.`,
+      ].join('\n')
+    );
+
+    await db.update(subscribers)
+      .set({ confirmation_sent_at: new Date() })
+      .where(eq(subscribers.id, subscriber.id));
+
+    logger.info('Confirmation email sent', { subscriberId: subscriber.id, email: subscriber.email });
+  }
+
+  async confirm(token: string): Promise<typeof subscribers.$inferSelect | null> {
+    const data = verifyToken<ConfirmTokenData>('confirm', token);
+    if (!data) {
+      return null;
+    }
+
+    const [existing] = await db.select()
+      .from(subscribers)
+      .where(eq(subscribers.id, data.subscriberId))
+      .limit(1);
+
+    if (!existing || existing.status === 'confirmed') {
+      return existing || null;
+    }
+
+    // Opening the link proves the address is wanted, so a deactivated subscriber signing up again comes back
+    // with the sunset clock restarted
+    const [subscriber] = await db.update(subscribers)
+      .set({
+        status: 'confirmed',
+        confirmed_at: new Date(),
+        is_active: true,
+        reengagement_sent_at: null,
+        sunset_at: null,
+      })
+      .where(eq(subscribers.id, existing.id))
+      .returning();
+
+    await subscriberEventService.record(subscriberContext('confirmation'), {
+      subscriberId: subscriber.id,
+      type: existing.is_active ? 'confirmed' : 'reactivated',
+    });
+
+    logger.info('Subscriber confirmed', { id: subscriber.id, email: subscriber.email });
+    return subscriber;
+  }
+
+  // Removes sign-ups whose confirmation link has expired without being used. Subscribers who had confirmed
+  // before and signed up again keep their history: they go back to inactive and confirmed, as before the re-signup.
+  async purgeExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - CONFIRMATION_TTL_HOURS * 3600 * 1000);
+    // Rows whose confirmation email failed to send have no confirmation_sent_at and expire from when they were created
+    const expired = or(
+      lt(subscribers.confirmation_sent_at, cutoff),
+      and(isNull(subscribers.confirmation_sent_at), lt(subscribers.created_at, cutoff))
+    );
+
+    const purged = await db.delete(subscribers)
+      .where(and(
+        eq(subscribers.status, 'pending'),
+        isNull(subscribers.confirmed_at),
+        expired
+      ))
+      .returning({ id: subscribers.id });
+
+    if (purged.length > 0) {
+      logger.info('Purged expired unconfirmed subscribers', { count: purged.length });
+    }
+
+    const lapsed = await db.transaction(async (tx) => {
+      const rows = await tx.update(subscribers)
+        .set({ is_active: false, status: 'confirmed' })
+        .where(and(
+          eq(subscribers.status, 'pending'),
+          isNotNull(subscribers.confirmed_at),
+          expired
+        ))
+        .returning({ id: subscribers.id });
+
+      await subscriberEventService.record(
+        { source: 'confirmation' },
+        rows.map(row => ({ subscriberId: row.id, type: 'deactivated' as const, details: { reason: 'confirmation_expired' } })),
+        tx
+      );
+      return rows;
+    });
+
+    if (lapsed.length > 0) {
+      logger.info('Deactivated re-signups whose confirmation expired', { count: lapsed.length });
+    }
+
+    return purged.length;
+  }
+}
+
+export default new ConfirmationService();
@@ -0,0 +1,98 @@
+import { eq, and, gte, lte, lt, desc, inArray, min, sql } from 'drizzle-orm';
+import db from '../config/database.js';
+import { emailLogs, content, topics, segments, engagementEvents, emailStatusEnum } from '../models/schema.js';
+
+export type EmailStatus = typeof emailStatusEnum.enumValues[number];
+
+export const EMAIL_STATUSES = emailStatusEnum.enumValues;
+
+export const isEmailStatus = (value: unknown): value is EmailStatus =>
+  EMAIL_STATUSES.includes(value as EmailStatus);
+
+export interface DeliveryHistoryOptions {
+  status?: EmailStatus;
+  since?: Date;
+  until?: Date;
+  limit: number;
+  before?: number;
+}
+
+// First open and click of one email. A click also counts as an open, since images may be blocked.
+export interface DeliveryEngagement {
+  opened_at: Date | null;
+  clicked_at: Date | null;
+  clicks: number;
+}
+
+class DeliveryHistoryService {
+  // Newest first; failed and suppressed attempts never got a sent_at, so dates filter on when the attempt was logged
+  async list(subscriberId: number, options: DeliveryHistoryOptions) {
+    const rows = await db.select({
+      id: emailLogs.id,
+      content_id: emailLogs.content_id,
+      content_title: content.title,
+      topic_id: content.topic_id,
+      topic_name: topics.name,
+      segment_id: content.segment_id,
+      segment_name: segments.name,
+      status: emailLogs.status,
+      message_id: emailLogs.message_id,
+      error_message: emailLogs.error_message,
+      digest_id: emailLogs.digest_id,
+      sent_at: emailLogs.sent_at,
+      created_at: emailLogs.created_at,
+    })
+      .from(emailLogs)
+      .innerJoin(content, eq(emailLogs.content_id, content.id))
+      .leftJoin(topics, eq(content.topic_id, topics.id))
+      .leftJoin(segments, eq(content.segment_id, segments.id))
+      .where(and(
+        eq(emailLogs.subscriber_id, subscriberId),
+        options.status ? eq(emailLogs.status, options.status) : undefined,
+        options.since ? gte(emailLogs.created_at, options.since) : undefined,
+        options.until ? lte(emailLogs.created_at, options.until) : undefined,
+        options.before !== undefined ? lt(emailLogs.id, options.before) : undefined
+      ))
+      .orderBy(desc(emailLogs.id))
+      .limit(options.limit);
+
+    const engagement = await this.getEngagement(
+      subscriberId,
+      rows.filter(row => row.status === 'sent').map(row => row.content_id)
+    );
+
+    return {
+      data: rows.map(row => ({
+        ...row,
+        // Only delivered emails can have been opened
+        engagement: row.status === 'sent'
+          ? engagement.get(row.content_id) ?? { opened_at: null, clicked_at: null, clicks: 0 }
+          : null,
+      })),
+      next_before: rows.length === options.limit ? rows[rows.length - 1].id : null,
+    };
+  }
+
+  private async getEngagement(subscriberId: number, contentIds: number[]): Promise<Map<number, DeliveryEngagement>> {
+    if (contentIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await db.select({
+      content_id: engagementEvents.content_id,
+      opened_at: min(engagementEvents.created_at),
+      clicked_at: sql<Date | null>`min(${engagementEvents.created_at}) filter (where ${eq(engagementEvents.type, 'click')})`.mapWith(engagementEvents.created_at),
+      clicks: sql<number>`count(*) filter (where ${eq(engagementEvents.type, 'click')})`.mapWith(Number),
+    })
+      .from(engagementEvents)
+      .where(and(
+        eq(engagementEvents.subscriber_id, subscriberId),
+        inArray(engagementEvents.content_id, contentIds)
+      ))
+      .groupBy(engagementEvents.content_id);
+
+    return new Map(rows.map(({ content_id, ...engagement }) => [content_id!, engagement]));
+  }
+}
+
+export default new DeliveryHistoryService();
@@ -0,0 +1,115 @@
+import { eq, and, lte, asc, count, sql } from 'drizzle-orm';
+import db from '../config/database.js';
+import { content, contentWaves } from '../models/schema.js';
+import audienceService, { AudienceTarget } from './audienceService.js';
+import { parseLocalDateTime, zonedTimeToUtc, isValidTimeZone, EARLIEST_TIMEZONE } from '../utils/timezone.js';
+import logger from '../config/logger.js';
+
+export type ContentWave = typeof contentWaves.$inferSelect;
+
+class DeliveryWaveService {
+  // The scheduler picks local-time content up when the earliest zone on Earth reaches the target time
+  firstWaveAt(localSendTime: string): Date {
+    return zonedTimeToUtc(parseLocalDateTime(localSendTime)!, EARLIEST_TIMEZONE);
+  }
+
+  // One wave per time zone in the current audience; safe to re-run as new zones appear
+  async planWaves(contentItem: AudienceTarget & { id: number; local_send_time: string | null }): Promise<number> {
+    const localTime = parseLocalDateTime(contentItem.local_send_time);
+    if (!localTime) {
+      throw new Error(`Content ${contentItem.id} has no valid local_send_time`);
+    }
+
+    const zones = await audienceService.countAudienceByTimezone(contentItem);
+    const plannable = zones.filter(zone => {
+      if (!isValidTimeZone(zone.timezone)) {
+        logger.warn('Skipping unknown time zone when planning waves', { contentId: contentItem.id, timezone: zone.timezone });
+        return false;
+      }
+      return true;
+    });
+
+    if (plannable.length === 0) {
+      return 0;
+    }
+
+    const planned = await db.insert(contentWaves)
+      .values(plannable.map(zone => ({
+        content_id: contentItem.id,
+        timezone: zone.timezone,
+        send_at: zonedTimeToUtc(localTime, zone.timezone),
+        subscriber_count: zone.count,
+      })))
+      .onConflictDoNothing()
+      .returning({ id: contentWaves.id });
+
+    if (planned.length > 0) {
+      logger.info('Delivery waves planned', { contentId: contentItem.id, newWaves: planned.length });
+    }
+
+    return planned.length;
+  }
+
+  async getDueWaves(contentId: number, now: Date): Promise<ContentWave[]> {
+    return db.select()
+      .from(contentWaves)
+      .where(and(
+        eq(contentWaves.content_id, contentId),
+        eq(contentWaves.status, 'pending'),
+        lte(contentWaves.send_at, now)
+      ))
+      .orderBy(asc(contentWaves.send_at));
+  }
+
+  async countPendingWaves(contentId: number): Promise<number> {
+    const [result] = await db.select({ count: count() })
+      .from(contentWaves)
+      .where(and(eq(contentWaves.content_id, contentId), eq(contentWaves.status, 'pending')));
+
+    return result?.count || 0;
+  }
+
+  async markQueued(waveId: number, subscriberCount: number, queuedCount: number): Promise<void> {
+    await db.update(contentWaves)
+      .set({
+        status: 'queued',
+        subscriber_count: subscriberCount,
+        queued_count: queuedCount,
+        queued_at: new Date(),
+      })
+      .where(eq(contentWaves.id, waveId));
+  }
+
+  async recordOutcome(waveId: number, outcome: 'sent' | 'failed'): Promise<void> {
+    await db.update(contentWaves)
+      .set(outcome === 'sent'
+        ? { sent_count: sql`${contentWaves.sent_count} + 1` }
+        : { failed_count: sql`${contentWaves.failed_count} + 1` })
+      .where(eq(contentWaves.id, waveId));
+  }
+
+  async getWaves(contentId: number): Promise<ContentWave[]> {
+    return db.select()
+      .from(contentWaves)
+      .where(eq(contentWaves.content_id, contentId))
+      .orderBy(asc(contentWaves.send_at));
+  }
+
+  async getProcessingLocalTimeContent() {
+    return db.select({
+      id: content.id,
+      topic_id: content.topic_id,
+      segment_id: content.segment_id,
+      title: content.title,
+      body: content.body,
+      local_send_time: content.local_send_time,
+    })
+      .from(content)
+      .where(and(
+        eq(content.delivery_mode, 'local_time'),
+        eq(content.status, 'processing')
+      ));
+  }
+}
+
+export default new DeliveryWaveService();
@@ -0,0 +1,210 @@
+import { eq, and, or, ne, gte, asc, isNull, inArray, sql } from 'drizzle-orm';
+import db from '../config/database.js';
+import { digestQueue } from '../config/queue.js';
+import { content, digests, emailLogs, subscribers, subscriptions, topics } from '../models/schema.js';
+import audienceService, { DeliverableSubscriber } from './audienceService.js';
+import topicService from './topicService.js';
+import { DeliveryFrequency } from './subscriptionService.js';
+import { renderDigest, RenderedDigest } from '../utils/digest.js';
+import { coveredTopics } from '../utils/topicTree.js';
+import { renderMergeTags } from '../utils/mergeTags.js';
+import { escapeHtml } from '../utils/html.js';
+import logger from '../config/logger.js';
+
+export type DigestFrequency = Exclude<DeliveryFrequency, 'immediate'>;
+
+export interface DigestItem {
+  content_id: number;
+  topic_id: number;
+  topic_name: string;
+  // The subscription the item arrived through: the content's topic or one of its ancestors
+  subscribed_topic_id: number;
+  title: string | null;
+  body: string;
+}
+
+// Digests go out when the subscriber's own clock reaches DIGEST_SEND_HOUR; weekly ones on DIGEST_WEEKDAY (0 = Sunday)
+const DIGEST_SEND_HOUR = parseInt(process.env.DIGEST_SEND_HOUR || '8');
+const DIGEST_WEEKDAY = parseInt(process.env.DIGEST_WEEKDAY || '1');
+// Anything beyond this waits for the next digest
+const DIGEST_MAX_ITEMS = parseInt(process.env.DIGEST_MAX_ITEMS || '50');
+
+class DigestService {
+  // Subscribers with digest subscriptions of this frequency whose local time is the digest hour at `now`
+  async getDueSubscribers(frequency: DigestFrequency, now: Date): Promise<number[]> {
+    const localNow = sql`timezone(${audienceService.effectiveTimezone()}, ${now.toISOString()}::timestamptz)`;
+
+    const rows = await db.selectDistinct({ id: subscribers.id })
+      .from(subscriptions)
+      .innerJoin(subscribers, eq(subscriptions.subscriber_id, subscribers.id))
+      .where(and(
+        eq(subscriptions.frequency, frequency),
+        audienceService.notPaused(subscriptions.paused_until),
+        ...audienceService.deliverableConditions(),
+        sql`extract(hour from ${localNow}) = ${DIGEST_SEND_HOUR}`,
+        frequency === 'weekly' ? sql`extract(dow from ${localNow}) = ${DIGEST_WEEKDAY}` : undefined
+      ));
+
+    return rows.map(row => row.id);
+  }
+
+  // Queues one digest job per due subscriber; the job id keeps a repeated run within the hour from sending twice
+  async queueDueDigests(now: Date): Promise<number> {
+    let queued = 0;
+    const hourKey = now.toISOString().slice(0, 13);
+
+    for (const frequency of ['daily', 'weekly'] as const) {
+      const subscriberIds = await this.getDueSubscribers(frequency, now);
+
+      for (const subscriberId of subscriberIds) {
+        await digestQueue.add(
+          'send-digest',
+          { subscriberId, frequency },
+          { jobId: `digest-${frequency}-${subscriberId}-${hourKey}` }
+        );
+        queued++;
+      }
+    }
+
+    if (queued > 0) {
+      logger.info('Digests queued', { count: queued, hour: hourKey });
+    }
+
+    return queued;
+  }
+
+  // Released content on the subscriber's digest topics, and the child topics those cover, that has
+  // not reached them yet. Each item belongs to the nearest subscription on its branch, so it appears once.
+  // Failed deliveries are offered again; content from before the subscription began, or from
+  // before the end of the latest snooze, is not.
+  async getPendingItems(subscriberId: number, frequency: DigestFrequency): Promise<DigestItem[]> {
+    const [nodes, subscribed] = await Promise.all([
+      topicService.getNodes(),
+      db.select({ topic_id: subscriptions.topic_id, frequency: subscriptions.frequency })
+        .from(subscriptions)
+        .where(eq(subscriptions.subscriber_id, subscriberId)),
+    ]);
+
+    const subscribedIds = subscribed.map(subscription => subscription.topic_id);
+    const coverage = subscribed
+      .filter(subscription => subscription.frequency === frequency)
+      .map(subscription => and(
+        eq(subscriptions.topic_id, subscription.topic_id),
+        inArray(content.topic_id, coveredTopics(nodes, subscribedIds, subscription.topic_id))
+      ));
+
+    if (coverage.length === 0) {
+      return [];
+    }
+
+    return db
+      .select({
+        content_id: content.id,
+        // Same as content.topic_id through the join, but typed as never null
+        topic_id: topics.id,
+        topic_name: topics.name,
+        subscribed_topic_id: subscriptions.topic_id,
+        title: content.title,
+        body: content.body,
+      })
+      .from(subscriptions)
+      .innerJoin(subscribers, eq(subscribers.id, subscriptions.subscriber_id))
+      .innerJoin(content, or(...coverage))
+      .innerJoin(topics, eq(topics.id, content.topic_id))
+      .leftJoin(emailLogs, and(
+        eq(emailLogs.content_id, content.id),
+        eq(emailLogs.subscriber_id, subscriptions.subscriber_id)
+      ))
+      .where(and(
+        eq(subscriptions.subscriber_id, subscriberId),
+        eq(subscriptions.frequency, frequency),
+        audienceService.notPaused(subscriptions.paused_until),
+        ne(content.status, 'pending'),
+        gte(
+          content.scheduled_time,
+          sql`greatest(${subscriptions.created_at}, ${subscriptions.paused_until}, ${subscribers.paused_until})`
+        ),
+        or(isNull(emailLogs.id), eq(emailLogs.status, 'failed'))
+      ))
+      .orderBy(asc(content.scheduled_time), asc(content.id))
+      .limit(DIGEST_MAX_ITEMS);
+  }
+
+  render(frequency: DigestFrequency, items: DigestItem[], recipient: DeliverableSubscriber): RenderedDigest {
+    const mergeValues = { ...recipient.attributes, email: recipient.email };
+
+    return renderDigest(frequency, items.map(item => ({
+      topicName: item.topic_name,
+      title: item.title === null ? null : renderMergeTags(item.title, mergeValues),
+      body: renderMergeTags(item.body, mergeValues),
+      htmlBody: renderMergeTags(item.body, mergeValues, escapeHtml),
+    })));
+  }
+
+  // One email_logs row per item, all pointing at the digest and sharing its message id
+  async recordSent(
+    subscriberId: number,
+    frequency: DigestFrequency,
+    items: DigestItem[],
+    messageId: string
+  ): Promise<number> {
+    return db.transaction(async (tx) => {
+      const sentAt = new Date();
+      const [digest] = await tx.insert(digests).values({
+        subscriber_id: subscriberId,
+        frequency,
+        message_id: messageId,
+        item_count: items.length,
+        sent_at: sentAt,
+      }).returning({ id: digests.id });
+
+      await tx.insert(emailLogs)
+        .values(items.map(item => ({
+          content_id: item.content_id,
+          subscriber_id: subscriberId,
+          status: 'sent' as const,
+          message_id: messageId,
+          digest_id: digest.id,
+          sent_at: sentAt,
+        })))
+        .onConflictDoUpdate({
+          target: [emailLogs.content_id, emailLogs.subscriber_id],
+          set: {
+            status: 'sent',
+            message_id: messageId,
+            digest_id: digest.id,
+            error_message: null,
+            sent_at: sentAt,
+          },
+        });
+
+      logger.info('Digest recorded', { digestId: digest.id, subscriberId, frequency, itemCount: items.length });
+      return digest.id;
+    });
+  }
+
+  async recordFailed(subscriberId: number, items: DigestItem[], errorMessage: string): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+
+    await db.insert(emailLogs)
+      .values(items.map(item => ({
+        content_id: item.content_id,
+        subscriber_id: subscriberId,
+        status: 'failed' as const,
+        error_message: errorMessage,
+        sent_at: new Date(),
+      })))
+      .onConflictDoUpdate({
+        target: [emailLogs.content_id, emailLogs.subscriber_id],
+        set: {
+          status: 'failed',
+          error_message: errorMessage,
+          sent_at: new Date(),
+        },
+      });
+  }
+}
+
+export default new DigestService();
@@ -1,5 +1,9 @@
 import nodemailer, { Transporter } from 'nodemailer';
 import logger from '../config/logger.js';
+import { escapeHtml } from '../utils/html.js';
+import { addTracking, TrackingLinks } from '../utils/tracking.js';
+import { formatBodyHtml, defaultHtmlShell } from '../utils/layout.js';
+import { SenderIdentity, parseDomainList, isAllowedSendingDomain } from '../utils/senderIdentity.js';
 
 interface EmailResult {
   success: boolean;
@@ -7,6 +11,31 @@ interface EmailResult {
   response: string;
 }
 
+// Keeps the SMTP reply code so callers can tell permanent (5xx) from transient (4xx) failures
+export class SmtpError extends Error {
+  responseCode?: number;
+  response?: string;
+
+  constructor(message: string, responseCode?: number, response?: string) {
+    super(message);
+    this.name = 'SmtpError';
+    this.responseCode = responseCode;
+    this.response = response;
+  }
+}
+
+export interface SendEmailOptions {
+  unsubscribeUrl?: string;
+  preferencesUrl?: string;
+  tracking?: TrackingLinks;
+  sender?: SenderIdentity;
+}
+
+// Domains topics may send from; defaults to the domain of SMTP_FROM_EMAIL
+export const ALLOWED_SENDER_DOMAINS = parseDomainList(
+  process.env.SENDER_ALLOWED_DOMAINS || process.env.SMTP_FROM_EMAIL?.split('@')[1]
+);
+
 class EmailService {
   private transporter!: Transporter;
 
@@ -67,14 +96,39 @@ class EmailService {
     to: string,
     subject: string,
     body: string,
-    htmlBody: string | null = null
+    htmlBody: string | null = null,
+    options: SendEmailOptions = {}
   ): Promise<EmailResult> {
+    let text = body;
+    let html = htmlBody || this.formatPlainTextAsHtml(body);
+    const headers: Record<string, string> = {};
+
+    // Before the footer, so unsubscribe and preference links are never rewritten
+    if (options.tracking) {
+      html = addTracking(html, options.tracking);
+    }
+
+    if (options.unsubscribeUrl) {
+      // RFC 8058 one-click unsubscribe: mailbox providers POST to this URL directly
+      headers['List-Unsubscribe'] = `<${options.unsubscribeUrl}>`;
+      headers['List-Unsubscribe-Post'] = 'List-Unsubscribe=One-Click';
+      text = this.appendTextFooter(text, options.unsubscribeUrl, options.preferencesUrl);
+      html = this.appendHtmlFooter(html, options.unsubscribeUrl, options.preferencesUrl);
+    }
+
+    const sender = this.checkSender(options.sender);
     const emailData = {
-      from: `"${process.env.SMTP_FROM_NAME || 'Newsletter Service'}" <${process.env.SMTP_FROM_EMAIL}>`,
+      from: {
+        name: sender?.from_name || process.env.SMTP_FROM_NAME || 'Newsletter Service',
+        address: sender?.from_email || process.env.SMTP_FROM_EMAIL || '',
+      },
       to,
       subject,
-      text: body,
-      html: htmlBody || this.formatPlainTextAsHtml(body),
+      text,
+      html,
+      headers,
+      ...(sender?.reply_to ? { replyTo: sender.reply_to } : {}),
+      ...(sender?.envelope_sender ? { envelope: { from: sender.envelope_sender, to } } : {}),
     };
 
     try {
@@ -99,31 +153,60 @@ class EmailService {
       };
     } catch (error) {
       const errorMessage = (error as Error).message;
+      const { responseCode, response } = error as { responseCode?: number; response?: string };
       logger.error('Failed to send email', {
         to,
         subject,
         error: errorMessage,
+        responseCode,
       });
 
-      throw new Error(errorMessage.includes('timeout') ? 'Connection timeout' : errorMessage);
+      throw new SmtpError(
+        errorMessage.includes('timeout') ? 'Connection timeout' : errorMessage,
+        responseCode,
+        response
+      );
     }
   }
 
+  // Topic addresses were checked when saved, but the allowed domains may have changed since;
+  // sending addresses on domains no longer allowed fall back to the defaults
+  private checkSender(sender?: SenderIdentity): SenderIdentity | undefined {
+    if (!sender) {
+      return undefined;
+    }
+
+    const allowed = (email: string | null) => {
+      if (email && !isAllowedSendingDomain(email, ALLOWED_SENDER_DOMAINS)) {
+        logger.warn('Sender address on a domain that is not allowed; using the default', { email });
+        return null;
+      }
+      return email;
+    };
+
+    return {
+      ...sender,
+      from_email: allowed(sender.from_email),
+      envelope_sender: allowed(sender.envelope_sender),
+    };
+  }
+
   private formatPlainTextAsHtml(text: string): string {
-    return `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <meta charset="utf-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        </head>
-        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
-          <div style="white-space: pre-wrap;">${text.replace(/\n/g, '<br>')}</div>
-        </body>
-      </html>
-    `;
+    return defaultHtmlShell(formatBodyHtml(text));
   }
 
+  private appendTextFooter(text: string, unsubscribeUrl: string, preferencesUrl?: string): string {
+    const preferencesLine = preferencesUrl ? `\nManage preferences: ${preferencesUrl}` : '';
+    return `${text}\n\n--\nUnsubscribe: ${unsubscribeUrl}${preferencesLine}`;
+  }
+
+  private appendHtmlFooter(html: string, unsubscribeUrl: string, preferencesUrl?: string): string {
+    const preferencesLink = preferencesUrl
+      ? ` &middot; <a href="${escapeHtml(preferencesUrl)}" style="color: #888;">Manage preferences</a>`
+      : '';
+    const footer = `<p style="font-size: 12px; color: #888; margin-top: 30px;"><a href="${escapeHtml(unsubscribeUrl)}" style="color: #888;">Unsubscribe</a>${preferencesLink}</p>`;
+    return html.includes('</body>') ? html.replace('</body>', `${footer}</body>`) : `${html}${footer}`;
+  }
 }
 
 export default new EmailService();
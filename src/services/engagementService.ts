@@ -0,0 +1,257 @@
+import { eq, and, not, gte, lte, isNull, exists, inArray, count, sql } from 'drizzle-orm';
+import db from '../config/database.js';
+import { reengagementQueue } from '../config/queue.js';
+import { subscribers, emailLogs, engagementEvents, bounces } from '../models/schema.js';
+import audienceService from './audienceService.js';
+import subscriberEventService from './subscriberEventService.js';
+import preferencesService from './preferencesService.js';
+import { scoreEngagement, EngagementCounts } from '../utils/engagement.js';
+import { TrackingLinks } from '../utils/tracking.js';
+import { signToken, verifyToken } from '../utils/tokens.js';
+import { publicUrl } from '../utils/publicUrl.js';
+import logger from '../config/logger.js';
+
+// One token per email (and per link for clicks); digests carry every item they contain
+export interface TrackTokenData {
+  subscriberId: number;
+  contentIds: number[];
+  url?: string;
+}
+
+export interface EngagementSummary extends EngagementCounts {
+  score: number | null;
+  window_days: number;
+  last_engaged_at: Date | null;
+  reengagement_sent_at: Date | null;
+}
+
+const TRACKING_ENABLED = process.env.TRACKING_ENABLED !== 'false';
+const ENGAGEMENT_WINDOW_DAYS = parseInt(process.env.ENGAGEMENT_WINDOW_DAYS || '90');
+// Sunset policy: subscribers mailed at least SUNSET_MIN_SENDS times without an open or click in
+// SUNSET_INACTIVE_DAYS get a re-engagement email, and are deactivated if SUNSET_GRACE_DAYS pass without a response
+const SUNSET_INACTIVE_DAYS = parseInt(process.env.SUNSET_INACTIVE_DAYS || '365');
+const SUNSET_MIN_SENDS = parseInt(process.env.SUNSET_MIN_SENDS || '5');
+const SUNSET_GRACE_DAYS = parseInt(process.env.SUNSET_GRACE_DAYS || '14');
+
+const DAY_MS = 24 * 3600 * 1000;
+
+const daysBefore = (date: Date, days: number): Date => new Date(date.getTime() - days * DAY_MS);
+
+class EngagementService {
+  buildTracking(subscriberId: number, contentIds: number[]): TrackingLinks | undefined {
+    if (!TRACKING_ENABLED) {
+      return undefined;
+    }
+
+    const openToken = signToken<TrackTokenData>('track', { subscriberId, contentIds });
+    return {
+      openUrl: publicUrl(`/api/track/open/${openToken}`),
+      clickUrl: (url: string) => this.buildClickUrl(subscriberId, contentIds, url),
+    };
+  }
+
+  // The target URL is part of the signed token, so the redirect cannot be pointed anywhere else
+  buildClickUrl(subscriberId: number, contentIds: number[], url: string): string {
+    const token = signToken<TrackTokenData>('track', { subscriberId, contentIds, url });
+    return publicUrl(`/api/track/click/${token}`);
+  }
+
+  resolve(token: string): TrackTokenData | null {
+    return verifyToken<TrackTokenData>('track', token);
+  }
+
+  // Any open or click counts as a response to a pending re-engagement email
+  async record(type: 'open' | 'click', data: TrackTokenData): Promise<void> {
+    const contentIds: (number | null)[] = data.contentIds.length > 0 ? data.contentIds : [null];
+
+    await db.transaction(async (tx) => {
+      await tx.insert(engagementEvents).values(contentIds.map(contentId => ({
+        subscriber_id: data.subscriberId,
+        content_id: contentId,
+        type,
+        url: data.url ?? null,
+      })));
+
+      await tx.update(subscribers)
+        .set({ reengagement_sent_at: null })
+        .where(eq(subscribers.id, data.subscriberId));
+    });
+  }
+
+  // Rolling counts over the last ENGAGEMENT_WINDOW_DAYS, scored by scoreEngagement
+  async getSummaries(subscriberIds: number[]): Promise<Map<number, EngagementSummary>> {
+    const summaries = new Map<number, EngagementSummary>();
+    if (subscriberIds.length === 0) {
+      return summaries;
+    }
+
+    const since = daysBefore(new Date(), ENGAGEMENT_WINDOW_DAYS);
+
+    const [subscriberRows, sentRows, eventRows, bounceRows] = await Promise.all([
+      db.select({ id: subscribers.id, reengagement_sent_at: subscribers.reengagement_sent_at })
+        .from(subscribers)
+        .where(inArray(subscribers.id, subscriberIds)),
+      db.select({ subscriber_id: emailLogs.subscriber_id, count: count() })
+        .from(emailLogs)
+        .where(and(
+          inArray(emailLogs.subscriber_id, subscriberIds),
+          eq(emailLogs.status, 'sent'),
+          gte(emailLogs.sent_at, since)
+        ))
+        .groupBy(emailLogs.subscriber_id),
+      // Re-engagement emails carry no content id; coalescing to 0 counts responses to them as one more email
+      db.select({
+        subscriber_id: engagementEvents.subscriber_id,
+        opened: sql<number>`count(distinct coalesce(${engagementEvents.content_id}, 0)) filter (where ${gte(engagementEvents.created_at, since)})`.mapWith(Number),
+        clicked: sql<number>`count(distinct coalesce(${engagementEvents.content_id}, 0)) filter (where ${and(gte(engagementEvents.created_at, since), eq(engagementEvents.type, 'click'))})`.mapWith(Number),
+        last_engaged_at: sql<Date>`max(${engagementEvents.created_at})`.mapWith(engagementEvents.created_at),
+      })
+        .from(engagementEvents)
+        .where(inArray(engagementEvents.subscriber_id, subscriberIds))
+        .groupBy(engagementEvents.subscriber_id),
+      db.select({ subscriber_id: bounces.subscriber_id, count: count() })
+        .from(bounces)
+        .where(and(inArray(bounces.subscriber_id, subscriberIds), gte(bounces.created_at, since)))
+        .groupBy(bounces.subscriber_id),
+    ]);
+
+    const sent = new Map(sentRows.map(row => [row.subscriber_id, row.count]));
+    const events = new Map(eventRows.map(row => [row.subscriber_id, row]));
+    const bounced = new Map(bounceRows.map(row => [row.subscriber_id, row.count]));
+
+    for (const subscriber of subscriberRows) {
+      const counts: EngagementCounts = {
+        sent: sent.get(subscriber.id) || 0,
+        opened: events.get(subscriber.id)?.opened || 0,
+        clicked: events.get(subscriber.id)?.clicked || 0,
+        bounced: bounced.get(subscriber.id) || 0,
+      };
+
+      summaries.set(subscriber.id, {
+        score: scoreEngagement(counts),
+        ...counts,
+        window_days: ENGAGEMENT_WINDOW_DAYS,
+        last_engaged_at: events.get(subscriber.id)?.last_engaged_at ?? null,
+        reengagement_sent_at: subscriber.reengagement_sent_at,
+      });
+    }
+
+    return summaries;
+  }
+
+  async getSummary(subscriberId: number): Promise<EngagementSummary | null> {
+    return (await this.getSummaries([subscriberId])).get(subscriberId) || null;
+  }
+
+  async runSunsetPolicy(now: Date): Promise<{ deactivated: number; reengagementsQueued: number }> {
+    // Deactivate first, so nobody is re-engaged and deactivated in the same run
+    const deactivated = await this.deactivateUnresponsive(now);
+    const reengagementsQueued = await this.queueReengagements(now);
+
+    logger.info('Sunset policy run', { deactivated, reengagementsQueued });
+    return { deactivated, reengagementsQueued };
+  }
+
+  private async deactivateUnresponsive(now: Date): Promise<number> {
+    const deactivated = await db.update(subscribers)
+      .set({ is_active: false, sunset_at: now })
+      .where(and(
+        eq(subscribers.is_active, true),
+        lte(subscribers.reengagement_sent_at, daysBefore(now, SUNSET_GRACE_DAYS)),
+        not(exists(
+          db.select({ one: sql`1` })
+            .from(engagementEvents)
+            .where(and(
+              eq(engagementEvents.subscriber_id, subscribers.id),
+              gte(engagementEvents.created_at, subscribers.reengagement_sent_at)
+            ))
+        ))
+      ))
+      .returning({ id: subscribers.id });
+
+    await subscriberEventService.record({ source: 'sunset' }, deactivated.map(({ id }) => ({
+      subscriberId: id,
+      type: 'deactivated' as const,
+      details: { grace_days: SUNSET_GRACE_DAYS },
+    })));
+
+    for (const { id } of deactivated) {
+      logger.info('Subscriber deactivated by sunset policy', { subscriberId: id });
+    }
+
+    return deactivated.length;
+  }
+
+  // Paused subscribers are left alone: they asked for the silence
+  private async queueReengagements(now: Date): Promise<number> {
+    const since = daysBefore(now, SUNSET_INACTIVE_DAYS);
+
+    const candidates = await db.select({ id: subscribers.id })
+      .from(subscribers)
+      .where(and(
+        ...audienceService.deliverableConditions(),
+        isNull(subscribers.reengagement_sent_at),
+        lte(subscribers.created_at, since),
+        sql`(${db.select({ count: count() })
+          .from(emailLogs)
+          .where(and(
+            eq(emailLogs.subscriber_id, subscribers.id),
+            eq(emailLogs.status, 'sent'),
+            gte(emailLogs.sent_at, since)
+          ))}) >= ${SUNSET_MIN_SENDS}`,
+        not(exists(
+          db.select({ one: sql`1` })
+            .from(engagementEvents)
+            .where(and(
+              eq(engagementEvents.subscriber_id, subscribers.id),
+              gte(engagementEvents.created_at, since)
+            ))
+        ))
+      ));
+
+    for (const { id } of candidates) {
+      await reengagementQueue.add('send-reengagement', { subscriberId: id }, { jobId: `reengagement-${id}` });
+    }
+
+    return candidates.length;
+  }
+
+  // False once the email has gone out, or if the subscriber engaged since the job was queued
+  async isReengagementDue(subscriberId: number): Promise<boolean> {
+    const [subscriber] = await db.select({ reengagement_sent_at: subscribers.reengagement_sent_at })
+      .from(subscribers)
+      .where(eq(subscribers.id, subscriberId))
+      .limit(1);
+
+    return !!subscriber && subscriber.reengagement_sent_at === null;
+  }
+
+  // Clicking the link is itself the response: it is tracked like any other click
+  renderReengagement(subscriberId: number): { subject: string; text: string } {
+    const keepUrl = this.buildClickUrl(subscriberId, [], preferencesService.buildUrl(subscriberId));
+
+    return {
+      subject: process.env.SUNSET_REENGAGEMENT_SUBJECT || 'Do you still want to hear from us?',
+      text: [
+        'We noticed you have not opened our emails in a while.',
+        '',
+        'If you would like to keep receiving them, open the link below:',
+        keepUrl,
+        '',
+        `Otherwise we will stop emailing you in ${SUNSET_GRACE_DAYS} days.`,
+      ].join('\n'),
+    };
+  }
+
+  async markReengagementSent(subscriberId: number): Promise<void> {
+    await db.update(subscribers)
+      .set({ reengagement_sent_at: new Date() })
+      .where(eq(subscribers.id, subscriberId));
+
+    await subscriberEventService.record({ source: 'sunset' }, { subscriberId, type: 'reengagement_sent' });
+
+    logger.info('Re-engagement email sent', { subscriberId });
+  }
+}
+
+export default new EngagementService();
@@ -0,0 +1,75 @@
+import { eq, and, gt, asc, inArray, SQL } from 'drizzle-orm';
+import db from '../config/database.js';
+import { subscribers, subscriptions } from '../models/schema.js';
+
+const EXPORT_BATCH_SIZE = parseInt(process.env.EXPORT_BATCH_SIZE || '1000');
+
+export interface ExportFilters {
+  topicId?: number;
+  isActive?: boolean;
+}
+
+export interface ExportedSubscriber {
+  id: number;
+  email: string;
+  status: 'pending' | 'confirmed';
+  is_active: boolean;
+  is_paused: boolean;
+  created_at: Date;
+  topics: { id: number; name: string }[];
+}
+
+class ExportService {
+  // Keyset pagination over subscribers.id keeps memory flat regardless of audience size
+  async *streamSubscribers(filters: ExportFilters): AsyncGenerator<ExportedSubscriber[]> {
+    let lastId = 0;
+
+    while (true) {
+      const conditions: SQL<unknown>[] = [gt(subscribers.id, lastId)];
+      if (filters.isActive !== undefined) {
+        conditions.push(eq(subscribers.is_active, filters.isActive));
+      }
+      if (filters.topicId !== undefined) {
+        conditions.push(inArray(
+          subscribers.id,
+          db.select({ id: subscriptions.subscriber_id })
+            .from(subscriptions)
+            .where(eq(subscriptions.topic_id, filters.topicId))
+        ));
+      }
+
+      const batch = await db.query.subscribers.findMany({
+        where: and(...conditions),
+        orderBy: [asc(subscribers.id)],
+        limit: EXPORT_BATCH_SIZE,
+        with: {
+          subscriptions: {
+            with: {
+              topic: {
+                columns: { id: true, name: true },
+              },
+            },
+          },
+        },
+      });
+
+      if (batch.length === 0) {
+        return;
+      }
+
+      yield batch.map(subscriber => ({
+        id: subscriber.id,
+        email: subscriber.email,
+        status: subscriber.status,
+        is_active: subscriber.is_active,
+        is_paused: subscriber.is_paused,
+        created_at: subscriber.created_at,
+        topics: subscriber.subscriptions.map(subscription => subscription.topic),
+      }));
+
+      lastId = batch[batch.length - 1].id;
+    }
+  }
+}
+
+export default new ExportService();
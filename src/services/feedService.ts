@@ -0,0 +1,353 @@
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { eq, and, or, gt, lte, isNull, inArray, asc } from 'drizzle-orm';
+import db from '../config/database.js';
+import { topics, topicFeeds, feedEntries, content } from '../models/schema.js';
+import {
+  parseFeed,
+  renderFeedTemplate,
+  entryValues,
+  nextRoundupAt,
+  FeedEntry,
+  ParsedFeed,
+  DEFAULT_TITLE_TEMPLATE,
+  DEFAULT_BODY_TEMPLATE,
+  DEFAULT_ROUNDUP_TITLE_TEMPLATE,
+} from '../utils/feed.js';
+import logger from '../config/logger.js';
+
+type TopicFeed = typeof topicFeeds.$inferSelect;
+type StoredEntry = typeof feedEntries.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const FEED_POLL_INTERVAL_MINUTES = parseInt(process.env.FEED_POLL_INTERVAL_MINUTES || '15');
+const FEED_FETCH_TIMEOUT_MS = parseInt(process.env.FEED_FETCH_TIMEOUT_MS || '10000');
+const FEED_MAX_BYTES = parseInt(process.env.FEED_MAX_BYTES || '2097152');
+const FEED_MAX_NEW_ENTRIES = parseInt(process.env.FEED_MAX_NEW_ENTRIES || '10');
+// Local files are for trying out feeds; they stay off in production so the API cannot read the server's disk
+const FEED_ALLOW_FILES = process.env.FEED_ALLOW_FILES === 'true';
+
+// A roundup this close to going out is left alone, and new entries start the next one
+const ROUNDUP_CUTOFF_MS = 60 * 1000;
+
+const ROUNDUP_SEPARATOR = '\n\n---\n\n';
+
+export interface FeedSettings {
+  url: string;
+  delivery: 'immediate' | 'daily' | 'weekly';
+  titleTemplate?: string;
+  bodyTemplate?: string;
+  roundupTitleTemplate?: string;
+  roundupHour?: number;
+  roundupWeekday?: number;
+  isActive?: boolean;
+}
+
+export type SaveFeedResult =
+  | { result: 'saved'; feed: TopicFeed }
+  | { result: 'not_found' }
+  | { result: 'archived' };
+
+export type PollResult =
+  | { result: 'polled'; baseline: boolean; new_entries: number; content_ids: number[] }
+  | { result: 'failed'; error: string };
+
+export type PollTopicResult =
+  | PollResult
+  | { result: 'not_found' }
+  | { result: 'archived' };
+
+const isHttpUrl = (source: string): boolean => /^https?:\/\//i.test(source);
+
+// Oldest first: by date when every entry has one, otherwise reversing the usual newest-first document order
+const oldestFirst = (entries: FeedEntry[]): FeedEntry[] =>
+  entries.every(entry => entry.published_at)
+    ? [...entries].sort((a, b) => a.published_at!.getTime() - b.published_at!.getTime())
+    : [...entries].reverse();
+
+class FeedService {
+  // Why a feed source cannot be used, or null when it can
+  checkSource(source: string): string | null {
+    if (isHttpUrl(source)) {
+      try {
+        new URL(source);
+        return null;
+      } catch {
+        return 'url must be a valid http(s) URL';
+      }
+    }
+    return FEED_ALLOW_FILES ? null : 'url must be an http(s) URL';
+  }
+
+  async get(topicId: number): Promise<TopicFeed | null> {
+    const [feed] = await db.select().from(topicFeeds).where(eq(topicFeeds.topic_id, topicId)).limit(1);
+    return feed || null;
+  }
+
+  // Creates or replaces the topic's feed. Templates and roundup times left out go back to their defaults.
+  async save(topicId: number, settings: FeedSettings): Promise<SaveFeedResult> {
+    const [topic] = await db.select({ id: topics.id, archived_at: topics.archived_at })
+      .from(topics)
+      .where(eq(topics.id, topicId))
+      .limit(1);
+
+    if (!topic) {
+      return { result: 'not_found' };
+    }
+    if (topic.archived_at) {
+      return { result: 'archived' };
+    }
+
+    const values = {
+      url: settings.url,
+      delivery: settings.delivery,
+      title_template: settings.titleTemplate ?? DEFAULT_TITLE_TEMPLATE,
+      body_template: settings.bodyTemplate ?? DEFAULT_BODY_TEMPLATE,
+      roundup_title_template: settings.roundupTitleTemplate ?? DEFAULT_ROUNDUP_TITLE_TEMPLATE,
+      roundup_hour: settings.roundupHour ?? 8,
+      roundup_weekday: settings.roundupWeekday ?? 1,
+      is_active: settings.isActive ?? true,
+    };
+
+    const previous = await this.get(topicId);
+    const [feed] = await db.insert(topicFeeds)
+      .values({ topic_id: topicId, ...values })
+      .onConflictDoUpdate({
+        target: topicFeeds.topic_id,
+        // A different feed starts from a fresh baseline, so its back catalogue is not sent out
+        set: previous && previous.url !== settings.url
+          ? { ...values, last_polled_at: null, last_fetched_at: null, last_error: null }
+          : values,
+      })
+      .returning();
+
+    logger.info('Topic feed saved', { topicId, feedId: feed.id, url: feed.url, delivery: feed.delivery });
+    return { result: 'saved', feed };
+  }
+
+  // Content already created from the feed is kept
+  async remove(topicId: number): Promise<boolean> {
+    const deleted = await db.delete(topicFeeds).where(eq(topicFeeds.topic_id, topicId)).returning({ id: topicFeeds.id });
+
+    if (deleted.length > 0) {
+      logger.info('Topic feed removed', { topicId, feedId: deleted[0].id });
+    }
+    return deleted.length > 0;
+  }
+
+  // Active feeds of topics that are not archived, once FEED_POLL_INTERVAL_MINUTES have passed since their last poll
+  async pollDueFeeds(now: Date): Promise<void> {
+    const dueBefore = new Date(now.getTime() - FEED_POLL_INTERVAL_MINUTES * 60 * 1000);
+
+    const due = await db.select({ feed: topicFeeds })
+      .from(topicFeeds)
+      .innerJoin(topics, eq(topics.id, topicFeeds.topic_id))
+      .where(and(
+        eq(topicFeeds.is_active, true),
+        isNull(topics.archived_at),
+        or(isNull(topicFeeds.last_polled_at), lte(topicFeeds.last_polled_at, dueBefore))
+      ));
+
+    for (const { feed } of due) {
+      try {
+        await this.poll(feed, now);
+      } catch (error) {
+        logger.error('Error polling feed', { feedId: feed.id, topicId: feed.topic_id, error: (error as Error).message });
+      }
+    }
+  }
+
+  // On demand, including for paused feeds
+  async pollTopic(topicId: number, now: Date): Promise<PollTopicResult> {
+    const [row] = await db.select({ feed: topicFeeds, archived_at: topics.archived_at })
+      .from(topicFeeds)
+      .innerJoin(topics, eq(topics.id, topicFeeds.topic_id))
+      .where(eq(topicFeeds.topic_id, topicId))
+      .limit(1);
+
+    if (!row) {
+      return { result: 'not_found' };
+    }
+    if (row.archived_at) {
+      return { result: 'archived' };
+    }
+    return this.poll(row.feed, now);
+  }
+
+  // Fetch failures are recorded on the feed rather than thrown
+  async poll(feed: TopicFeed, now: Date): Promise<PollResult> {
+    let parsed: ParsedFeed;
+    try {
+      parsed = parseFeed(await this.fetchFeed(feed.url));
+    } catch (error) {
+      const message = (error as Error).name === 'TimeoutError'
+        ? `Feed did not respond within ${FEED_FETCH_TIMEOUT_MS}ms`
+        : (error as Error).message;
+
+      await db.update(topicFeeds).set({ last_polled_at: now, last_error: message }).where(eq(topicFeeds.id, feed.id));
+      logger.warn('Feed poll failed', { feedId: feed.id, topicId: feed.topic_id, error: message });
+      return { result: 'failed', error: message };
+    }
+
+    // Feeds occasionally repeat an entry; the first copy wins
+    const entries = oldestFirst(parsed.entries.filter((entry, index, all) => all.findIndex(other => other.guid === entry.guid) === index));
+
+    // The feed row is locked so a manual poll and the scheduler cannot both build the same roundup
+    const outcome = await db.transaction(async (tx): Promise<PollResult> => {
+      const [current] = await tx.select().from(topicFeeds).where(eq(topicFeeds.id, feed.id)).for('update');
+      if (!current) {
+        return { result: 'polled', baseline: false, new_entries: 0, content_ids: [] };
+      }
+
+      const baseline = current.last_fetched_at === null;
+
+      const inserted = entries.length === 0 ? [] : await tx.insert(feedEntries)
+        .values(entries.map(entry => ({ feed_id: current.id, ...entry })))
+        .onConflictDoNothing({ target: [feedEntries.feed_id, feedEntries.guid] })
+        .returning();
+
+      // Insertion follows the values, so `inserted` is oldest first too
+      const fresh = baseline ? [] : inserted.slice(-FEED_MAX_NEW_ENTRIES);
+      if (inserted.length > fresh.length && !baseline) {
+        logger.warn('Feed had more new entries than FEED_MAX_NEW_ENTRIES; older ones were skipped', {
+          feedId: current.id,
+          newEntries: inserted.length,
+          limit: FEED_MAX_NEW_ENTRIES,
+        });
+      }
+
+      const contentIds = fresh.length === 0 ? []
+        : current.delivery === 'immediate'
+          ? await this.createEntryContent(tx, current, fresh, now)
+          : [await this.addToRoundup(tx, current, parsed.title, fresh, now)];
+
+      await tx.update(topicFeeds)
+        .set({ last_polled_at: now, last_fetched_at: now, last_error: null })
+        .where(eq(topicFeeds.id, current.id));
+
+      return { result: 'polled', baseline, new_entries: inserted.length, content_ids: contentIds };
+    });
+
+    if (outcome.result === 'polled' && outcome.new_entries > 0) {
+      logger.info(outcome.baseline ? 'Feed baseline recorded' : 'Feed entries turned into content', {
+        feedId: feed.id,
+        topicId: feed.topic_id,
+        newEntries: outcome.new_entries,
+        contentIds: outcome.content_ids,
+      });
+    }
+
+    return outcome;
+  }
+
+  private async fetchFeed(source: string): Promise<string> {
+    if (!isHttpUrl(source)) {
+      if (!FEED_ALLOW_FILES) {
+        throw new Error('Reading feeds from local files is disabled');
+      }
+      const filePath = source.startsWith('file:') ? fileURLToPath(source) : source;
+      if ((await fs.promises.stat(filePath)).size > FEED_MAX_BYTES) {
+        throw new Error(`Feed is larger than ${FEED_MAX_BYTES} bytes`);
+      }
+      return fs.promises.readFile(filePath, 'utf-8');
+    }
+
+    const response = await fetch(source, {
+      signal: AbortSignal.timeout(FEED_FETCH_TIMEOUT_MS),
+      headers: { Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8' },
+    });
+    if (!response.ok) {
+      throw new Error(`Feed request failed with status ${response.status}`);
+    }
+
+    // Read incrementally so an oversized or endless response is cut off instead of buffered
+    const reader = response.body?.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    while (reader) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      size += value.length;
+      if (size > FEED_MAX_BYTES) {
+        await reader.cancel();
+        throw new Error(`Feed is larger than ${FEED_MAX_BYTES} bytes`);
+      }
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+  }
+
+  private renderEntry(feed: TopicFeed, entry: StoredEntry): { title: string; body: string } {
+    const values = entryValues(entry);
+    return {
+      title: renderFeedTemplate(feed.title_template, 'entry', values),
+      body: renderFeedTemplate(feed.body_template, 'entry', values),
+    };
+  }
+
+  private async createEntryContent(tx: Transaction, feed: TopicFeed, entries: StoredEntry[], now: Date): Promise<number[]> {
+    const ids: number[] = [];
+
+    for (const entry of entries) {
+      const [created] = await tx.insert(content)
+        .values({ topic_id: feed.topic_id, ...this.renderEntry(feed, entry), scheduled_time: now })
+        .returning({ id: content.id });
+
+      await tx.update(feedEntries).set({ content_id: created.id }).where(eq(feedEntries.id, entry.id));
+      ids.push(created.id);
+    }
+
+    return ids;
+  }
+
+  // Adds the entries to the feed's next pending roundup, or starts one at the next roundup slot,
+  // then rebuilds its title and body from every entry it holds
+  private async addToRoundup(tx: Transaction, feed: TopicFeed, feedTitle: string, entries: StoredEntry[], now: Date): Promise<number> {
+    const [pending] = await tx.selectDistinct({ id: content.id, scheduled_time: content.scheduled_time })
+      .from(content)
+      .innerJoin(feedEntries, eq(feedEntries.content_id, content.id))
+      .where(and(
+        eq(feedEntries.feed_id, feed.id),
+        eq(content.status, 'pending'),
+        gt(content.scheduled_time, new Date(now.getTime() + ROUNDUP_CUTOFF_MS))
+      ))
+      .orderBy(asc(content.scheduled_time))
+      .limit(1);
+
+    let roundupId = pending?.id;
+    if (!roundupId) {
+      const [created] = await tx.insert(content).values({
+        topic_id: feed.topic_id,
+        title: '',
+        body: '',
+        scheduled_time: nextRoundupAt(now, feed.delivery as 'daily' | 'weekly', feed.roundup_hour, feed.roundup_weekday),
+      }).returning({ id: content.id });
+      roundupId = created.id;
+    }
+
+    await tx.update(feedEntries)
+      .set({ content_id: roundupId })
+      .where(inArray(feedEntries.id, entries.map(entry => entry.id)));
+
+    const included = await tx.select()
+      .from(feedEntries)
+      .where(eq(feedEntries.content_id, roundupId))
+      .orderBy(asc(feedEntries.id));
+
+    await tx.update(content).set({
+      title: renderFeedTemplate(feed.roundup_title_template, 'feed', { title: feedTitle, count: String(included.length) }),
+      body: included
+        .map(entry => {
+          const rendered = this.renderEntry(feed, entry);
+          return `${rendered.title}\n\n${rendered.body}`;
+        })
+        .join(ROUNDUP_SEPARATOR),
+    }).where(eq(content.id, roundupId));
+
+    return roundupId;
+  }
+}
+
+export default new FeedService();
@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import db from '../config/database.js';
+import { subscribers, subscriptions, topics, content, emailLogs, digests, engagementEvents, bounces, complaints, erasureTombstones, subscriberImports, subscriberEvents, suppressions } from '../models/schema.js';
+import subscriberEventService, { EventContext } from './subscriberEventService.js';
+import logger from '../config/logger.js';
+
+export type EraseResult =
+  | { result: 'erased'; subscriptionsRemoved: number; emailLogsAnonymised: number }
+  | { result: 'not_found' }
+  | { result: 'already_erased' };
+
+class GdprService {
+  // Unkeyed so tombstones survive secret rotation; only used for equality checks
+  hashEmail(email: string): string {
+    return crypto.createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+  }
+
+  async isErased(email: string): Promise<boolean> {
+    return (await this.findErased([email])).size > 0;
+  }
+
+  async findErased(emails: string[]): Promise<Set<string>> {
+    if (emails.length === 0) {
+      return new Set();
+    }
+
+    const hashes = new Map(emails.map(email => [this.hashEmail(email), email]));
+    const rows = await db.select({ email_hash: erasureTombstones.email_hash })
+      .from(erasureTombstones)
+      .where(inArray(erasureTombstones.email_hash, [...hashes.keys()]));
+
+    return new Set(rows.map(row => hashes.get(row.email_hash)!));
+  }
+
+  async exportData(subscriberId: number) {
+    const [subscriber] = await db.select()
+      .from(subscribers)
+      .where(eq(subscribers.id, subscriberId))
+      .limit(1);
+
+    if (!subscriber) {
+      return null;
+    }
+
+    const [subscriberSubscriptions, deliveries, engagementHistory, bounceHistory, complaintHistory, lifecycleEvents, addressSuppressions] = await Promise.all([
+      db.select({
+        topic_id: subscriptions.topic_id,
+        topic_name: topics.name,
+        frequency: subscriptions.frequency,
+        paused_until: subscriptions.paused_until,
+        subscribed_at: subscriptions.created_at,
+      })
+        .from(subscriptions)
+        .innerJoin(topics, eq(subscriptions.topic_id, topics.id))
+        .where(eq(subscriptions.subscriber_id, subscriberId)),
+      db.select({
+        id: emailLogs.id,
+        content_id: emailLogs.content_id,
+        content_title: content.title,
+        status: emailLogs.status,
+        message_id: emailLogs.message_id,
+        error_message: emailLogs.error_message,
+        digest_id: emailLogs.digest_id,
+        sent_at: emailLogs.sent_at,
+        created_at: emailLogs.created_at,
+      })
+        .from(emailLogs)
+        .leftJoin(content, eq(emailLogs.content_id, content.id))
+        .where(eq(emailLogs.subscriber_id, subscriberId))
+        .orderBy(desc(emailLogs.created_at)),
+      db.select()
+        .from(engagementEvents)
+        .where(eq(engagementEvents.subscriber_id, subscriberId))
+        .orderBy(desc(engagementEvents.created_at)),
+      db.select()
+        .from(bounces)
+        .where(eq(bounces.subscriber_id, subscriberId))
+        .orderBy(desc(bounces.created_at)),
+      db.select()
+        .from(complaints)
+        .where(eq(complaints.subscriber_id, subscriberId))
+        .orderBy(desc(complaints.created_at)),
+      db.select()
+        .from(subscriberEvents)
+        .where(eq(subscriberEvents.subscriber_id, subscriberId))
+        .orderBy(desc(subscriberEvents.id)),
+      db.select()
+        .from(suppressions)
+        .where(and(eq(suppressions.type, 'address'), eq(suppressions.value, subscriber.email.toLowerCase())))
+        .orderBy(desc(suppressions.created_at)),
+    ]);
+
+    return {
+      generated_at: new Date().toISOString(),
+      profile: subscriber,
+      subscriptions: subscriberSubscriptions,
+      email_logs: deliveries,
+      engagement_events: engagementHistory,
+      bounces: bounceHistory,
+      complaints: complaintHistory,
+      events: lifecycleEvents,
+      suppressions: addressSuppressions,
+    };
+  }
+
+  // Anonymises rather than deletes so email_logs keep counting towards content statistics
+  async erase(subscriberId: number, context: EventContext): Promise<EraseResult> {
+    const [subscriber] = await db.select()
+      .from(subscribers)
+      .where(eq(subscribers.id, subscriberId))
+      .limit(1);
+
+    if (!subscriber) {
+      return { result: 'not_found' };
+    }
+
+    if (subscriber.erased_at) {
+      return { result: 'already_erased' };
+    }
+
+    const outcome = await db.transaction(async (tx) => {
+      await tx.insert(erasureTombstones)
+        .values({ email_hash: this.hashEmail(subscriber.email) })
+        .onConflictDoNothing();
+
+      const removedSubscriptions = await tx.delete(subscriptions)
+        .where(eq(subscriptions.subscriber_id, subscriberId))
+        .returning();
+
+      const anonymisedLogs = await tx.update(emailLogs)
+        .set({ message_id: null, error_message: null })
+        .where(eq(emailLogs.subscriber_id, subscriberId))
+        .returning({ id: emailLogs.id });
+
+      await tx.update(digests)
+        .set({ message_id: null })
+        .where(eq(digests.subscriber_id, subscriberId));
+
+      // Clicked URLs can carry personal query parameters
+      await tx.update(engagementEvents)
+        .set({ url: null })
+        .where(eq(engagementEvents.subscriber_id, subscriberId));
+
+      // Remote diagnostics usually quote the recipient address
+      await tx.update(bounces)
+        .set({ diagnostic: null })
+        .where(eq(bounces.subscriber_id, subscriberId));
+
+      // The tombstone keeps blocking the address, so its suppressions are no longer needed to stop mail to it
+      await tx.delete(suppressions)
+        .where(and(eq(suppressions.type, 'address'), eq(suppressions.value, subscriber.email.toLowerCase())));
+
+      await tx.update(subscribers)
+        .set({
+          email: `erased-${subscriberId}@erased.invalid`,
+          canonical_email: null,
+          attributes: {},
+          is_active: false,
+          erased_at: new Date(),
+        })
+        .where(eq(subscribers.id, subscriberId));
+
+      // Import reports list addresses row by row; blank this one out
+      await tx.update(subscriberImports)
+        .set({
+          report: sql`(
+            SELECT jsonb_agg(CASE WHEN entry->>'email' = ${subscriber.email} THEN jsonb_set(entry, '{email}', 'null') ELSE entry END)
+            FROM jsonb_array_elements(${subscriberImports.report}) AS entry
+          )`,
+        })
+        .where(sql`${subscriberImports.report} @> ${JSON.stringify([{ email: subscriber.email }])}::jsonb`);
+
+      await subscriberEventService.record(context, {
+        subscriberId,
+        type: 'erased',
+        details: { subscriptions_removed: removedSubscriptions.length },
+      }, tx);
+
+      return {
+        subscriptionsRemoved: removedSubscriptions.length,
+        emailLogsAnonymised: anonymisedLogs.length,
+      };
+    });
+
+    logger.info('Subscriber erased', { subscriberId, ...outcome });
+    return { result: 'erased', ...outcome };
+  }
+}
+
+export default new GdprService();
@@ -0,0 +1,24 @@
+import { importQueue } from '../config/queue.js';
+import importService from './importService.js';
+import logger from '../config/logger.js';
+
+importQueue.process('import-subscribers', 1, async (job) => {
+  const { importId, filePath, format } = job.data;
+
+  logger.info('Processing subscriber import job', { jobId: job.id, importId, format });
+  await importService.run(importId, filePath, format);
+
+  return { importId };
+});
+
+importQueue.on('failed', (job, err) => {
+  logger.error('Subscriber import job failed', {
+    jobId: job?.id,
+    importId: job?.data?.importId,
+    error: err.message,
+  });
+});
+
+logger.info('Import processor initialized', { jobName: 'import-subscribers' });
+
+export default importQueue;
@@ -0,0 +1,446 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import crypto from 'crypto';
+import { eq, and, or, inArray, sql } from 'drizzle-orm';
+import db from '../config/database.js';
+import { subscribers, subscriptions, topics, subscriberImports } from '../models/schema.js';
+import { parseCsvRecord, hasOpenQuote } from '../utils/csv.js';
+import { validateEmail } from '../utils/emailValidation.js';
+import gdprService from './gdprService.js';
+import suppressionService from './suppressionService.js';
+import subscriberEventService, { NewSubscriberEvent } from './subscriberEventService.js';
+import logger from '../config/logger.js';
+
+const IMPORT_BATCH_SIZE = parseInt(process.env.IMPORT_BATCH_SIZE || '500');
+const IMPORT_DIR = process.env.IMPORT_DIR || path.join(os.tmpdir(), 'newsletter-imports');
+
+export const JSON_ARRAY_ERROR = 'JSON imports must be an array of { email, topics } objects';
+
+export type ImportFormat = 'csv' | 'ndjson' | 'json';
+export type ImportOutcome = 'created' | 'skipped' | 'duplicate' | 'rejected';
+
+export interface ImportRowReport {
+  row: number;
+  email: string | null;
+  outcome: ImportOutcome;
+  reason?: string;
+}
+
+interface RawImportRow {
+  row: number;
+  email: unknown;
+  topics: unknown;
+}
+
+interface ValidImportRow {
+  row: number;
+  email: string;
+  canonical: string;
+  topicIds: number[];
+}
+
+// Appends report entries to the import's jsonb report, so no more than a batch of them is held in memory
+const appendReport = (entries: ImportRowReport[]) =>
+  sql`coalesce(${subscriberImports.report}, '[]'::jsonb) || ${JSON.stringify(entries)}::jsonb`;
+
+interface ImportTopic {
+  id: number;
+  archived_at: Date | null;
+}
+
+const splitTopicNames = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.map(v => String(v).trim()).filter(Boolean);
+  }
+  if (typeof value === 'string') {
+    return value.split(/[;|]/).map(v => v.trim()).filter(Boolean);
+  }
+  return [];
+};
+
+async function* readCsvRows(filePath: string): AsyncGenerator<RawImportRow> {
+  const lines = readline.createInterface({ input: fs.createReadStream(filePath, 'utf-8'), crlfDelay: Infinity });
+  let header: string[] | null = null;
+  let record = '';
+  let row = 0;
+
+  for await (const line of lines) {
+    record = record ? `${record}\n${line}` : line;
+    if (hasOpenQuote(record)) {
+      continue;
+    }
+
+    const fields = parseCsvRecord(record.replace(/^\uFEFF/, ''));
+    record = '';
+
+    if (fields.every(field => field.trim() === '')) {
+      continue;
+    }
+
+    if (!header) {
+      header = fields.map(field => field.trim().toLowerCase());
+      if (!header.includes('email')) {
+        throw new Error('CSV header must contain an "email" column');
+      }
+      continue;
+    }
+
+    row++;
+    const topicsIndex = header.findIndex(name => name === 'topics' || name === 'topic');
+    yield {
+      row,
+      email: fields[header.indexOf('email')],
+      topics: topicsIndex >= 0 ? fields[topicsIndex] : undefined,
+    };
+  }
+}
+
+async function* readNdjsonRows(filePath: string): AsyncGenerator<RawImportRow> {
+  const lines = readline.createInterface({ input: fs.createReadStream(filePath, 'utf-8'), crlfDelay: Infinity });
+  let row = 0;
+
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    row++;
+    try {
+      const parsed = JSON.parse(line);
+      yield { row, email: parsed?.email, topics: parsed?.topics };
+    } catch (error) {
+      yield { row, email: null, topics: undefined };
+    }
+  }
+}
+
+// Yields the elements of a top-level JSON array one at a time, so a large upload is never parsed as a whole
+async function* readJsonRows(filePath: string): AsyncGenerator<RawImportRow> {
+  let started = false;
+  let ended = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let element = '';
+  let row = 0;
+
+  const toRow = (text: string): RawImportRow => {
+    row++;
+    try {
+      const parsed = JSON.parse(text);
+      return { row, email: parsed?.email, topics: parsed?.topics };
+    } catch (error) {
+      return { row, email: null, topics: undefined };
+    }
+  };
+
+  for await (const chunk of fs.createReadStream(filePath, 'utf-8')) {
+    for (const char of chunk as string) {
+      if (ended) {
+        break;
+      }
+      if (!started) {
+        if (char === '[') {
+          started = true;
+        } else if (char.trim()) {
+          throw new Error(JSON_ARRAY_ERROR);
+        }
+        continue;
+      }
+
+      if (depth === 0 && !inString && (char === ',' || char === ']' || !char.trim())) {
+        if (element.trim()) {
+          yield toRow(element);
+        }
+        element = '';
+        ended = char === ']';
+        continue;
+      }
+
+      element += char;
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+      }
+    }
+  }
+
+  if (!started) {
+    throw new Error(JSON_ARRAY_ERROR);
+  }
+  // A truncated upload still reports its last element, as a rejected row
+  if (!ended && element.trim()) {
+    yield toRow(element);
+  }
+}
+
+class ImportService {
+  // Uploads are spooled to disk so large files never sit in memory or in Redis
+  newUploadPath(): string {
+    fs.mkdirSync(IMPORT_DIR, { recursive: true });
+    return path.join(IMPORT_DIR, `${Date.now()}-${crypto.randomBytes(6).toString('hex')}.upload`);
+  }
+
+  async createImport(format: ImportFormat): Promise<typeof subscriberImports.$inferSelect> {
+    const [importRecord] = await db.insert(subscriberImports).values({ format }).returning();
+    return importRecord;
+  }
+
+  async getImport(importId: number): Promise<typeof subscriberImports.$inferSelect | null> {
+    const [importRecord] = await db.select()
+      .from(subscriberImports)
+      .where(eq(subscriberImports.id, importId))
+      .limit(1);
+
+    return importRecord || null;
+  }
+
+  async run(importId: number, filePath: string, format: ImportFormat): Promise<void> {
+    const startTime = Date.now();
+    const counts = { total_rows: 0, created_count: 0, skipped_count: 0, duplicate_count: 0, rejected_count: 0 };
+    // Entries not yet written to the report
+    let pending: ImportRowReport[] = [];
+
+    await db.update(subscriberImports)
+      .set({ status: 'processing', started_at: new Date() })
+      .where(eq(subscriberImports.id, importId));
+
+    logger.info('Subscriber import started', { importId, format });
+
+    try {
+      const allTopics = await db.select({ id: topics.id, name: topics.name, archived_at: topics.archived_at }).from(topics);
+      const topicsByName = new Map(allTopics.map(topic => [topic.name.toLowerCase(), topic]));
+      const seenEmails = new Set<string>();
+      let batch: ValidImportRow[] = [];
+
+      const record = (entry: ImportRowReport) => {
+        pending.push(entry);
+        counts[`${entry.outcome}_count`]++;
+      };
+
+      // Every row read since the previous flush is reported here, so sorting each flush keeps the whole report in row order
+      const flush = async () => {
+        if (batch.length > 0) {
+          const emails = batch.map(r => r.email);
+          const [erased, suppressed] = await Promise.all([
+            gdprService.findErased(emails),
+            suppressionService.findSuppressed(emails),
+          ]);
+
+          const importable = batch.filter(r => {
+            if (erased.has(r.email)) {
+              record({ row: r.row, email: r.email, outcome: 'rejected', reason: 'Address was erased on request' });
+              return false;
+            }
+            if (suppressed.has(r.email)) {
+              record({ row: r.row, email: r.email, outcome: 'rejected', reason: 'Address is suppressed' });
+              return false;
+            }
+            return true;
+          });
+          if (importable.length > 0) {
+            (await this.upsertBatch(importId, importable)).forEach(record);
+          }
+          batch = [];
+        }
+        if (pending.length === 0) {
+          return;
+        }
+
+        const entries = pending.sort((a, b) => a.row - b.row);
+        pending = [];
+
+        await db.update(subscriberImports)
+          .set({ ...counts, report: appendReport(entries) })
+          .where(eq(subscriberImports.id, importId));
+      };
+
+      const rows = format === 'csv' ? readCsvRows(filePath)
+        : format === 'json' ? readJsonRows(filePath)
+          : readNdjsonRows(filePath);
+
+      for await (const raw of rows) {
+        counts.total_rows++;
+        const validated = this.validateRow(raw, topicsByName);
+
+        if ('outcome' in validated) {
+          record(validated);
+        } else if (seenEmails.has(validated.canonical)) {
+          record({ row: validated.row, email: validated.email, outcome: 'duplicate', reason: 'Repeated in this file' });
+        } else {
+          seenEmails.add(validated.canonical);
+          batch.push(validated);
+        }
+
+        if (batch.length >= IMPORT_BATCH_SIZE || pending.length >= IMPORT_BATCH_SIZE) {
+          await flush();
+        }
+      }
+
+      await flush();
+
+      await db.update(subscriberImports)
+        .set({
+          ...counts,
+          status: 'completed',
+          completed_at: new Date(),
+        })
+        .where(eq(subscriberImports.id, importId));
+
+      logger.info('Subscriber import completed', {
+        importId,
+        ...counts,
+        processingTimeMs: Date.now() - startTime,
+      });
+    } catch (error) {
+      const errorMessage = (error as Error).message;
+      logger.error('Subscriber import failed', { importId, error: errorMessage });
+
+      await db.update(subscriberImports)
+        .set({
+          ...counts,
+          status: 'failed',
+          ...(pending.length > 0 ? { report: appendReport(pending.sort((a, b) => a.row - b.row)) } : {}),
+          error_message: errorMessage,
+          completed_at: new Date(),
+        })
+        .where(eq(subscriberImports.id, importId));
+    } finally {
+      fs.promises.unlink(filePath).catch(() => {});
+    }
+  }
+
+  private validateRow(raw: RawImportRow, topicsByName: Map<string, ImportTopic>): ValidImportRow | ImportRowReport {
+    const validation = validateEmail(raw.email);
+    if (!validation.valid) {
+      const reason = validation.reasons.map(r => r.message).join('; ');
+      return {
+        row: raw.row,
+        email: typeof raw.email === 'string' && raw.email.trim() ? raw.email.trim().toLowerCase() : null,
+        outcome: 'rejected',
+        reason: validation.suggestion ? `${reason} (did you mean ${validation.suggestion}?)` : reason,
+      };
+    }
+
+    const { email, canonical } = validation;
+
+    const topicNames = splitTopicNames(raw.topics);
+    const unknownTopics = topicNames.filter(name => !topicsByName.has(name.toLowerCase()));
+    if (unknownTopics.length > 0) {
+      return { row: raw.row, email, outcome: 'rejected', reason: `Unknown topics: ${unknownTopics.join(', ')}` };
+    }
+
+    const archivedTopics = topicNames.filter(name => topicsByName.get(name.toLowerCase())!.archived_at);
+    if (archivedTopics.length > 0) {
+      return { row: raw.row, email, outcome: 'rejected', reason: `Archived topics: ${archivedTopics.join(', ')}` };
+    }
+
+    return {
+      row: raw.row,
+      email,
+      canonical,
+      topicIds: topicNames.map(name => topicsByName.get(name.toLowerCase())!.id),
+    };
+  }
+
+  // Imported lists are treated as already opted in, so rows are stored as confirmed and pending subscribers they
+  // match are confirmed. Rows whose canonical address matches an existing subscriber are merged into that subscriber.
+  // Deactivated subscribers (unsubscribed, sunset or deactivated by an admin) are skipped: only a fresh opt-in brings them back.
+  private async upsertBatch(importId: number, batch: ValidImportRow[]): Promise<ImportRowReport[]> {
+    return db.transaction(async (tx) => {
+      const emails = batch.map(r => r.email);
+      const canonicals = batch.map(r => r.canonical);
+
+      const existing = await tx.select({
+        id: subscribers.id,
+        email: subscribers.email,
+        canonical_email: subscribers.canonical_email,
+        is_active: subscribers.is_active,
+        status: subscribers.status,
+      })
+        .from(subscribers)
+        .where(or(inArray(subscribers.email, emails), inArray(subscribers.canonical_email, canonicals)));
+
+      // Legacy rows have no canonical address yet, so the exact address is matched as well
+      const existingByEmail = new Map(existing.map(s => [s.email, s]));
+      const existingByCanonical = new Map(existing.filter(s => s.canonical_email).map(s => [s.canonical_email!, s]));
+      const findExisting = (r: ValidImportRow) => existingByEmail.get(r.email) || existingByCanonical.get(r.canonical);
+
+      const toCreate = batch.filter(r => !findExisting(r));
+      if (toCreate.length > 0) {
+        await tx.insert(subscribers)
+          .values(toCreate.map(r => ({ email: r.email, canonical_email: r.canonical, status: 'confirmed' as const })))
+          .onConflictDoNothing();
+      }
+
+      const created = toCreate.length > 0
+        ? await tx.select({ id: subscribers.id, email: subscribers.email })
+          .from(subscribers)
+          .where(inArray(subscribers.email, toCreate.map(r => r.email)))
+        : [];
+      const pendingIds = [...new Set(batch.map(findExisting).filter(s => s?.is_active && s.status === 'pending').map(s => s!.id))];
+      const confirmed = pendingIds.length > 0
+        ? await tx.update(subscribers)
+          .set({ status: 'confirmed', confirmed_at: new Date() })
+          .where(and(inArray(subscribers.id, pendingIds), eq(subscribers.status, 'pending')))
+          .returning({ id: subscribers.id })
+        : [];
+      const confirmedIds = new Set(confirmed.map(s => s.id));
+
+      const createdIds = new Map(created.map(s => [s.email, s.id]));
+      const subscriberIdOf = (r: ValidImportRow) => findExisting(r)?.id ?? createdIds.get(r.email)!;
+
+      const subscriptionRows = batch.filter(r => findExisting(r)?.is_active !== false).flatMap(r =>
+        r.topicIds.map(topicId => ({ subscriber_id: subscriberIdOf(r), topic_id: topicId }))
+      );
+      const subscribed = subscriptionRows.length > 0
+        ? await tx.insert(subscriptions).values(subscriptionRows).onConflictDoNothing()
+          .returning({ subscriber_id: subscriptions.subscriber_id, topic_id: subscriptions.topic_id, frequency: subscriptions.frequency })
+        : [];
+
+      const events: NewSubscriberEvent[] = [
+        ...created.map(s => ({ subscriberId: s.id, type: 'created' as const })),
+        ...confirmed.map(s => ({ subscriberId: s.id, type: 'confirmed' as const })),
+        ...subscribed.map(s => ({
+          subscriberId: s.subscriber_id,
+          type: 'subscribed' as const,
+          topicId: s.topic_id,
+          details: { frequency: s.frequency },
+        })),
+      ];
+      await subscriberEventService.record({ source: 'import', actor: `import:${importId}` }, events, tx);
+
+      return batch.map((r): ImportRowReport => {
+        const previous = findExisting(r);
+        if (!previous) {
+          return { row: r.row, email: r.email, outcome: 'created' };
+        }
+        if (!previous.is_active) {
+          return { row: r.row, email: r.email, outcome: 'skipped', reason: 'Subscriber is deactivated and must sign up again' };
+        }
+        return {
+          row: r.row,
+          email: r.email,
+          outcome: 'duplicate',
+          reason: confirmedIds.has(previous.id) ? 'Pending subscriber confirmed'
+            : previous.email === r.email ? 'Already subscribed' : 'Same mailbox as an existing subscriber',
+        };
+      });
+    });
+  }
+}
+
+export default new ImportService();
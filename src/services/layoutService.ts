@@ -0,0 +1,141 @@
+import { eq, and, desc, max } from 'drizzle-orm';
+import db from '../config/database.js';
+import { topics, topicLayouts, content } from '../models/schema.js';
+import { ancestry } from '../utils/topicTree.js';
+import type { Layout } from '../utils/layout.js';
+import logger from '../config/logger.js';
+
+type TopicLayoutVersion = typeof topicLayouts.$inferSelect;
+
+// The layout content on a topic is sent with: the topic's own, or the nearest ancestor's
+export interface EffectiveLayout extends Layout {
+  topic_id: number;
+  version: number;
+}
+
+export interface TopicLayoutState {
+  current: TopicLayoutVersion | null;
+  effective: EffectiveLayout | null;
+}
+
+export type SaveLayoutResult =
+  | { result: 'saved'; layout: TopicLayoutVersion }
+  | { result: 'not_found' }
+  | { result: 'version_not_found' };
+
+class LayoutService {
+  // Latest version per topic, including versions that removed a layout
+  private async getCurrentVersions(): Promise<Map<number, TopicLayoutVersion>> {
+    const rows = await db.selectDistinctOn([topicLayouts.topic_id])
+      .from(topicLayouts)
+      .orderBy(topicLayouts.topic_id, desc(topicLayouts.version));
+
+    return new Map(rows.map(row => [row.topic_id, row]));
+  }
+
+  async getEffective(topicId: number): Promise<EffectiveLayout | null> {
+    const [nodes, current] = await Promise.all([
+      db.select({ id: topics.id, parent_id: topics.parent_id }).from(topics),
+      this.getCurrentVersions(),
+    ]);
+
+    for (const id of ancestry(nodes, topicId)) {
+      const layout = current.get(id);
+      if (layout?.html) {
+        return { topic_id: id, version: layout.version, html: layout.html, text: layout.text };
+      }
+    }
+
+    return null;
+  }
+
+  async getState(topicId: number): Promise<TopicLayoutState | null> {
+    const [topic] = await db.select({ id: topics.id }).from(topics).where(eq(topics.id, topicId)).limit(1);
+    if (!topic) {
+      return null;
+    }
+
+    const [current] = await db.select()
+      .from(topicLayouts)
+      .where(eq(topicLayouts.topic_id, topicId))
+      .orderBy(desc(topicLayouts.version))
+      .limit(1);
+
+    return { current: current || null, effective: await this.getEffective(topicId) };
+  }
+
+  async listVersions(topicId: number): Promise<TopicLayoutVersion[] | null> {
+    const [topic] = await db.select({ id: topics.id }).from(topics).where(eq(topics.id, topicId)).limit(1);
+    if (!topic) {
+      return null;
+    }
+
+    return db.select()
+      .from(topicLayouts)
+      .where(eq(topicLayouts.topic_id, topicId))
+      .orderBy(desc(topicLayouts.version));
+  }
+
+  // Adds the next version; a null layout removes the topic's own layout so it inherits again.
+  // The topic row is locked so concurrent saves cannot claim the same version number.
+  async save(topicId: number, layout: Layout | null, createdBy?: string | null): Promise<SaveLayoutResult> {
+    return db.transaction(async (tx): Promise<SaveLayoutResult> => {
+      const [topic] = await tx.select({ id: topics.id }).from(topics).where(eq(topics.id, topicId)).for('update');
+      if (!topic) {
+        return { result: 'not_found' };
+      }
+
+      const [latest] = await tx.select({ version: max(topicLayouts.version) })
+        .from(topicLayouts)
+        .where(eq(topicLayouts.topic_id, topicId));
+
+      const [saved] = await tx.insert(topicLayouts).values({
+        topic_id: topicId,
+        version: (latest?.version ?? 0) + 1,
+        html: layout?.html ?? null,
+        text: layout?.text ?? null,
+        created_by: createdBy ?? null,
+      }).returning();
+
+      logger.info(layout ? 'Topic layout saved' : 'Topic layout removed', { topicId, version: saved.version });
+      return { result: 'saved', layout: saved };
+    });
+  }
+
+  // Rolling back adds a copy of the old version, so the history stays append-only
+  async restoreVersion(topicId: number, version: number, createdBy?: string | null): Promise<SaveLayoutResult> {
+    const [previous] = await db.select()
+      .from(topicLayouts)
+      .where(and(eq(topicLayouts.topic_id, topicId), eq(topicLayouts.version, version)))
+      .limit(1);
+
+    if (!previous) {
+      return { result: 'version_not_found' };
+    }
+
+    return this.save(topicId, previous.html ? { html: previous.html, text: previous.text } : null, createdBy);
+  }
+
+  // The layout a piece of content is sent with right now, or null to send the body in the default shell
+  async getContentLayout(contentId: number): Promise<Layout | null> {
+    const [item] = await db.select({
+      topic_id: content.topic_id,
+      layout: content.layout,
+      layout_html: content.layout_html,
+      layout_text: content.layout_text,
+    })
+      .from(content)
+      .where(eq(content.id, contentId))
+      .limit(1);
+
+    if (!item || item.layout === 'none') {
+      return null;
+    }
+    if (item.layout === 'custom') {
+      return { html: item.layout_html!, text: item.layout_text };
+    }
+    return item.topic_id === null ? null : this.getEffective(item.topic_id);
+  }
+}
+
+export default new LayoutService();
@@ -0,0 +1,80 @@
+import { eq, and, sql } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import db from '../config/database.js';
+import { subscribers, subscriptions } from '../models/schema.js';
+import subscriberEventService, { EventContext } from './subscriberEventService.js';
+import logger from '../config/logger.js';
+
+type Subscriber = typeof subscribers.$inferSelect;
+type Subscription = typeof subscriptions.$inferSelect;
+
+// Resuming moves paused_until back to now rather than clearing it, so it still records when the
+// snooze ended and digests skip what was published during it
+const endSnooze = (pausedUntil: PgColumn) => sql`least(${pausedUntil}, now())`;
+
+class PauseService {
+  // Without an end date the subscriber stays paused until resumed, like the preference center switch
+  async pauseSubscriber(subscriberId: number, until: Date | null, context: EventContext): Promise<Subscriber | null> {
+    const [subscriber] = await db.update(subscribers)
+      .set(until ? { is_paused: false, paused_until: until } : { is_paused: true, paused_until: null })
+      .where(eq(subscribers.id, subscriberId))
+      .returning();
+
+    if (subscriber) {
+      await subscriberEventService.record(context, { subscriberId, type: 'paused', details: { until } });
+      logger.info('Subscriber paused', { subscriberId, until: until?.toISOString() ?? 'indefinitely' });
+    }
+
+    return subscriber || null;
+  }
+
+  async resumeSubscriber(subscriberId: number, context: EventContext): Promise<Subscriber | null> {
+    const [subscriber] = await db.update(subscribers)
+      .set({ is_paused: false, paused_until: endSnooze(subscribers.paused_until) })
+      .where(eq(subscribers.id, subscriberId))
+      .returning();
+
+    if (subscriber) {
+      await subscriberEventService.record(context, { subscriberId, type: 'resumed' });
+      logger.info('Subscriber resumed', { subscriberId });
+    }
+
+    return subscriber || null;
+  }
+
+  async pauseSubscription(subscriberId: number, topicId: number, until: Date, context: EventContext): Promise<Subscription | null> {
+    const [subscription] = await db.update(subscriptions)
+      .set({ paused_until: until })
+      .where(and(
+        eq(subscriptions.subscriber_id, subscriberId),
+        eq(subscriptions.topic_id, topicId)
+      ))
+      .returning();
+
+    if (subscription) {
+      await subscriberEventService.record(context, { subscriberId, type: 'subscription_paused', topicId, details: { until } });
+      logger.info('Subscription paused', { subscriberId, topicId, until: until.toISOString() });
+    }
+
+    return subscription || null;
+  }
+
+  async resumeSubscription(subscriberId: number, topicId: number, context: EventContext): Promise<Subscription | null> {
+    const [subscription] = await db.update(subscriptions)
+      .set({ paused_until: endSnooze(subscriptions.paused_until) })
+      .where(and(
+        eq(subscriptions.subscriber_id, subscriberId),
+        eq(subscriptions.topic_id, topicId)
+      ))
+      .returning();
+
+    if (subscription) {
+      await subscriberEventService.record(context, { subscriberId, type: 'subscription_resumed', topicId });
+      logger.info('Subscription resumed', { subscriberId, topicId });
+    }
+
+    return subscription || null;
+  }
+}
+
+export default new PauseService();
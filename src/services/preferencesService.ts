@@ -0,0 +1,138 @@
+import { eq, and, asc } from 'drizzle-orm';
+import db from '../config/database.js';
+import { subscribers, subscriptions, topics } from '../models/schema.js';
+import subscriptionService, { DeliveryFrequency } from './subscriptionService.js';
+import { signToken, verifyToken } from '../utils/tokens.js';
+import { publicUrl } from '../utils/publicUrl.js';
+import subscriberEventService, { subscriberContext } from './subscriberEventService.js';
+import { ancestry } from '../utils/topicTree.js';
+import logger from '../config/logger.js';
+
+interface PreferencesTokenData {
+  subscriberId: number;
+}
+
+export interface TopicPreference {
+  id: number;
+  name: string;
+  description: string | null;
+  parent_id: number | null;
+  subscribed: boolean;
+  // The nearest subscribed ancestor, whose subscription already delivers this topic; null when there is none
+  covered_by: number | null;
+  // null when not subscribed
+  frequency: DeliveryFrequency | null;
+  paused_until: Date | null;
+}
+
+export interface SubscriberPreferences {
+  email: string;
+  is_active: boolean;
+  is_paused: boolean;
+  paused_until: Date | null;
+  topics: TopicPreference[];
+}
+
+export interface PreferencesUpdate {
+  topicIds?: number[];
+  // Keyed by topic id; applies to existing subscriptions and to ones added by topicIds
+  frequencies?: Record<number, DeliveryFrequency>;
+  paused?: boolean;
+}
+
+const PREFERENCE_CENTER = subscriberContext('preference_center');
+
+class PreferencesService {
+  buildUrl(subscriberId: number): string {
+    const token = signToken<PreferencesTokenData>('preferences', { subscriberId });
+    return publicUrl(`/api/preferences/${token}`);
+  }
+
+  resolveSubscriberId(token: string): number | null {
+    return verifyToken<PreferencesTokenData>('preferences', token)?.subscriberId ?? null;
+  }
+
+  async get(subscriberId: number): Promise<SubscriberPreferences | null> {
+    const [subscriber] = await db.select()
+      .from(subscribers)
+      .where(eq(subscribers.id, subscriberId))
+      .limit(1);
+
+    if (!subscriber) {
+      return null;
+    }
+
+    const [allTopics, currentSubscriptions] = await Promise.all([
+      db.select().from(topics).orderBy(asc(topics.name)),
+      db.select({
+        topic_id: subscriptions.topic_id,
+        frequency: subscriptions.frequency,
+        paused_until: subscriptions.paused_until,
+      })
+        .from(subscriptions)
+        .where(eq(subscriptions.subscriber_id, subscriberId)),
+    ]);
+
+    const subscribed = new Map(currentSubscriptions.map(s => [s.topic_id, s]));
+    // Archived topics stay listed only for people still subscribed, so they can leave
+    const listed = allTopics.filter(topic => topic.archived_at === null || subscribed.has(topic.id));
+
+    return {
+      email: subscriber.email,
+      is_active: subscriber.is_active,
+      is_paused: subscriber.is_paused,
+      paused_until: subscriber.paused_until,
+      topics: listed.map(topic => ({
+        id: topic.id,
+        name: topic.name,
+        description: topic.description,
+        parent_id: topic.parent_id,
+        subscribed: subscribed.has(topic.id),
+        covered_by: ancestry(allTopics, topic.id).slice(1).find(id => subscribed.has(id)) ?? null,
+        frequency: subscribed.get(topic.id)?.frequency ?? null,
+        paused_until: subscribed.get(topic.id)?.paused_until ?? null,
+      })),
+    };
+  }
+
+  // Applies the difference between the current and requested topic set and delivery frequencies
+  async update(subscriberId: number, current: SubscriberPreferences, update: PreferencesUpdate): Promise<void> {
+    const wanted = update.topicIds ? new Set(update.topicIds) : null;
+
+    for (const topic of current.topics) {
+      const frequency = update.frequencies?.[topic.id];
+
+      if (wanted && wanted.has(topic.id) && !topic.subscribed) {
+        await subscriptionService.subscribe(subscriberId, topic.id, frequency, PREFERENCE_CENTER);
+      } else if (wanted && !wanted.has(topic.id) && topic.subscribed) {
+        await subscriptionService.unsubscribe(subscriberId, topic.id, PREFERENCE_CENTER);
+      } else if (topic.subscribed && frequency && frequency !== topic.frequency) {
+        await subscriptionService.setFrequency(subscriberId, topic.id, frequency, PREFERENCE_CENTER);
+      }
+    }
+
+    if (update.paused !== undefined && update.paused !== current.is_paused) {
+      await db.update(subscribers)
+        .set({ is_paused: update.paused })
+        .where(eq(subscribers.id, subscriberId));
+      await subscriberEventService.record(PREFERENCE_CENTER, { subscriberId, type: update.paused ? 'paused' : 'resumed' });
+    }
+
+    logger.info('Subscriber preferences updated', { subscriberId, ...update });
+  }
+
+  async deactivate(subscriberId: number): Promise<void> {
+    const [subscriber] = await db.update(subscribers)
+      .set({ is_active: false })
+      .where(and(eq(subscribers.id, subscriberId), eq(subscribers.is_active, true)))
+      .returning({ id: subscribers.id });
+
+    if (subscriber) {
+      await subscriberEventService.record(PREFERENCE_CENTER, { subscriberId, type: 'deactivated' });
+    }
+
+    logger.info('Subscriber deactivated via preference center', { subscriberId });
+  }
+}
+
+export default new PreferencesService();
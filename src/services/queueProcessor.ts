@@ -1,9 +1,23 @@
 import 'dotenv/config';
-import { eq, and, count } from 'drizzle-orm';
-import emailQueue from '../config/queue.js';
-import emailService from './emailService.js';
+import { eq, and } from 'drizzle-orm';
+import emailQueue, { digestQueue, reengagementQueue } from '../config/queue.js';
+import emailService, { SmtpError } from './emailService.js';
 import db from '../config/database.js';
-import { emailLogs, content, subscriptions, subscribers } from '../models/schema.js';
+import { emailLogs, content } from '../models/schema.js';
+import audienceService, { AudienceTarget } from './audienceService.js';
+import unsubscribeService from './unsubscribeService.js';
+import suppressionService from './suppressionService.js';
+import preferencesService from './preferencesService.js';
+import bounceService from './bounceService.js';
+import completionService from './completionService.js';
+import deliveryWaveService from './deliveryWaveService.js';
+import digestService, { DigestItem } from './digestService.js';
+import engagementService from './engagementService.js';
+import topicService from './topicService.js';
+import layoutService from './layoutService.js';
+import { renderMergeTags } from '../utils/mergeTags.js';
+import { applyLayout, formatBodyHtml, defaultHtmlShell } from '../utils/layout.js';
+import { escapeHtml } from '../utils/html.js';
 import logger from '../config/logger.js';
 
 const EMAILS_PER_SECOND = parseInt(process.env.EMAILS_PER_SECOND || '10');
@@ -28,7 +42,7 @@ class RateLimiter {
 const rateLimiter = new RateLimiter();
 
 emailQueue.process('send-newsletter', 10, async (job) => {
-  const { contentId, subscriberId, subscriberEmail, title, body } = job.data;
+  const { contentId, subscriberId, subscriberEmail, title, body, waveId } = job.data;
   const startTime = Date.now();
 
   try {
@@ -43,10 +57,83 @@ emailQueue.process('send-newsletter', 10, async (job) => {
       maxAttempts: job.opts.attempts,
     });
 
+    // A job can be queued again once the first one has been removed from the queue; never send twice
+    const [alreadySent] = await db.select({ id: emailLogs.id })
+      .from(emailLogs)
+      .where(and(
+        eq(emailLogs.content_id, contentId),
+        eq(emailLogs.subscriber_id, subscriberId),
+        eq(emailLogs.status, 'sent')
+      ))
+      .limit(1);
+    if (alreadySent) {
+      logger.info('Skipping email job already sent', { jobId: job.id, contentId, subscriberId });
+      return { success: true, duplicate: true };
+    }
+
+    // Jobs queued before topicId was added to the payload fall back to a lookup
+    let target: AudienceTarget | undefined = job.data.topicId || job.data.segmentId
+      ? { topic_id: job.data.topicId ?? null, segment_id: job.data.segmentId ?? null }
+      : undefined;
+    if (!target) {
+      const [contentTarget] = await db.select({ topic_id: content.topic_id, segment_id: content.segment_id })
+        .from(content)
+        .where(eq(content.id, contentId))
+        .limit(1);
+      target = contentTarget;
+    }
+
+    // The subscriber may have been deactivated, paused or left unconfirmed since the job was queued
+    const recipient = await audienceService.getDeliverableSubscriber(subscriberId, target);
+    if (!recipient) {
+      logger.warn('Skipping email job for undeliverable subscriber', {
+        jobId: job.id,
+        contentId,
+        subscriberId,
+      });
+      // Skipped recipients leave the audience, so this may have been the last one outstanding
+      await completionService.checkContentCompletion(contentId);
+      return { success: false, skipped: true };
+    }
+
+    const suppression = await suppressionService.check(recipient.email);
+    if (suppression) {
+      await suppressionService.recordSuppressed(contentId, [{ subscriberId, suppression }]);
+      logger.info('Skipping email job for suppressed recipient', {
+        jobId: job.id,
+        contentId,
+        subscriberId,
+        suppressionId: suppression.id,
+      });
+      await completionService.checkContentCompletion(contentId);
+      return { success: false, suppressed: true };
+    }
+
+    const mergeValues = { ...recipient.attributes, email: recipient.email };
+
+    // The layout is looked up now rather than when queueing, so layout changes reach queued jobs too.
+    // Merge tags are rendered after the body is in place, so the layout can use them as well.
+    const layout = await layoutService.getContentLayout(contentId);
+
     const result = await emailService.sendEmail(
       subscriberEmail,
-      title || 'Newsletter',
-      body
+      renderMergeTags(title || 'Newsletter', mergeValues),
+      renderMergeTags(layout?.text ? applyLayout(layout.text, body) : body, mergeValues),
+      // The HTML part is always built here, so merge values can be escaped for it
+      renderMergeTags(
+        layout ? applyLayout(layout.html, formatBodyHtml(body)) : defaultHtmlShell(formatBodyHtml(body)),
+        mergeValues,
+        escapeHtml
+      ),
+      {
+        unsubscribeUrl: target?.topic_id
+          ? unsubscribeService.buildUrl(subscriberId, await audienceService.getCoveringTopicId(subscriberId, target.topic_id))
+          : await unsubscribeService.buildSubscriptionsUrl(subscriberId),
+        preferencesUrl: preferencesService.buildUrl(subscriberId),
+        tracking: engagementService.buildTracking(subscriberId, [contentId]),
+        // Segment content has no topic and goes out from the default sender
+        sender: target?.topic_id ? await topicService.getSenderIdentity(target.topic_id) : undefined,
+      }
     );
 
     const processingTime = Date.now() - startTime;
@@ -75,60 +162,14 @@ emailQueue.process('send-newsletter', 10, async (job) => {
       processingTimeMs: processingTime,
     });
 
+    if (waveId) {
+      await deliveryWaveService.recordOutcome(waveId, 'sent');
+    }
+
     const shouldCheckCompletion = Math.random() < 0.1 || job.attemptsMade === 0;
     
     if (shouldCheckCompletion) {
-      const [contentItem] = await db.select({ topic_id: content.topic_id })
-        .from(content)
-        .where(eq(content.id, contentId))
-        .limit(1);
-
-      if (contentItem) {
-        const [sentCountResult, activeSubscriptions] = await Promise.all([
-          db
-            .select({ count: count() })
-            .from(emailLogs)
-            .where(and(
-              eq(emailLogs.content_id, contentId),
-              eq(emailLogs.status, 'sent')
-            )),
-          db
-            .select()
-            .from(subscriptions)
-            .innerJoin(subscribers, eq(subscriptions.subscriber_id, subscribers.id))
-            .where(and(
-              eq(subscriptions.topic_id, contentItem.topic_id),
-              eq(subscribers.is_active, true)
-            )),
-        ]);
-
-        const sentCount = sentCountResult[0]?.count || 0;
-        const totalSubscribers = activeSubscriptions.length;
-
-        logger.info('Email progress for content', {
-          contentId,
-          sentCount,
-          totalSubscribers,
-          remaining: totalSubscribers - sentCount,
-          progressPercent: totalSubscribers > 0 ? Math.round((sentCount / totalSubscribers) * 100) : 0,
-        });
-
-        if (sentCount > 0 && totalSubscribers > 0 && sentCount >= totalSubscribers) {
-          await db.update(content)
-            .set({
-              is_sent: true,
-              status: 'sent',
-              sent_at: new Date(),
-            })
-            .where(eq(content.id, contentId));
-
-          logger.info('All emails sent for content - marking as complete', {
-            contentId,
-            totalSent: sentCount,
-            totalSubscribers,
-          });
-        }
-      }
+      await completionService.checkContentCompletion(contentId);
     }
 
     return { success: true, messageId: result.messageId };
@@ -171,6 +212,166 @@ emailQueue.process('send-newsletter', 10, async (job) => {
       });
     }
 
+    const isFinalAttempt = (job.attemptsMade + 1) >= (job.opts.attempts || 3);
+    const isHardBounce = error instanceof SmtpError
+      && !!error.responseCode
+      && bounceService.classifySmtpCode(error.responseCode) === 'hard';
+
+    // Permanent rejections are not retried; transient ones only count once retries are exhausted
+    if (error instanceof SmtpError && error.responseCode && (isHardBounce || isFinalAttempt)) {
+      try {
+        await bounceService.recordSmtpFailure(subscriberEmail, contentId, subscriberId, error);
+      } catch (bounceError) {
+        logger.error('Failed to record bounce', {
+          contentId,
+          subscriberId,
+          error: (bounceError as Error).message,
+        });
+      }
+    }
+
+    if (isHardBounce) {
+      await job.discard();
+    }
+
+    if (waveId && (isHardBounce || isFinalAttempt)) {
+      await deliveryWaveService.recordOutcome(waveId, 'failed').catch(() => {});
+    }
+
+    throw error;
+  }
+});
+
+// Shares the rate limiter with single sends so digests count against the same SMTP budget
+digestQueue.process('send-digest', 2, async (job) => {
+  const { subscriberId, frequency } = job.data;
+  let items: DigestItem[] = [];
+  let recipientEmail: string | null = null;
+
+  try {
+    const recipient = await audienceService.getDeliverableSubscriber(subscriberId);
+    if (!recipient) {
+      logger.warn('Skipping digest for undeliverable subscriber', { jobId: job.id, subscriberId, frequency });
+      return { success: false, skipped: true };
+    }
+    recipientEmail = recipient.email;
+
+    items = await digestService.getPendingItems(subscriberId, frequency);
+    if (items.length === 0) {
+      return { success: false, empty: true };
+    }
+
+    const suppression = await suppressionService.check(recipient.email);
+    if (suppression) {
+      for (const item of items) {
+        await suppressionService.recordSuppressed(item.content_id, [{ subscriberId, suppression }]);
+      }
+      logger.info('Skipping digest for suppressed recipient', {
+        jobId: job.id,
+        subscriberId,
+        suppressionId: suppression.id,
+      });
+      return { success: false, suppressed: true };
+    }
+
+    await rateLimiter.rateLimit();
+
+    const digest = digestService.render(frequency, items, recipient);
+    const topicIds = [...new Set(items.map(item => item.subscribed_topic_id))];
+
+    const result = await emailService.sendEmail(recipient.email, digest.subject, digest.text, digest.html, {
+      unsubscribeUrl: unsubscribeService.buildDigestUrl(subscriberId, topicIds),
+      preferencesUrl: preferencesService.buildUrl(subscriberId),
+      // Opens and clicks in a digest count for every item in it
+      tracking: engagementService.buildTracking(subscriberId, items.map(item => item.content_id)),
+    });
+
+    const digestId = await digestService.recordSent(subscriberId, frequency, items, result.messageId);
+
+    logger.info('Digest sent successfully', {
+      jobId: job.id,
+      digestId,
+      subscriberId,
+      frequency,
+      itemCount: items.length,
+      messageId: result.messageId,
+    });
+
+    return { success: true, messageId: result.messageId, digestId };
+  } catch (error) {
+    const errorMessage = (error as Error).message;
+    const isFinalAttempt = (job.attemptsMade + 1) >= (job.opts.attempts || 3);
+    const isHardBounce = error instanceof SmtpError
+      && !!error.responseCode
+      && bounceService.classifySmtpCode(error.responseCode) === 'hard';
+
+    logger.error('Failed to process digest job', {
+      jobId: job.id,
+      subscriberId,
+      frequency,
+      itemCount: items.length,
+      error: errorMessage,
+      attempt: job.attemptsMade + 1,
+      willRetry: !isFinalAttempt && !isHardBounce,
+    });
+
+    if (isHardBounce || isFinalAttempt) {
+      try {
+        await digestService.recordFailed(subscriberId, items, errorMessage);
+
+        if (error instanceof SmtpError && error.responseCode && recipientEmail && items.length > 0) {
+          await bounceService.recordSmtpFailure(recipientEmail, items[0].content_id, subscriberId, error);
+        }
+      } catch (recordError) {
+        logger.error('Failed to record digest failure', {
+          subscriberId,
+          error: (recordError as Error).message,
+        });
+      }
+    }
+
+    if (isHardBounce) {
+      await job.discard();
+    }
+
+    throw error;
+  }
+});
+
+// Sunset policy step one; step two (deactivation) is left to the next policy run
+reengagementQueue.process('send-reengagement', 1, async (job) => {
+  const { subscriberId } = job.data;
+
+  try {
+    const recipient = await audienceService.getDeliverableSubscriber(subscriberId);
+    if (!recipient || !(await engagementService.isReengagementDue(subscriberId))) {
+      logger.info('Skipping re-engagement email', { jobId: job.id, subscriberId });
+      return { success: false, skipped: true };
+    }
+
+    if (await suppressionService.check(recipient.email)) {
+      logger.info('Skipping re-engagement email for suppressed recipient', { jobId: job.id, subscriberId });
+      return { success: false, suppressed: true };
+    }
+
+    await rateLimiter.rateLimit();
+
+    const email = engagementService.renderReengagement(subscriberId);
+    const result = await emailService.sendEmail(recipient.email, email.subject, email.text, null, {
+      unsubscribeUrl: await unsubscribeService.buildSubscriptionsUrl(subscriberId),
+      preferencesUrl: preferencesService.buildUrl(subscriberId),
+      tracking: engagementService.buildTracking(subscriberId, []),
+    });
+
+    await engagementService.markReengagementSent(subscriberId);
+    return { success: true, messageId: result.messageId };
+  } catch (error) {
+    logger.error('Failed to process re-engagement job', {
+      jobId: job.id,
+      subscriberId,
+      error: (error as Error).message,
+      attempt: job.attemptsMade + 1,
+    });
     throw error;
   }
 });
@@ -1,12 +1,22 @@
 import cron from 'node-cron';
 import { eq, and, lte } from 'drizzle-orm';
 import db from '../config/database.js';
-import { content, subscriptions, subscribers } from '../models/schema.js';
+import { content } from '../models/schema.js';
 import emailQueue from '../config/queue.js';
+import audienceService, { AudienceMember, AudienceTarget } from './audienceService.js';
+import deliveryWaveService from './deliveryWaveService.js';
+import completionService from './completionService.js';
+import confirmationService from './confirmationService.js';
+import suppressionService from './suppressionService.js';
+import bounceService from './bounceService.js';
+import digestService from './digestService.js';
+import engagementService from './engagementService.js';
+import feedService from './feedService.js';
 import logger from '../config/logger.js';
 
 class SchedulerService {
   private isRunning: boolean = false;
+  private isPollingFeeds: boolean = false;
 
   start(): void {
     logger.info('Starting scheduler service');
@@ -20,6 +30,7 @@ class SchedulerService {
       this.isRunning = true;
       try {
         await this.processPendingContent();
+        await this.processLocalTimeWaves();
       } catch (error) {
         logger.error('Error in scheduler', {
           error: (error as Error).message,
@@ -30,6 +41,73 @@ class SchedulerService {
       }
     });
 
+    cron.schedule('0 * * * *', async () => {
+      try {
+        await confirmationService.purgeExpired();
+      } catch (error) {
+        logger.error('Error purging unconfirmed subscribers', {
+          error: (error as Error).message,
+        });
+      }
+    });
+
+    // Hourly, because each subscriber's digest hour arrives at a different UTC time
+    cron.schedule('0 * * * *', async () => {
+      try {
+        await digestService.queueDueDigests(new Date());
+      } catch (error) {
+        logger.error('Error queueing digests', {
+          error: (error as Error).message,
+        });
+      }
+    });
+
+    // Each feed is polled once FEED_POLL_INTERVAL_MINUTES have passed; this only decides how soon that is noticed
+    cron.schedule('*/5 * * * *', async () => {
+      if (this.isPollingFeeds) {
+        logger.warn('Previous feed poll still in progress, skipping');
+        return;
+      }
+
+      this.isPollingFeeds = true;
+      try {
+        await feedService.pollDueFeeds(new Date());
+      } catch (error) {
+        logger.error('Error polling feeds', {
+          error: (error as Error).message,
+        });
+      } finally {
+        this.isPollingFeeds = false;
+      }
+    });
+
+    // Opt-in, because it deactivates subscribers
+    if (process.env.SUNSET_ENABLED === 'true') {
+      cron.schedule('0 3 * * *', async () => {
+        try {
+          await engagementService.runSunsetPolicy(new Date());
+        } catch (error) {
+          logger.error('Error running sunset policy', {
+            error: (error as Error).message,
+          });
+        }
+      });
+    }
+
+    const bounceMaildir = process.env.BOUNCE_MAILDIR;
+    if (bounceMaildir) {
+      cron.schedule('*/5 * * * *', async () => {
+        try {
+          await bounceService.processMaildir(bounceMaildir);
+        } catch (error) {
+          logger.error('Error processing bounce maildir', {
+            maildir: bounceMaildir,
+            error: (error as Error).message,
+          });
+        }
+      });
+    }
+
     logger.info('Scheduler service started (runs every minute)');
   }
 
@@ -40,9 +118,12 @@ class SchedulerService {
       const contents = await db.select({
         id: content.id,
         topic_id: content.topic_id,
+        segment_id: content.segment_id,
         title: content.title,
         body: content.body,
         scheduled_time: content.scheduled_time,
+        delivery_mode: content.delivery_mode,
+        local_send_time: content.local_send_time,
       })
         .from(content)
         .where(and(
@@ -69,6 +150,7 @@ class SchedulerService {
           contentId: contentItem.id,
           title: contentItem.title,
           topicId: contentItem.topic_id,
+          segmentId: contentItem.segment_id,
           scheduledTime: scheduledTime.toISOString(),
           timeUntilScheduled: timeUntilScheduled > 0 ? `${Math.round(timeUntilScheduled / 1000)}s` : 'overdue',
         });
@@ -85,100 +167,177 @@ class SchedulerService {
 
         logger.info('Content status updated to processing', { contentId: contentItem.id });
 
-        const subscriptionData = await db
-          .select({
-            subscriber_id: subscriptions.subscriber_id,
-            subscriber: {
-              id: subscribers.id,
-              email: subscribers.email,
-              is_active: subscribers.is_active,
-            },
-          })
-          .from(subscriptions)
-          .innerJoin(subscribers, eq(subscriptions.subscriber_id, subscribers.id))
-          .where(and(
-            eq(subscriptions.topic_id, contentItem.topic_id),
-            eq(subscribers.is_active, true)
-          ));
-
-        if (!subscriptionData || subscriptionData.length === 0) {
-          logger.warn('No active subscribers found for content, marking as sent', {
+        if (contentItem.delivery_mode === 'local_time') {
+          // Waves are planned now and released by processLocalTimeWaves as each zone's clock arrives
+          const planned = await deliveryWaveService.planWaves(contentItem);
+          logger.info('Local-time content fanned out into waves', {
             contentId: contentItem.id,
-            topicId: contentItem.topic_id,
+            localSendTime: contentItem.local_send_time,
+            waves: planned,
           });
-          await db.update(content)
-            .set({
-              is_sent: true,
-              status: 'sent',
-              sent_at: new Date(),
-            })
-            .where(eq(content.id, contentItem.id));
           continue;
         }
 
-        logger.info('Adding emails to queue', {
+        const audience = await audienceService.getAudience(contentItem);
+        const { deliverable } = await this.enqueueAudience(contentItem, audience);
+
+        if (deliverable === 0) {
+          await this.markSent(contentItem);
+        }
+      }
+    } catch (error) {
+      logger.error('Error processing pending content', {
+        error: (error as Error).message,
+      });
+      throw error;
+    }
+  }
+
+  private async processLocalTimeWaves(): Promise<void> {
+    const now = new Date();
+    const contents = await deliveryWaveService.getProcessingLocalTimeContent();
+
+    for (const contentItem of contents) {
+      // Picks up zones that joined the audience after the first fan-out
+      await deliveryWaveService.planWaves(contentItem);
+
+      const dueWaves = await deliveryWaveService.getDueWaves(contentItem.id, now);
+      for (const wave of dueWaves) {
+        const audience = await audienceService.getAudience(contentItem, wave.timezone);
+        const { queued } = await this.enqueueAudience(contentItem, audience, wave.id);
+        await deliveryWaveService.markQueued(wave.id, audience.length, queued);
+
+        logger.info('Delivery wave queued', {
           contentId: contentItem.id,
-          title: contentItem.title,
-          subscriberCount: subscriptionData.length,
-          subscriberEmails: subscriptionData.map(s => s.subscriber?.email).filter(Boolean),
+          waveId: wave.id,
+          timezone: wave.timezone,
+          sendAt: wave.send_at.toISOString(),
+          subscriberCount: audience.length,
+          queuedCount: queued,
         });
+      }
 
-        const queuePromises = subscriptionData
-          .filter(subscription => subscription.subscriber)
-          .map(subscription => {
-            const subscriber = subscription.subscriber!;
-            return emailQueue.add(
-              'send-newsletter',
-              {
-                contentId: contentItem.id,
-                subscriberId: subscriber.id,
-                subscriberEmail: subscriber.email,
-                title: contentItem.title || 'Newsletter',
-                body: contentItem.body,
-              },
-              {
-                attempts: 3,
-                backoff: {
-                  type: 'exponential',
-                  delay: 2000,
-                },
-              }
-            ).catch(error => {
-              logger.error('Failed to add email job to queue', {
-                contentId: contentItem.id,
-                subscriberId: subscriber.id,
-                subscriberEmail: subscriber.email,
-                error: (error as Error).message,
-              });
-              return null;
-            });
-          });
+      if (dueWaves.length === 0) {
+        // Nobody in the audience at all, so there will never be a wave to release
+        if ((await deliveryWaveService.getWaves(contentItem.id)).length === 0) {
+          await this.markSent(contentItem);
+        }
+        continue;
+      }
 
-        const results = await Promise.allSettled(queuePromises);
-        const queuedCount = results.filter(r => r.status === 'fulfilled' && r.value !== null).length;
-        const failedCount = results.length - queuedCount;
+      if (await deliveryWaveService.countPendingWaves(contentItem.id) === 0) {
+        // Subscribers who changed time zone after their wave was planned are caught here. Completed jobs are
+        // removed from the queue after a while, so job ids alone cannot stop earlier waves being sent twice.
+        const audience = await audienceService.getOutstandingAudience(contentItem);
+        const { deliverable } = await this.enqueueAudience(contentItem, audience);
 
-        if (failedCount > 0) {
-          logger.warn('Some emails failed to queue', {
-            contentId: contentItem.id,
-            failedCount,
-            totalCount: subscriptionData.length,
-          });
+        if (deliverable === 0) {
+          await this.markSent(contentItem);
+        } else {
+          await completionService.checkContentCompletion(contentItem.id);
         }
+      }
+    }
+  }
 
-        logger.info('All emails queued for content', {
-          contentId: contentItem.id,
-          queuedCount,
-          failedCount,
-          totalSubscribers: subscriptionData.length,
+  private async enqueueAudience(
+    contentItem: AudienceTarget & { id: number; title: string | null; body: string },
+    audience: AudienceMember[],
+    waveId?: number
+  ): Promise<{ deliverable: number; queued: number }> {
+    const suppressed = await suppressionService.findSuppressed(audience.map(s => s.email));
+    await suppressionService.recordSuppressed(
+      contentItem.id,
+      audience
+        .filter(s => suppressed.has(s.email))
+        .map(s => ({ subscriberId: s.id, suppression: suppressed.get(s.email)! }))
+    );
+    const subscriptionData = audience.filter(s => !suppressed.has(s.email));
+
+    if (subscriptionData.length === 0) {
+      return { deliverable: 0, queued: 0 };
+    }
+
+    logger.info('Adding emails to queue', {
+      contentId: contentItem.id,
+      title: contentItem.title,
+      waveId,
+      subscriberCount: subscriptionData.length,
+      subscriberEmails: subscriptionData.map(s => s.email),
+    });
+
+    const queuePromises = subscriptionData
+      .map(subscriber => {
+        return emailQueue.add(
+          'send-newsletter',
+          {
+            contentId: contentItem.id,
+            topicId: contentItem.topic_id ?? undefined,
+            segmentId: contentItem.segment_id ?? undefined,
+            waveId,
+            subscriberId: subscriber.id,
+            subscriberEmail: subscriber.email,
+            title: contentItem.title || 'Newsletter',
+            body: contentItem.body,
+          },
+          {
+            // One job per recipient and content, so a subscriber is never queued twice
+            jobId: `newsletter-${contentItem.id}-${subscriber.id}`,
+            attempts: 3,
+            backoff: {
+              type: 'exponential',
+              delay: 2000,
+            },
+          }
+        ).catch(error => {
+          logger.error('Failed to add email job to queue', {
+            contentId: contentItem.id,
+            topicId: contentItem.topic_id,
+            segmentId: contentItem.segment_id,
+            subscriberId: subscriber.id,
+            subscriberEmail: subscriber.email,
+            error: (error as Error).message,
+          });
+          return null;
         });
-      }
-    } catch (error) {
-      logger.error('Error processing pending content', {
-        error: (error as Error).message,
       });
-      throw error;
+
+    const results = await Promise.allSettled(queuePromises);
+    const queuedCount = results.filter(r => r.status === 'fulfilled' && r.value !== null).length;
+    const failedCount = results.length - queuedCount;
+
+    if (failedCount > 0) {
+      logger.warn('Some emails failed to queue', {
+        contentId: contentItem.id,
+        failedCount,
+        totalCount: subscriptionData.length,
+      });
     }
+
+    logger.info('All emails queued for content', {
+      contentId: contentItem.id,
+      waveId,
+      queuedCount,
+      failedCount,
+      totalSubscribers: subscriptionData.length,
+    });
+
+    return { deliverable: subscriptionData.length, queued: queuedCount };
+  }
+
+  private async markSent(contentItem: AudienceTarget & { id: number }): Promise<void> {
+    logger.warn('No deliverable subscribers found for content, marking as sent', {
+      contentId: contentItem.id,
+      topicId: contentItem.topic_id,
+      segmentId: contentItem.segment_id,
+    });
+    await db.update(content)
+      .set({
+        is_sent: true,
+        status: 'sent',
+        sent_at: new Date(),
+      })
+      .where(eq(content.id, contentItem.id));
   }
 
   stop(): void {
@@ -0,0 +1,122 @@
+import { eq, asc, and, count, inArray } from 'drizzle-orm';
+import db from '../config/database.js';
+import { segments, content, topics, subscribers } from '../models/schema.js';
+import audienceService, { AudienceMember } from './audienceService.js';
+import { validateSegmentRule, collectReferences, SegmentRule, SegmentRuleValidation } from '../utils/segmentRules.js';
+import logger from '../config/logger.js';
+
+type Segment = typeof segments.$inferSelect;
+
+export interface SegmentInput {
+  name: string;
+  description?: string | null;
+  rules: SegmentRule;
+}
+
+export interface SegmentPreview {
+  count: number;
+  sample: AudienceMember[];
+}
+
+export type SegmentDeleteResult = 'deleted' | 'not_found' | 'in_use';
+
+class SegmentService {
+  // Structural validation plus a check that every topic and content id the rules mention exists
+  async validateRules(input: unknown): Promise<SegmentRuleValidation> {
+    const validation = validateSegmentRule(input);
+    if (!validation.valid) {
+      return validation;
+    }
+
+    const { topicIds, contentIds } = collectReferences(validation.rule);
+
+    if (topicIds.length > 0) {
+      const found = await db.select({ id: topics.id }).from(topics).where(inArray(topics.id, topicIds));
+      const missing = topicIds.filter(id => !found.some(row => row.id === id));
+      if (missing.length > 0) {
+        return { valid: false, error: `Unknown topic ids: ${missing.join(', ')}` };
+      }
+    }
+
+    if (contentIds.length > 0) {
+      const found = await db.select({ id: content.id }).from(content).where(inArray(content.id, contentIds));
+      const missing = contentIds.filter(id => !found.some(row => row.id === id));
+      if (missing.length > 0) {
+        return { valid: false, error: `Unknown content ids: ${missing.join(', ')}` };
+      }
+    }
+
+    return validation;
+  }
+
+  async list(): Promise<Segment[]> {
+    return db.select().from(segments).orderBy(asc(segments.name));
+  }
+
+  async get(id: number): Promise<Segment | null> {
+    const [segment] = await db.select().from(segments).where(eq(segments.id, id)).limit(1);
+    return segment || null;
+  }
+
+  async create(input: SegmentInput): Promise<Segment> {
+    const [segment] = await db.insert(segments).values({
+      name: input.name,
+      description: input.description ?? null,
+      rules: input.rules,
+    }).returning();
+
+    logger.info('Segment created', { id: segment.id, name: segment.name });
+    return segment;
+  }
+
+  // Content already queued keeps going to whoever matches the rules as they stand when each job runs
+  async update(id: number, changes: Partial<SegmentInput>): Promise<Segment | null> {
+    const [segment] = await db.update(segments)
+      .set({ ...changes, updated_at: new Date() })
+      .where(eq(segments.id, id))
+      .returning();
+
+    if (segment) {
+      logger.info('Segment updated', { id });
+    }
+
+    return segment || null;
+  }
+
+  // Segments stay while any content targets them, so delivery history keeps its audience definition
+  async delete(id: number): Promise<SegmentDeleteResult> {
+    const [usage] = await db.select({ count: count() })
+      .from(content)
+      .where(eq(content.segment_id, id));
+
+    if ((usage?.count || 0) > 0) {
+      return 'in_use';
+    }
+
+    const result = await db.delete(segments).where(eq(segments.id, id)).returning({ id: segments.id });
+    if (result.length === 0) {
+      return 'not_found';
+    }
+
+    logger.info('Segment deleted', { id });
+    return 'deleted';
+  }
+
+  // Who the rules would reach if content were sent now
+  async preview(rule: SegmentRule, sampleSize: number): Promise<SegmentPreview> {
+    const conditions = audienceService.segmentConditions(rule);
+
+    const [[total], sample] = await Promise.all([
+      db.select({ count: count() }).from(subscribers).where(and(...conditions)),
+      db.select({ id: subscribers.id, email: subscribers.email })
+        .from(subscribers)
+        .where(and(...conditions))
+        .orderBy(asc(subscribers.id))
+        .limit(sampleSize),
+    ]);
+
+    return { count: total?.count || 0, sample };
+  }
+}
+
+export default new SegmentService();
@@ -0,0 +1,190 @@
+import { eq, ne, and, sql } from 'drizzle-orm';
+import db from '../config/database.js';
+import { subscribers, subscriptions, suppressions } from '../models/schema.js';
+import confirmationService from './confirmationService.js';
+import emailService from './emailService.js';
+import subscriptionService, { SubscribeResult } from './subscriptionService.js';
+import attributeService from './attributeService.js';
+import suppressionService from './suppressionService.js';
+import gdprService from './gdprService.js';
+import subscriberEventService, { EventContext, subscriberContext } from './subscriberEventService.js';
+import type { SubscriberAttributes } from '../utils/mergeTags.js';
+import { signToken, verifyToken } from '../utils/tokens.js';
+import { publicUrl } from '../utils/publicUrl.js';
+import logger from '../config/logger.js';
+
+type Subscriber = typeof subscribers.$inferSelect;
+
+const SIGNUP_FORM_TTL_HOURS = parseInt(process.env.SIGNUP_FORM_TTL_HOURS || '24');
+const CONFIRMATION_TTL_HOURS = parseInt(process.env.CONFIRMATION_TTL_HOURS || '48');
+
+interface SignupFormTokenData {
+  topicId: number;
+  issuedAt: number;
+}
+
+interface TopicConfirmTokenData {
+  subscriberId: number;
+  topicId: number;
+}
+
+export interface SignupInput {
+  email: string;
+  canonical: string;
+  attributes: SubscriberAttributes;
+  timezone?: string;
+  // Fields the caller supplied, recorded when an active subscriber signs up again
+  fields: string[];
+  // Skip the confirmation email when one went out for this address less than this many minutes ago
+  confirmationCooldownMinutes?: number;
+}
+
+export type SignupResult =
+  | { result: 'signed_up'; subscriber: Subscriber }
+  | { result: 'suppressed'; suppression: typeof suppressions.$inferSelect }
+  | { result: 'erased' }
+  | { result: 'duplicate'; subscriberId: number };
+
+class SignupService {
+  // Creates the subscriber, or updates one signing up again. Reactivating a previously deactivated
+  // address requires a fresh opt-in, so it goes back to pending and gets a new confirmation email; it stays
+  // inactive, with its sunset state untouched, until the link is opened. Anyone can submit an address.
+  async signUp(input: SignupInput, context: EventContext): Promise<SignupResult> {
+    const { email, canonical, attributes, timezone } = input;
+
+    const suppression = await suppressionService.check(email);
+    if (suppression) {
+      return { result: 'suppressed', suppression };
+    }
+
+    if (await gdprService.isErased(email)) {
+      return { result: 'erased' };
+    }
+
+    const [duplicate] = await db.select({ id: subscribers.id })
+      .from(subscribers)
+      .where(and(
+        eq(subscribers.canonical_email, canonical),
+        ne(subscribers.email, email)
+      ))
+      .limit(1);
+    if (duplicate) {
+      return { result: 'duplicate', subscriberId: duplicate.id };
+    }
+
+    const [previous] = await db.select({
+      status: subscribers.status,
+      confirmation_sent_at: subscribers.confirmation_sent_at,
+    })
+      .from(subscribers)
+      .where(eq(subscribers.email, email))
+      .limit(1);
+
+    const [subscriber] = await db.insert(subscribers).values({
+      email,
+      canonical_email: canonical,
+      is_active: true,
+      status: 'pending',
+      attributes: attributeService.merge({}, attributes),
+      timezone: timezone ?? null,
+    }).onConflictDoUpdate({
+      target: subscribers.email,
+      set: {
+        canonical_email: canonical,
+        ...(timezone !== undefined ? { timezone } : {}),
+        attributes: sql`${subscribers.attributes} || excluded.attributes`,
+        status: sql`CASE WHEN ${subscribers.is_active} THEN ${subscribers.status} ELSE 'pending'::subscriber_status END`,
+      },
+    }).returning();
+
+    await subscriberEventService.record(context, {
+      subscriberId: subscriber.id,
+      type: previous ? 'updated' : 'created',
+      details: previous ? { fields: input.fields } : {},
+    });
+
+    logger.info('Subscriber created', { id: subscriber.id, email: subscriber.email, status: subscriber.status });
+
+    const cooldownMs = (input.confirmationCooldownMinutes ?? 0) * 60 * 1000;
+    const recentlySent = previous?.status === 'pending' && previous.confirmation_sent_at !== null
+      && previous.confirmation_sent_at.getTime() > Date.now() - cooldownMs;
+
+    if (subscriber.status === 'pending' && !recentlySent) {
+      try {
+        await confirmationService.sendConfirmation(subscriber);
+      } catch (error) {
+        logger.error('Error sending confirmation email', {
+          subscriberId: subscriber.id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return { result: 'signed_up', subscriber };
+  }
+
+  // A confirmed subscriber signing up to another topic through the public form must confirm it by email,
+  // or anyone who knows an address could subscribe it to every topic. Nothing is sent when already subscribed.
+  async requestTopicConfirmation(subscriber: { id: number; email: string }, topic: { id: number; name: string }): Promise<void> {
+    const [existing] = await db.select({ topic_id: subscriptions.topic_id })
+      .from(subscriptions)
+      .where(and(eq(subscriptions.subscriber_id, subscriber.id), eq(subscriptions.topic_id, topic.id)))
+      .limit(1);
+    if (existing) {
+      return;
+    }
+
+    const token = signToken<TopicConfirmTokenData>(
+      'subscribe',
+      { subscriberId: subscriber.id, topicId: topic.id },
+      CONFIRMATION_TTL_HOURS * 3600
+    );
+    const confirmUrl = publicUrl(`/api/signup/confirm/${token}`);
+
+    await emailService.sendEmail(
+      subscriber.email,
+      `Please confirm your subscription to ${topic.name}`,
+      [
+        `Someone asked to subscribe this address to ${topic.name}.`,
+        '',
+        'To start receiving it, open the link below:',
+        confirmUrl,
+        '',
+        `This link expires in ${CONFIRMATION_TTL_HOURS} hours. If you did not ask for this, you can ignore this email.`,
+      ].join('\n')
+    );
+
+    logger.info('Topic confirmation email sent', { subscriberId: subscriber.id, topicId: topic.id });
+  }
+
+  // Null for a missing, expired or tampered token
+  async confirmTopic(token: string): Promise<SubscribeResult | null> {
+    const data = verifyToken<TopicConfirmTokenData>('subscribe', token);
+    if (!data) {
+      return null;
+    }
+
+    const outcome = await subscriptionService.subscribe(data.subscriberId, data.topicId, 'immediate', subscriberContext('signup_form'));
+
+    // Opening the link is engagement enough to restart the sunset clock
+    if (outcome.result === 'subscribed' || outcome.result === 'already_subscribed') {
+      await db.update(subscribers)
+        .set({ reengagement_sent_at: null })
+        .where(eq(subscribers.id, data.subscriberId));
+    }
+    return outcome;
+  }
+
+  // Served with every signup form, so submissions can be timed and tied to the form's topic
+  issueFormToken(topicId: number): string {
+    return signToken<SignupFormTokenData>('signup', { topicId, issuedAt: Date.now() }, SIGNUP_FORM_TTL_HOURS * 3600);
+  }
+
+  // When the form was served, or null for a missing, expired or tampered token or one for another topic
+  verifyFormToken(token: unknown, topicId: number): number | null {
+    const data = typeof token === 'string' ? verifyToken<SignupFormTokenData>('signup', token) : null;
+    return data && data.topicId === topicId ? data.issuedAt : null;
+  }
+}
+
+export default new SignupService();
@@ -0,0 +1,60 @@
+import { eq, and, lt, desc } from 'drizzle-orm';
+import db from '../config/database.js';
+import { subscriberEvents, subscriberEventTypeEnum, subscriberEventSourceEnum } from '../models/schema.js';
+
+type SubscriberEvent = typeof subscriberEvents.$inferSelect;
+
+export type SubscriberEventType = typeof subscriberEventTypeEnum.enumValues[number];
+export type SubscriberEventSource = typeof subscriberEventSourceEnum.enumValues[number];
+
+// Where a change came from and who made it. API callers identify themselves with the X-Actor header;
+// changes subscribers make through their own links have actor "subscriber".
+export interface EventContext {
+  source: SubscriberEventSource;
+  actor?: string | null;
+}
+
+export interface NewSubscriberEvent {
+  subscriberId: number;
+  type: SubscriberEventType;
+  topicId?: number | null;
+  details?: Record<string, unknown>;
+}
+
+// Accepts a transaction so events commit together with the change they describe
+type Executor = Pick<typeof db, 'insert'>;
+
+export const subscriberContext = (source: SubscriberEventSource): EventContext => ({ source, actor: 'subscriber' });
+
+class SubscriberEventService {
+  // Append-only: events are never updated, and only removed along with the subscriber
+  async record(context: EventContext, events: NewSubscriberEvent | NewSubscriberEvent[], executor: Executor = db): Promise<void> {
+    const rows = Array.isArray(events) ? events : [events];
+    if (rows.length === 0) {
+      return;
+    }
+
+    await executor.insert(subscriberEvents).values(rows.map(event => ({
+      subscriber_id: event.subscriberId,
+      type: event.type,
+      source: context.source,
+      actor: context.actor?.slice(0, 255) || null,
+      topic_id: event.topicId ?? null,
+      details: event.details ?? {},
+    })));
+  }
+
+  // Newest first; `before` is the id of the last event on the previous page
+  async list(subscriberId: number, limit: number, before?: number): Promise<SubscriberEvent[]> {
+    return db.select()
+      .from(subscriberEvents)
+      .where(and(
+        eq(subscriberEvents.subscriber_id, subscriberId),
+        before !== undefined ? lt(subscriberEvents.id, before) : undefined
+      ))
+      .orderBy(desc(subscriberEvents.id))
+      .limit(limit);
+  }
+}
+
+export default new SubscriberEventService();
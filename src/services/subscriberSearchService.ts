@@ -0,0 +1,156 @@
+import { eq, and, gte, lte, lt, gt, asc, desc, count, ilike, inArray, sql, SQL } from 'drizzle-orm';
+import db from '../config/database.js';
+import { subscribers, subscriptions } from '../models/schema.js';
+
+export const SORTABLE_COLUMNS = ['created_at', 'email', 'id'] as const;
+export type SortColumn = typeof SORTABLE_COLUMNS[number];
+export type SortOrder = 'asc' | 'desc';
+
+export interface SubscriberSearchFilters {
+  q?: string;
+  domain?: string;
+  topicId?: number;
+  isActive?: boolean;
+  createdAfter?: Date;
+  createdBefore?: Date;
+}
+
+export interface SubscriberSearchOptions {
+  filters: SubscriberSearchFilters;
+  sort: SortColumn;
+  order: SortOrder;
+  limit: number;
+  includeTotal: boolean;
+}
+
+export interface SubscriberSearchPage {
+  data: (typeof subscribers.$inferSelect)[];
+  next_cursor: string | null;
+  total?: number;
+}
+
+interface CursorData {
+  sort: SortColumn;
+  order: SortOrder;
+  value: string;
+  id: number;
+}
+
+const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+const sortColumn = (sort: SortColumn) => {
+  switch (sort) {
+    case 'email':
+      return subscribers.email;
+    case 'id':
+      return subscribers.id;
+    default:
+      return subscribers.created_at;
+  }
+};
+
+class SubscriberSearchService {
+  encodeCursor(data: CursorData): string {
+    return Buffer.from(JSON.stringify(data)).toString('base64url');
+  }
+
+  // Returns null for cursors that are malformed or were issued for a different sort
+  decodeCursor(cursor: string, sort: SortColumn, order: SortOrder): CursorData | null {
+    try {
+      const data = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as CursorData;
+      if (data.sort !== sort || data.order !== order || typeof data.id !== 'number') {
+        return null;
+      }
+      if (typeof data.value !== 'string' || (sort === 'created_at' && isNaN(new Date(data.value).getTime()))) {
+        return null;
+      }
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private filterConditions(filters: SubscriberSearchFilters): SQL<unknown>[] {
+    const conditions: SQL<unknown>[] = [];
+
+    if (filters.q) {
+      conditions.push(ilike(subscribers.email, `%${escapeLikePattern(filters.q.toLowerCase())}%`));
+    }
+    if (filters.domain) {
+      // Matches the subscribers_email_domain_idx expression index
+      conditions.push(sql`split_part(${subscribers.email}, '@', 2) = ${filters.domain.toLowerCase()}`);
+    }
+    if (filters.topicId !== undefined) {
+      conditions.push(inArray(
+        subscribers.id,
+        db.select({ id: subscriptions.subscriber_id })
+          .from(subscriptions)
+          .where(eq(subscriptions.topic_id, filters.topicId))
+      ));
+    }
+    if (filters.isActive !== undefined) {
+      conditions.push(eq(subscribers.is_active, filters.isActive));
+    }
+    if (filters.createdAfter) {
+      conditions.push(gte(subscribers.created_at, filters.createdAfter));
+    }
+    if (filters.createdBefore) {
+      conditions.push(lte(subscribers.created_at, filters.createdBefore));
+    }
+
+    return conditions;
+  }
+
+  // Keyset pagination on (sort column, id) so deep pages cost the same as the first one
+  async search(options: SubscriberSearchOptions, cursor: CursorData | null): Promise<SubscriberSearchPage> {
+    const column = sortColumn(options.sort);
+    const direction = options.order === 'asc' ? asc : desc;
+    const conditions = this.filterConditions(options.filters);
+    const pageConditions = [...conditions];
+
+    if (cursor) {
+      const after = options.order === 'asc' ? gt : lt;
+      if (options.sort === 'id') {
+        pageConditions.push(after(subscribers.id, cursor.id));
+      } else {
+        const value = options.sort === 'created_at' ? sql`${cursor.value}::timestamp` : sql`${cursor.value}`;
+        pageConditions.push(options.order === 'asc'
+          ? sql`(${column}, ${subscribers.id}) > (${value}, ${cursor.id})`
+          : sql`(${column}, ${subscribers.id}) < (${value}, ${cursor.id})`);
+      }
+    }
+
+    const [rows, totalResult] = await Promise.all([
+      // created_at is read back as text because JS dates would drop its microseconds
+      db.select({ subscriber: subscribers, sortValue: sql<string>`${column}::text` })
+        .from(subscribers)
+        .where(pageConditions.length > 0 ? and(...pageConditions) : undefined)
+        .orderBy(direction(column), direction(subscribers.id))
+        .limit(options.limit + 1),
+      options.includeTotal
+        ? db.select({ count: count() })
+          .from(subscribers)
+          .where(conditions.length > 0 ? and(...conditions) : undefined)
+        : Promise.resolve(null),
+    ]);
+
+    const hasMore = rows.length > options.limit;
+    const page = hasMore ? rows.slice(0, options.limit) : rows;
+    const last = page[page.length - 1];
+
+    return {
+      data: page.map(row => row.subscriber),
+      next_cursor: hasMore && last
+        ? this.encodeCursor({
+          sort: options.sort,
+          order: options.order,
+          value: last.sortValue,
+          id: last.subscriber.id,
+        })
+        : null,
+      ...(totalResult ? { total: totalResult[0]?.count || 0 } : {}),
+    };
+  }
+}
+
+export default new SubscriberSearchService();
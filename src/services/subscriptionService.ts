@@ -0,0 +1,116 @@
+import { eq, and, or } from 'drizzle-orm';
+import db from '../config/database.js';
+import { subscribers, subscriptions, topics, deliveryFrequencyEnum } from '../models/schema.js';
+import subscriberEventService, { EventContext } from './subscriberEventService.js';
+import logger from '../config/logger.js';
+
+type Subscription = typeof subscriptions.$inferSelect;
+
+export type DeliveryFrequency = Subscription['frequency'];
+
+export const DELIVERY_FREQUENCIES = deliveryFrequencyEnum.enumValues;
+
+export const isDeliveryFrequency = (value: unknown): value is DeliveryFrequency =>
+  DELIVERY_FREQUENCIES.includes(value as DeliveryFrequency);
+
+export type SubscribeResult =
+  | { result: 'subscribed'; subscription: Subscription }
+  | { result: 'already_subscribed' }
+  | { result: 'subscriber_not_found' }
+  | { result: 'topic_not_found' }
+  | { result: 'topic_archived' };
+
+class SubscriptionService {
+  async subscribe(
+    subscriberId: number,
+    topicId: number,
+    frequency: DeliveryFrequency = 'immediate',
+    context: EventContext
+  ): Promise<SubscribeResult> {
+    // A deactivated subscriber who signed up again stays inactive until confirming, but collects topics meanwhile
+    const [subscriber] = await db.select({ id: subscribers.id })
+      .from(subscribers)
+      .where(and(
+        eq(subscribers.id, subscriberId),
+        or(eq(subscribers.is_active, true), eq(subscribers.status, 'pending'))
+      ))
+      .limit(1);
+
+    if (!subscriber) {
+      return { result: 'subscriber_not_found' };
+    }
+
+    const [topic] = await db.select({ id: topics.id, archived_at: topics.archived_at })
+      .from(topics)
+      .where(eq(topics.id, topicId))
+      .limit(1);
+
+    if (!topic) {
+      return { result: 'topic_not_found' };
+    }
+
+    if (topic.archived_at) {
+      return { result: 'topic_archived' };
+    }
+
+    try {
+      const [subscription] = await db.insert(subscriptions).values({
+        subscriber_id: subscriberId,
+        topic_id: topicId,
+        frequency,
+      }).returning();
+
+      await subscriberEventService.record(context, { subscriberId, type: 'subscribed', topicId, details: { frequency } });
+
+      logger.info('Subscriber subscribed to topic', { subscriberId, topicId, frequency });
+      return { result: 'subscribed', subscription };
+    } catch (error: any) {
+      if (error.code === '23505') {
+        return { result: 'already_subscribed' };
+      }
+      throw error;
+    }
+  }
+
+  // Returns null when there was no such subscription
+  async setFrequency(
+    subscriberId: number,
+    topicId: number,
+    frequency: DeliveryFrequency,
+    context: EventContext
+  ): Promise<Subscription | null> {
+    const [subscription] = await db.update(subscriptions)
+      .set({ frequency })
+      .where(and(
+        eq(subscriptions.subscriber_id, subscriberId),
+        eq(subscriptions.topic_id, topicId)
+      ))
+      .returning();
+
+    if (subscription) {
+      await subscriberEventService.record(context, { subscriberId, type: 'frequency_changed', topicId, details: { frequency } });
+      logger.info('Subscription delivery frequency changed', { subscriberId, topicId, frequency });
+    }
+
+    return subscription || null;
+  }
+
+  // Returns false when there was no such subscription
+  async unsubscribe(subscriberId: number, topicId: number, context: EventContext): Promise<boolean> {
+    const result = await db.delete(subscriptions)
+      .where(and(
+        eq(subscriptions.subscriber_id, subscriberId),
+        eq(subscriptions.topic_id, topicId)
+      ))
+      .returning();
+
+    if (result.length > 0) {
+      await subscriberEventService.record(context, { subscriberId, type: 'unsubscribed', topicId });
+      logger.info('Subscriber unsubscribed from topic', { subscriberId, topicId });
+    }
+
+    return result.length > 0;
+  }
+}
+
+export default new SubscriptionService();
@@ -0,0 +1,145 @@
+import { eq, and, or, isNull, gt, inArray, desc, sql } from 'drizzle-orm';
+import db from '../config/database.js';
+import { suppressions, emailLogs } from '../models/schema.js';
+import logger from '../config/logger.js';
+
+type Suppression = typeof suppressions.$inferSelect;
+
+export interface NewSuppression {
+  type: 'address' | 'domain';
+  value: string;
+  reason?: string | null;
+  source?: string;
+  expiresAt?: Date | null;
+}
+
+const LOOKUP_CHUNK_SIZE = 1000;
+
+const domainOf = (email: string): string => email.slice(email.lastIndexOf('@') + 1);
+
+// mail.example.com is covered by a suppression on example.com
+const domainCandidates = (domain: string): string[] => {
+  const labels = domain.split('.');
+  const candidates: string[] = [];
+  for (let i = 0; i < labels.length - 1; i++) {
+    candidates.push(labels.slice(i).join('.'));
+  }
+  return candidates;
+};
+
+class SuppressionService {
+  private activeCondition() {
+    return or(isNull(suppressions.expires_at), gt(suppressions.expires_at, new Date()));
+  }
+
+  // Maps each suppressed address to the suppression that covers it
+  async findSuppressed(emails: string[]): Promise<Map<string, Suppression>> {
+    const matches = new Map<string, Suppression>();
+
+    for (let i = 0; i < emails.length; i += LOOKUP_CHUNK_SIZE) {
+      const chunk = emails.slice(i, i + LOOKUP_CHUNK_SIZE).map(email => email.toLowerCase());
+      const domains = [...new Set(chunk.flatMap(email => domainCandidates(domainOf(email))))];
+
+      const rows = await db.select()
+        .from(suppressions)
+        .where(and(
+          this.activeCondition(),
+          or(
+            and(eq(suppressions.type, 'address'), inArray(suppressions.value, chunk)),
+            domains.length > 0
+              ? and(eq(suppressions.type, 'domain'), inArray(suppressions.value, domains))
+              : undefined
+          )
+        ));
+
+      const byAddress = new Map(rows.filter(r => r.type === 'address').map(r => [r.value, r]));
+      const byDomain = new Map(rows.filter(r => r.type === 'domain').map(r => [r.value, r]));
+
+      for (const email of chunk) {
+        const match = byAddress.get(email)
+          ?? domainCandidates(domainOf(email)).map(domain => byDomain.get(domain)).find(Boolean);
+        if (match) {
+          matches.set(email, match);
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  async check(email: string): Promise<Suppression | null> {
+    return (await this.findSuppressed([email])).get(email.toLowerCase()) || null;
+  }
+
+  // Records the skipped send in email_logs so it counts towards the content's progress
+  async recordSuppressed(contentId: number, skipped: { subscriberId: number; suppression: Suppression }[]): Promise<void> {
+    if (skipped.length === 0) {
+      return;
+    }
+
+    for (let i = 0; i < skipped.length; i += LOOKUP_CHUNK_SIZE) {
+      const chunk = skipped.slice(i, i + LOOKUP_CHUNK_SIZE);
+      await db.insert(emailLogs)
+        .values(chunk.map(entry => ({
+          content_id: contentId,
+          subscriber_id: entry.subscriberId,
+          status: 'suppressed' as const,
+          error_message: this.describe(entry.suppression),
+        })))
+        .onConflictDoUpdate({
+          target: [emailLogs.content_id, emailLogs.subscriber_id],
+          set: {
+            status: 'suppressed',
+            error_message: sql`excluded.error_message`,
+          },
+        });
+    }
+
+    logger.info('Suppressed recipients skipped', { contentId, count: skipped.length });
+  }
+
+  describe(suppression: Suppression): string {
+    const reason = suppression.reason ? `: ${suppression.reason}` : '';
+    return `Suppressed (${suppression.type} ${suppression.value}, ${suppression.source})${reason}`;
+  }
+
+  async list(activeOnly: boolean): Promise<Suppression[]> {
+    return db.select()
+      .from(suppressions)
+      .where(activeOnly ? this.activeCondition() : undefined)
+      .orderBy(desc(suppressions.created_at));
+  }
+
+  // Re-adding an existing entry refreshes its reason, source and expiry
+  async add(entry: NewSuppression, executor: Pick<typeof db, 'insert'> = db): Promise<Suppression> {
+    const values = {
+      type: entry.type,
+      value: entry.value.trim().toLowerCase(),
+      reason: entry.reason ?? null,
+      source: entry.source || 'manual',
+      expires_at: entry.expiresAt ?? null,
+    };
+
+    const [suppression] = await executor.insert(suppressions)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [suppressions.type, suppressions.value],
+        set: {
+          reason: values.reason,
+          source: values.source,
+          expires_at: values.expires_at,
+        },
+      })
+      .returning();
+
+    logger.info('Suppression added', { id: suppression.id, type: suppression.type, source: suppression.source });
+    return suppression;
+  }
+
+  async remove(id: number): Promise<boolean> {
+    const result = await db.delete(suppressions).where(eq(suppressions.id, id)).returning();
+    return result.length > 0;
+  }
+}
+
+export default new SuppressionService();
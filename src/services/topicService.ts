@@ -0,0 +1,290 @@
+import { eq, desc, count, sql } from 'drizzle-orm';
+import db from '../config/database.js';
+import { topics, subscriptions, subscribers, content, emailLogs } from '../models/schema.js';
+import subscriberEventService, { EventContext } from './subscriberEventService.js';
+import { ancestry, createsCycle, buildTree, TopicNode, TopicTree } from '../utils/topicTree.js';
+import { resolveSenderIdentity, SenderIdentity } from '../utils/senderIdentity.js';
+import logger from '../config/logger.js';
+
+type Topic = typeof topics.$inferSelect;
+
+// Counts are strings, as they always have been in topic responses.
+// total_subscriber_count rolls up the topic and everything below it, counting each subscriber once.
+export interface TopicWithCounts extends Topic {
+  subscriber_count: string;
+  total_subscriber_count: string;
+}
+
+export interface TopicDetail extends TopicWithCounts {
+  ancestors: { id: number; name: string }[];
+  children: { id: number; name: string }[];
+}
+
+export type CreateTopicResult =
+  | { result: 'created'; topic: Topic }
+  | { result: 'parent_not_found' };
+
+export interface TopicUpdate {
+  name?: string;
+  description?: string | null;
+  parentId?: number | null;
+  sender?: Partial<SenderIdentity>;
+}
+
+export type UpdateTopicResult =
+  | { result: 'updated'; topic: Topic }
+  | { result: 'not_found' }
+  | { result: 'parent_not_found' }
+  | { result: 'cycle' };
+
+// Everything a hard delete removes along with the topic
+export interface TopicDeletionImpact {
+  content: number;
+  email_logs: number;
+  subscriptions: number;
+}
+
+export type DeleteTopicResult =
+  | { result: 'deleted'; removed: TopicDeletionImpact }
+  | { result: 'not_found' }
+  | { result: 'has_children' };
+
+class TopicService {
+  async getNodes(): Promise<TopicNode[]> {
+    return db.select({ id: topics.id, parent_id: topics.parent_id }).from(topics);
+  }
+
+  // The topic and its ancestors, nearest first: everyone subscribed to one of these receives content on the topic
+  async getAncestry(topicId: number): Promise<number[]> {
+    return ancestry(await this.getNodes(), topicId);
+  }
+
+  // Active subscribers per topic in one grouped query: on the topic itself, and on the topic or anything below it.
+  // Topics without subscribers are left out of the map.
+  private async countSubscribers(topicId?: number): Promise<Map<number, { direct: number; total: number }>> {
+    const rows = await db.execute<{ topic_id: number; direct: number; total: number }>(sql`
+      WITH RECURSIVE scope (topic_id, member_id) AS (
+        SELECT ${topics.id}, ${topics.id} FROM ${topics}
+        ${topicId !== undefined ? sql`WHERE ${topics.id} = ${topicId}` : sql``}
+        UNION
+        SELECT scope.topic_id, ${topics.id} FROM scope JOIN ${topics} ON ${topics.parent_id} = scope.member_id
+      )
+      SELECT scope.topic_id,
+        count(DISTINCT ${subscriptions.subscriber_id}) FILTER (WHERE ${subscriptions.topic_id} = scope.topic_id)::int AS direct,
+        count(DISTINCT ${subscriptions.subscriber_id})::int AS total
+      FROM scope
+      JOIN ${subscriptions} ON ${subscriptions.topic_id} = scope.member_id
+      JOIN ${subscribers} ON ${subscribers.id} = ${subscriptions.subscriber_id} AND ${subscribers.is_active}
+      GROUP BY scope.topic_id
+    `);
+
+    return new Map(rows.map(row => [row.topic_id, { direct: row.direct, total: row.total }]));
+  }
+
+  private withCounts(topic: Topic, counts: Map<number, { direct: number; total: number }>): TopicWithCounts {
+    const topicCounts = counts.get(topic.id);
+
+    return {
+      ...topic,
+      subscriber_count: (topicCounts?.direct ?? 0).toString(),
+      total_subscriber_count: (topicCounts?.total ?? 0).toString(),
+    };
+  }
+
+  // Counts still roll up archived descendants when those are left out of the list
+  async list(includeArchived: boolean): Promise<TopicWithCounts[]> {
+    const [allTopics, counts] = await Promise.all([
+      db.select().from(topics).orderBy(desc(topics.created_at)),
+      this.countSubscribers(),
+    ]);
+    const listed = includeArchived ? allTopics : allTopics.filter(topic => topic.archived_at === null);
+    return listed.map(topic => this.withCounts(topic, counts));
+  }
+
+  // Without archived topics, children of an archived topic appear at the top level
+  async tree(includeArchived: boolean): Promise<TopicTree<TopicWithCounts>[]> {
+    const listed = await this.list(includeArchived);
+    const listedIds = new Set(listed.map(topic => topic.id));
+    return buildTree(listed.map(topic => (
+      topic.parent_id !== null && !listedIds.has(topic.parent_id) ? { ...topic, parent_id: null } : topic
+    )));
+  }
+
+  async get(id: number): Promise<TopicDetail | null> {
+    const allTopics = await db.select().from(topics);
+    const topic = allTopics.find(candidate => candidate.id === id);
+
+    if (!topic) {
+      return null;
+    }
+
+    const byId = new Map(allTopics.map(candidate => [candidate.id, candidate]));
+    const summary = (topicId: number) => ({ id: topicId, name: byId.get(topicId)!.name });
+
+    return {
+      ...this.withCounts(topic, await this.countSubscribers(id)),
+      ancestors: ancestry(allTopics, id).slice(1).reverse().map(summary),
+      children: allTopics.filter(candidate => candidate.parent_id === id).map(candidate => summary(candidate.id)),
+    };
+  }
+
+  // The sender identity newsletters on the topic go out with, each field inherited from the nearest ancestor setting it
+  async getSenderIdentity(topicId: number): Promise<SenderIdentity> {
+    const allTopics = await db.select({
+      id: topics.id,
+      parent_id: topics.parent_id,
+      from_name: topics.from_name,
+      from_email: topics.from_email,
+      reply_to: topics.reply_to,
+      envelope_sender: topics.envelope_sender,
+    }).from(topics);
+
+    const byId = new Map(allTopics.map(topic => [topic.id, topic]));
+    return resolveSenderIdentity(ancestry(allTopics, topicId).map(id => byId.get(id)!));
+  }
+
+  async create(input: {
+    name: string;
+    description: string | null;
+    parentId: number | null;
+    sender?: Partial<SenderIdentity>;
+  }): Promise<CreateTopicResult> {
+    if (input.parentId !== null) {
+      const [parent] = await db.select({ id: topics.id }).from(topics).where(eq(topics.id, input.parentId)).limit(1);
+      if (!parent) {
+        return { result: 'parent_not_found' };
+      }
+    }
+
+    const [topic] = await db.insert(topics).values({
+      name: input.name,
+      description: input.description,
+      parent_id: input.parentId,
+      ...input.sender,
+    }).returning();
+
+    logger.info('Topic created', { id: topic.id, name: topic.name, parentId: topic.parent_id });
+    return { result: 'created', topic };
+  }
+
+  // Locks every topic row so two concurrent moves cannot close a cycle between them
+  async update(id: number, update: TopicUpdate): Promise<UpdateTopicResult> {
+    return db.transaction(async (tx): Promise<UpdateTopicResult> => {
+      const nodes = await tx.select({ id: topics.id, parent_id: topics.parent_id }).from(topics).for('update');
+
+      if (!nodes.some(node => node.id === id)) {
+        return { result: 'not_found' };
+      }
+
+      const { parentId } = update;
+      if (parentId !== undefined && parentId !== null && !nodes.some(node => node.id === parentId)) {
+        return { result: 'parent_not_found' };
+      }
+      if (parentId !== undefined && createsCycle(nodes, id, parentId)) {
+        return { result: 'cycle' };
+      }
+
+      const [topic] = await tx.update(topics)
+        .set({
+          ...(update.name !== undefined ? { name: update.name } : {}),
+          ...(update.description !== undefined ? { description: update.description } : {}),
+          ...(parentId !== undefined ? { parent_id: parentId } : {}),
+          ...update.sender,
+        })
+        .where(eq(topics.id, id))
+        .returning();
+
+      logger.info('Topic updated', { id, fields: Object.keys(update) });
+      return { result: 'updated', topic };
+    });
+  }
+
+  // Archiving twice keeps the original archived_at
+  async archive(id: number): Promise<Topic | null> {
+    const [topic] = await db.update(topics)
+      .set({ archived_at: sql`coalesce(${topics.archived_at}, now())` })
+      .where(eq(topics.id, id))
+      .returning();
+
+    if (topic) {
+      logger.info('Topic archived', { id });
+    }
+
+    return topic || null;
+  }
+
+  async restore(id: number): Promise<Topic | null> {
+    const [topic] = await db.update(topics)
+      .set({ archived_at: null })
+      .where(eq(topics.id, id))
+      .returning();
+
+    if (topic) {
+      logger.info('Topic restored', { id });
+    }
+
+    return topic || null;
+  }
+
+  async hasChildren(id: number): Promise<boolean> {
+    const [child] = await db.select({ id: topics.id }).from(topics).where(eq(topics.parent_id, id)).limit(1);
+    return !!child;
+  }
+
+  async getDeletionImpact(id: number, executor: Pick<typeof db, 'select'> = db): Promise<TopicDeletionImpact> {
+    const [[contentResult], [logResult], [subscriptionResult]] = await Promise.all([
+      executor.select({ count: count() }).from(content).where(eq(content.topic_id, id)),
+      executor.select({ count: count() })
+        .from(emailLogs)
+        .innerJoin(content, eq(emailLogs.content_id, content.id))
+        .where(eq(content.topic_id, id)),
+      executor.select({ count: count() }).from(subscriptions).where(eq(subscriptions.topic_id, id)),
+    ]);
+
+    return {
+      content: contentResult?.count || 0,
+      email_logs: logResult?.count || 0,
+      subscriptions: subscriptionResult?.count || 0,
+    };
+  }
+
+  // Irreversible: removes the topic's content with its send history, and its subscriptions.
+  // Topics with children must have them moved or deleted first.
+  async delete(id: number, context: EventContext): Promise<DeleteTopicResult> {
+    return db.transaction(async (tx): Promise<DeleteTopicResult> => {
+      const [topic] = await tx.select({ id: topics.id }).from(topics).where(eq(topics.id, id)).for('update');
+
+      if (!topic) {
+        return { result: 'not_found' };
+      }
+
+      const [child] = await tx.select({ id: topics.id }).from(topics).where(eq(topics.parent_id, id)).limit(1);
+      if (child) {
+        return { result: 'has_children' };
+      }
+
+      const removed = await this.getDeletionImpact(id, tx);
+
+      // Email logs, waves and engagement events of the content go with it through their cascades
+      await tx.delete(content).where(eq(content.topic_id, id));
+
+      const removedSubscriptions = await tx.delete(subscriptions)
+        .where(eq(subscriptions.topic_id, id))
+        .returning({ subscriber_id: subscriptions.subscriber_id });
+
+      await subscriberEventService.record(context, removedSubscriptions.map(subscription => ({
+        subscriberId: subscription.subscriber_id,
+        type: 'unsubscribed' as const,
+        topicId: id,
+        details: { reason: 'topic_deleted' },
+      })), tx);
+
+      await tx.delete(topics).where(eq(topics.id, id));
+
+      logger.warn('Topic deleted', { id, ...removed });
+      return { result: 'deleted', removed };
+    });
+  }
+}
+
+export default new TopicService();
@@ -0,0 +1,87 @@
+import { eq, inArray } from 'drizzle-orm';
+import db from '../config/database.js';
+import { subscribers, subscriptions, topics } from '../models/schema.js';
+import subscriptionService from './subscriptionService.js';
+import { subscriberContext } from './subscriberEventService.js';
+import { signToken, verifyToken } from '../utils/tokens.js';
+import { publicUrl } from '../utils/publicUrl.js';
+import logger from '../config/logger.js';
+
+// Digest and segment links carry several topics; single-topic links predate them and must keep working
+export interface UnsubscribeTokenData {
+  subscriberId: number;
+  topicId?: number;
+  topicIds?: number[];
+}
+
+export interface UnsubscribeTarget {
+  subscriberId: number;
+  topicIds: number[];
+  email: string;
+  topicName: string;
+}
+
+class UnsubscribeService {
+  // Unsubscribe links never expire: they must keep working from old emails
+  buildUrl(subscriberId: number, topicId: number): string {
+    const token = signToken<UnsubscribeTokenData>('unsubscribe', { subscriberId, topicId });
+    return publicUrl(`/api/unsubscribe/${token}`);
+  }
+
+  buildDigestUrl(subscriberId: number, topicIds: number[]): string {
+    const token = signToken<UnsubscribeTokenData>('unsubscribe', { subscriberId, topicIds });
+    return publicUrl(`/api/unsubscribe/${token}`);
+  }
+
+  // Segment content has no topic of its own, so its link covers every topic the subscriber is on
+  async buildSubscriptionsUrl(subscriberId: number): Promise<string | undefined> {
+    const rows = await db.select({ topic_id: subscriptions.topic_id })
+      .from(subscriptions)
+      .where(eq(subscriptions.subscriber_id, subscriberId));
+
+    return rows.length > 0 ? this.buildDigestUrl(subscriberId, rows.map(row => row.topic_id)) : undefined;
+  }
+
+  async resolve(token: string): Promise<UnsubscribeTarget | null> {
+    const data = verifyToken<UnsubscribeTokenData>('unsubscribe', token);
+    const topicIds = data?.topicIds ?? (data?.topicId ? [data.topicId] : []);
+    if (!data || topicIds.length === 0) {
+      return null;
+    }
+
+    const [subscriber] = await db.select({ email: subscribers.email })
+      .from(subscribers)
+      .where(eq(subscribers.id, data.subscriberId))
+      .limit(1);
+
+    const topicRows = await db.select({ id: topics.id, name: topics.name })
+      .from(topics)
+      .where(inArray(topics.id, topicIds));
+
+    if (!subscriber || topicRows.length === 0) {
+      return null;
+    }
+
+    return {
+      subscriberId: data.subscriberId,
+      topicIds: topicRows.map(topic => topic.id),
+      email: subscriber.email,
+      topicName: topicRows.map(topic => topic.name).join(', '),
+    };
+  }
+
+  // Idempotent: succeeds whether or not the subscription still existed
+  async unsubscribe(target: UnsubscribeTarget): Promise<void> {
+    for (const topicId of target.topicIds) {
+      const removed = await subscriptionService.unsubscribe(target.subscriberId, topicId, subscriberContext('unsubscribe_link'));
+
+      logger.info('Subscriber unsubscribed via link', {
+        subscriberId: target.subscriberId,
+        topicId,
+        removed,
+      });
+    }
+  }
+}
+
+export default new UnsubscribeService();
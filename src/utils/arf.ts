@@ -0,0 +1,39 @@
+import { parseMimeMessage, getHeader, findParts, findOriginalHeaders, normaliseMessageId, parseHeaders } from './mime.js';
+
+export interface FeedbackReport {
+  feedbackType: string;
+  userAgent: string | null;
+  arrivalDate: Date | null;
+  recipient: string | null;
+  originalMessageId: string | null;
+}
+
+const extractAddress = (value: string | undefined): string | null => {
+  const match = value ? /<?([^\s<>]+@[^\s<>]+)>?/.exec(value) : null;
+  return match ? match[1].toLowerCase() : null;
+};
+
+// RFC 5965 abuse report; returns null when the message carries no feedback-report part
+export const parseFeedbackReport = (raw: string): FeedbackReport | null => {
+  const message = parseMimeMessage(raw);
+  const [reportPart] = findParts(message, 'message/feedback-report');
+
+  if (!reportPart) {
+    return null;
+  }
+
+  const fields = parseHeaders(reportPart.body.replace(/\r\n/g, '\n').trim());
+  const originalHeaders = findOriginalHeaders(message);
+  const arrivalDate = getHeader(fields, 'arrival-date') || getHeader(fields, 'received-date');
+  const parsedArrival = arrivalDate ? new Date(arrivalDate) : null;
+
+  // Providers often redact the recipient, so the original Message-ID is the reliable key
+  return {
+    feedbackType: (getHeader(fields, 'feedback-type') || 'abuse').toLowerCase(),
+    userAgent: getHeader(fields, 'user-agent') || null,
+    arrivalDate: parsedArrival && !isNaN(parsedArrival.getTime()) ? parsedArrival : null,
+    recipient: extractAddress(getHeader(fields, 'original-rcpt-to'))
+      || (originalHeaders ? extractAddress(getHeader(originalHeaders, 'to')) : null),
+    originalMessageId: originalHeaders ? normaliseMessageId(getHeader(originalHeaders, 'message-id')) : null,
+  };
+};
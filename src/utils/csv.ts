@@ -0,0 +1,41 @@
+// RFC 4180 field splitting for a single logical record (quotes may wrap commas and newlines)
+export const parseCsvRecord = (record: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+
+    if (inQuotes) {
+      if (char === '"' && record[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+};
+
+// True while a record is still inside a quoted field and continues on the next line
+export const hasOpenQuote = (record: string): boolean =>
+  (record.match(/"/g)?.length || 0) % 2 === 1;
+
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsvRecord = (values: Array<string | number | boolean | null | undefined>): string =>
+  values.map(value => escapeCsvField(value === null || value === undefined ? '' : String(value))).join(',') + '\r\n';
@@ -0,0 +1,61 @@
+import { escapeHtml } from './html.js';
+
+export interface DigestEntry {
+  topicName: string;
+  title: string | null;
+  // Plain text, rendered the same way as a single newsletter body
+  body: string;
+  // The body for the HTML part, when it differs (merge values escaped for HTML); defaults to body
+  htmlBody?: string;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Entries are grouped under their topic, topics in order of their first entry
+const groupByTopic = (entries: DigestEntry[]): [string, DigestEntry[]][] => {
+  const groups = new Map<string, DigestEntry[]>();
+  for (const entry of entries) {
+    const group = groups.get(entry.topicName);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(entry.topicName, [entry]);
+    }
+  }
+  return [...groups];
+};
+
+export const renderDigest = (frequency: 'daily' | 'weekly', entries: DigestEntry[]): RenderedDigest => {
+  const groups = groupByTopic(entries);
+  const subject = `Your ${frequency} digest: ${entries.length} ${entries.length === 1 ? 'update' : 'updates'}`;
+
+  const text = groups.map(([topicName, items]) => [
+    topicName,
+    '='.repeat(topicName.length),
+    ...items.map(item => `\n${item.title || 'Newsletter'}\n\n${item.body}`),
+  ].join('\n')).join('\n\n---\n\n');
+
+  const sections = groups.map(([topicName, items]) => `
+          <h2 style="font-size: 1.2em; border-bottom: 1px solid #ddd; padding-bottom: 4px;">${escapeHtml(topicName)}</h2>
+          ${items.map(item => `
+          <h3 style="font-size: 1.05em; margin-bottom: 4px;">${escapeHtml(item.title || 'Newsletter')}</h3>
+          <div style="white-space: pre-wrap;">${(item.htmlBody ?? item.body).replace(/\n/g, '<br>')}</div>`).join('')}`).join('');
+
+  const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">${sections}
+        </body>
+      </html>
+    `;
+
+  return { subject, text, html };
+};
@@ -0,0 +1,45 @@
+import { parseMimeMessage, parseHeaders, getHeader, findParts, findOriginalHeaders, normaliseMessageId } from './mime.js';
+
+export interface DsnRecipient {
+  email: string;
+  action: string;
+  status: string | null;
+  diagnosticCode: string | null;
+}
+
+export interface DeliveryStatusReport {
+  recipients: DsnRecipient[];
+  originalMessageId: string | null;
+}
+
+// "rfc822; user@example.com" -> "user@example.com"
+const stripAddressType = (value: string): string =>
+  (value.includes(';') ? value.slice(value.indexOf(';') + 1) : value).trim().replace(/^<|>$/g, '').toLowerCase();
+
+// RFC 3464 delivery status notification; returns null when the message carries no delivery-status part
+export const parseDeliveryStatus = (raw: string): DeliveryStatusReport | null => {
+  const message = parseMimeMessage(raw);
+  const [statusPart] = findParts(message, 'message/delivery-status');
+
+  if (!statusPart) {
+    return null;
+  }
+
+  // The first block holds per-message fields, every following block describes one recipient
+  const blocks = statusPart.body.replace(/\r\n/g, '\n').split(/\n\s*\n/).map(parseHeaders);
+  const recipients = blocks
+    .filter(fields => getHeader(fields, 'final-recipient') || getHeader(fields, 'original-recipient'))
+    .map(fields => ({
+      email: stripAddressType((getHeader(fields, 'final-recipient') || getHeader(fields, 'original-recipient'))!),
+      action: (getHeader(fields, 'action') || 'failed').toLowerCase(),
+      status: getHeader(fields, 'status')?.split(/\s/)[0] || null,
+      diagnosticCode: getHeader(fields, 'diagnostic-code') || null,
+    }));
+
+  const originalHeaders = findOriginalHeaders(message);
+
+  return {
+    recipients,
+    originalMessageId: originalHeaders ? normaliseMessageId(getHeader(originalHeaders, 'message-id')) : null,
+  };
+};
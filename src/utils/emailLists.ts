@@ -0,0 +1,141 @@
+// Bundled reference data for email validation; extend at runtime with EMAIL_DISPOSABLE_DOMAINS / EMAIL_ROLE_ACCOUNTS
+
+export interface ProviderRule {
+  // Gmail ignores dots in the local part
+  ignoreDots: boolean;
+  // Everything after this character is a sub-address tag
+  tagSeparator: string | null;
+  // Alias domains that deliver to the same mailbox
+  canonicalDomain?: string;
+}
+
+const plusTags: ProviderRule = { ignoreDots: false, tagSeparator: '+' };
+
+export const PROVIDER_RULES: Record<string, ProviderRule> = {
+  'gmail.com': { ignoreDots: true, tagSeparator: '+' },
+  'googlemail.com': { ignoreDots: true, tagSeparator: '+', canonicalDomain: 'gmail.com' },
+  'outlook.com': plusTags,
+  'hotmail.com': plusTags,
+  'live.com': plusTags,
+  'icloud.com': plusTags,
+  'me.com': { ...plusTags, canonicalDomain: 'icloud.com' },
+  'mac.com': { ...plusTags, canonicalDomain: 'icloud.com' },
+  'protonmail.com': plusTags,
+  'proton.me': plusTags,
+  'pm.me': plusTags,
+  'fastmail.com': plusTags,
+};
+
+export const DISPOSABLE_DOMAINS = [
+  '10minutemail.com',
+  '20minutemail.com',
+  'burnermail.io',
+  'discard.email',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getairmail.com',
+  'getnada.com',
+  'grr.la',
+  'guerrillamail.biz',
+  'guerrillamail.com',
+  'guerrillamail.de',
+  'guerrillamail.net',
+  'guerrillamail.org',
+  'guerrillamailblock.com',
+  'inboxbear.com',
+  'jetable.org',
+  'mailcatch.com',
+  'maildrop.cc',
+  'mailinator.com',
+  'mailinator.net',
+  'mailnesia.com',
+  'mailpoof.com',
+  'mintemail.com',
+  'moakt.com',
+  'mohmal.com',
+  'mytemp.email',
+  'pokemail.net',
+  'sharklasers.com',
+  'spam4.me',
+  'spamgourmet.com',
+  'temp-mail.org',
+  'tempail.com',
+  'tempinbox.com',
+  'tempmail.com',
+  'tempmail.net',
+  'tempr.email',
+  'throwawaymail.com',
+  'tmpmail.org',
+  'trashmail.com',
+  'trashmail.net',
+  'yopmail.com',
+  'yopmail.net',
+];
+
+export const ROLE_ACCOUNTS = [
+  'abuse',
+  'admin',
+  'administrator',
+  'billing',
+  'compliance',
+  'contact',
+  'devnull',
+  'do-not-reply',
+  'donotreply',
+  'help',
+  'hostmaster',
+  'info',
+  'list',
+  'listserv',
+  'mailer-daemon',
+  'marketing',
+  'no-reply',
+  'noc',
+  'noreply',
+  'office',
+  'postmaster',
+  'root',
+  'sales',
+  'security',
+  'support',
+  'webmaster',
+];
+
+// Domains that typo suggestions are measured against
+export const COMMON_DOMAINS = [
+  'aol.com',
+  'comcast.net',
+  'gmail.com',
+  'gmx.com',
+  'gmx.de',
+  'googlemail.com',
+  'hotmail.co.uk',
+  'hotmail.com',
+  'icloud.com',
+  'live.com',
+  'mail.com',
+  'me.com',
+  'msn.com',
+  'outlook.com',
+  'proton.me',
+  'protonmail.com',
+  'yahoo.co.uk',
+  'yahoo.com',
+  'yandex.com',
+  'ymail.com',
+];
+
+export const COMMON_TLD_TYPOS: Record<string, string> = {
+  cmo: 'com',
+  comm: 'com',
+  con: 'com',
+  cpm: 'com',
+  ocm: 'com',
+  nte: 'net',
+  nett: 'net',
+  ent: 'net',
+  ogr: 'org',
+  orgg: 'org',
+  rog: 'org',
+};
@@ -0,0 +1,216 @@
+import 'dotenv/config';
+import { domainToASCII } from 'url';
+import {
+  PROVIDER_RULES,
+  DISPOSABLE_DOMAINS,
+  ROLE_ACCOUNTS,
+  COMMON_DOMAINS,
+  COMMON_TLD_TYPOS,
+} from './emailLists.js';
+
+export type EmailRejectionCode =
+  | 'missing'
+  | 'too_long'
+  | 'invalid_syntax'
+  | 'invalid_local_part'
+  | 'invalid_domain'
+  | 'disposable_domain'
+  | 'role_account';
+
+export interface EmailValidationReason {
+  code: EmailRejectionCode;
+  message: string;
+}
+
+// `email` is lower-cased with the domain in ASCII (punycode) form and is what gets stored;
+// `canonical` is the provider-normalised form used for duplicate detection
+export type EmailValidationResult =
+  | { valid: true; email: string; canonical: string; reasons: []; suggestion: string | null }
+  | { valid: false; email: null; canonical: null; reasons: EmailValidationReason[]; suggestion: string | null };
+
+export interface EmailValidationOptions {
+  rejectDisposable: boolean;
+  rejectRoleAccounts: boolean;
+  normaliseProviders: boolean;
+}
+
+const envList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+
+const disposableDomains = new Set([...DISPOSABLE_DOMAINS, ...envList(process.env.EMAIL_DISPOSABLE_DOMAINS)]);
+const roleAccounts = new Set([...ROLE_ACCOUNTS, ...envList(process.env.EMAIL_ROLE_ACCOUNTS)]);
+
+export const DEFAULT_EMAIL_VALIDATION: EmailValidationOptions = {
+  rejectDisposable: process.env.EMAIL_REJECT_DISPOSABLE !== 'false',
+  rejectRoleAccounts: process.env.EMAIL_REJECT_ROLE_ACCOUNTS !== 'false',
+  normaliseProviders: process.env.EMAIL_NORMALISE_PROVIDERS !== 'false',
+};
+
+// Syntax only: for places like the suppression list that must accept role and disposable addresses
+export const SYNTAX_ONLY: EmailValidationOptions = {
+  rejectDisposable: false,
+  rejectRoleAccounts: false,
+  normaliseProviders: false,
+};
+
+const MAX_ADDRESS_LENGTH = 254;
+const MAX_LOCAL_PART_LENGTH = 64;
+const MAX_LABEL_LENGTH = 63;
+
+// RFC 5322 dot-atom and quoted-string forms of the local part
+const DOT_ATOM_PATTERN = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/;
+const QUOTED_STRING_PATTERN = /^"([\x20\x21\x23-\x5B\x5D-\x7E]|\\[\x20-\x7E])*"$/;
+const LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/;
+
+const reject = (reasons: EmailValidationReason[], suggestion: string | null = null): EmailValidationResult => ({
+  valid: false,
+  email: null,
+  canonical: null,
+  reasons,
+  suggestion,
+});
+
+// Damerau-Levenshtein (optimal string alignment) distance
+const editDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) {
+    d[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+const suggestDomain = (domain: string): string | null => {
+  if (COMMON_DOMAINS.includes(domain)) {
+    return null;
+  }
+
+  // Short domains such as aol.com sit one edit away from many legitimate ones
+  let best: { domain: string; distance: number } | null = null;
+  for (const candidate of COMMON_DOMAINS) {
+    const distance = editDistance(domain, candidate);
+    const allowed = candidate.length <= 8 ? 1 : 2;
+    if (distance <= allowed && (!best || distance < best.distance)) {
+      best = { domain: candidate, distance };
+    }
+  }
+  if (best) {
+    return best.domain;
+  }
+
+  const tld = domain.slice(domain.lastIndexOf('.') + 1);
+  const correctedTld = COMMON_TLD_TYPOS[tld];
+  return correctedTld ? `${domain.slice(0, domain.length - tld.length)}${correctedTld}` : null;
+};
+
+const isListed = (domain: string, list: Set<string>): boolean => {
+  const labels = domain.split('.');
+  for (let i = 0; i < labels.length - 1; i++) {
+    if (list.has(labels.slice(i).join('.'))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+export const canonicaliseEmail = (localPart: string, domain: string, normaliseProviders = true): string => {
+  const rule = normaliseProviders ? PROVIDER_RULES[domain] : undefined;
+  if (!rule || localPart.startsWith('"')) {
+    return `${localPart}@${domain}`;
+  }
+
+  let local = localPart;
+  if (rule.tagSeparator && local.includes(rule.tagSeparator)) {
+    local = local.slice(0, local.indexOf(rule.tagSeparator));
+  }
+  if (rule.ignoreDots) {
+    local = local.replace(/\./g, '');
+  }
+
+  return `${local}@${rule.canonicalDomain || domain}`;
+};
+
+export const validateEmail = (
+  input: unknown,
+  options: EmailValidationOptions = DEFAULT_EMAIL_VALIDATION
+): EmailValidationResult => {
+  if (typeof input !== 'string' || !input.trim()) {
+    return reject([{ code: 'missing', message: 'Email is required' }]);
+  }
+
+  const trimmed = input.trim();
+  const at = trimmed.lastIndexOf('@');
+  if (at <= 0 || at === trimmed.length - 1) {
+    return reject([{ code: 'invalid_syntax', message: 'Email must have the form local-part@domain' }]);
+  }
+
+  const localPart = trimmed.slice(0, at);
+  const rawDomain = trimmed.slice(at + 1).replace(/\.$/, '');
+
+  if (rawDomain.startsWith('[')) {
+    return reject([{ code: 'invalid_domain', message: 'Address literals are not accepted' }]);
+  }
+
+  // IDNs are converted to punycode; an empty result means the domain is not valid
+  const domain = domainToASCII(rawDomain.toLowerCase());
+  const labels = domain.split('.');
+  const reasons: EmailValidationReason[] = [];
+
+  if (!DOT_ATOM_PATTERN.test(localPart) && !QUOTED_STRING_PATTERN.test(localPart)) {
+    reasons.push({ code: 'invalid_local_part', message: 'Local part contains invalid characters or misplaced dots' });
+  } else if (localPart.length > MAX_LOCAL_PART_LENGTH) {
+    reasons.push({ code: 'too_long', message: `Local part must be at most ${MAX_LOCAL_PART_LENGTH} characters` });
+  }
+
+  if (
+    !domain
+    || labels.length < 2
+    || labels.some(label => label.length > MAX_LABEL_LENGTH || !LABEL_PATTERN.test(label))
+    || /^\d+$/.test(labels[labels.length - 1])
+  ) {
+    reasons.push({ code: 'invalid_domain', message: 'Domain is not a valid host name' });
+  }
+
+  if (reasons.length > 0) {
+    return reject(reasons);
+  }
+
+  const email = `${localPart.toLowerCase()}@${domain}`;
+  if (email.length > MAX_ADDRESS_LENGTH) {
+    return reject([{ code: 'too_long', message: `Email must be at most ${MAX_ADDRESS_LENGTH} characters` }]);
+  }
+
+  const suggestedDomain = suggestDomain(domain);
+  const suggestion = suggestedDomain ? `${email.slice(0, email.lastIndexOf('@'))}@${suggestedDomain}` : null;
+
+  if (options.rejectDisposable && isListed(domain, disposableDomains)) {
+    reasons.push({ code: 'disposable_domain', message: 'Disposable email domains are not accepted' });
+  }
+
+  const mailbox = email.slice(0, email.lastIndexOf('@')).split('+')[0];
+  if (options.rejectRoleAccounts && roleAccounts.has(mailbox)) {
+    reasons.push({ code: 'role_account', message: 'Role accounts such as admin@ or noreply@ are not accepted' });
+  }
+
+  if (reasons.length > 0) {
+    return reject(reasons, suggestion);
+  }
+
+  return {
+    valid: true,
+    email,
+    canonical: canonicaliseEmail(email.slice(0, email.lastIndexOf('@')), domain, options.normaliseProviders),
+    reasons: [],
+    suggestion,
+  };
+};
@@ -0,0 +1,28 @@
+export interface EngagementCounts {
+  // Emails delivered in the scoring window; digest items count individually
+  sent: number;
+  // Emails opened or clicked at least once
+  opened: number;
+  clicked: number;
+  bounced: number;
+}
+
+const OPEN_WEIGHT = 60;
+const CLICK_WEIGHT = 40;
+const BOUNCE_PENALTY = 25;
+
+// 0-100: the share of emails opened and clicked, minus a penalty per bounce.
+// Null when nothing was sent or bounced in the window, so new subscribers are not scored as disengaged.
+export const scoreEngagement = (counts: EngagementCounts): number | null => {
+  if (counts.sent === 0 && counts.bounced === 0) {
+    return null;
+  }
+
+  const sent = Math.max(counts.sent, 1);
+  // Clicking implies opening even when images (and with them the open pixel) were blocked
+  const openRate = Math.min(Math.max(counts.opened, counts.clicked), sent) / sent;
+  const clickRate = Math.min(counts.clicked, sent) / sent;
+  const score = OPEN_WEIGHT * openRate + CLICK_WEIGHT * clickRate - BOUNCE_PENALTY * counts.bounced;
+
+  return Math.round(Math.min(100, Math.max(0, score)));
+};
@@ -0,0 +1,8 @@
+import { Request } from 'express';
+import type { EventContext } from '../services/subscriberEventService.js';
+
+// Changes made through the admin API; X-Actor names the operator or integration behind the request
+export const apiContext = (req: Request): EventContext => ({
+  source: 'api',
+  actor: req.get('X-Actor')?.trim() || null,
+});
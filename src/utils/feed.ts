@@ -0,0 +1,160 @@
+// RSS 2.0 and Atom feeds, and the templates that turn their entries into content. The parser is a
+// tolerant extractor for the handful of elements we use, not a general XML parser.
+export interface FeedEntry {
+  // RSS guid or Atom id; falls back to the link, then to the title and date
+  guid: string;
+  title: string;
+  link: string | null;
+  // Plain text: markup is stripped, entities decoded
+  summary: string;
+  author: string | null;
+  published_at: Date | null;
+}
+
+export interface ParsedFeed {
+  title: string;
+  // In document order, which for most feeds is newest first
+  entries: FeedEntry[];
+}
+
+export const ENTRY_PLACEHOLDERS = ['title', 'link', 'summary', 'author', 'published'] as const;
+export const ROUNDUP_PLACEHOLDERS = ['title', 'count'] as const;
+
+export const DEFAULT_TITLE_TEMPLATE = '{{entry.title}}';
+export const DEFAULT_BODY_TEMPLATE = '{{entry.summary}}\n\n{{entry.link}}';
+export const DEFAULT_ROUNDUP_TITLE_TEMPLATE = '{{feed.title}}: {{feed.count}} new posts';
+
+const MAX_SUMMARY_LENGTH = 1000;
+
+// {{entry.title}}, {{feed.count}}; merge tags such as {{first_name}} do not match and are left for send time
+const PLACEHOLDER_PATTERN = /\{\{\s*(entry|feed)\.([a-z_]+)\s*\}\}/g;
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+// Feeds carry HTML either XML-escaped or in CDATA sections (and Atom xhtml content as child elements);
+// this recovers the HTML source in all three cases
+const htmlSource = (xml: string): string =>
+  xml.split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map(part => part.startsWith('<![CDATA[') ? part.slice(9, -3) : decodeEntities(part.replace(/<[^>]*>/g, '')))
+    .join('');
+
+const firstElement = (xml: string, names: string[]): string | null => {
+  for (const name of names) {
+    const match = new RegExp(`<${name}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</${name}>)`, 'i').exec(xml);
+    if (match) {
+      return match[1] ?? '';
+    }
+  }
+  return null;
+};
+
+const elements = (xml: string, name: string): string[] =>
+  [...xml.matchAll(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'gi'))].map(match => match[1]);
+
+// Decoded text with markup removed and whitespace collapsed
+const plainText = (xml: string | null): string =>
+  xml === null ? '' : decodeEntities(htmlSource(xml).replace(/<[^>]*>/g, ' ')).replace(/[<>]/g, '').replace(/\s+/g, ' ').trim();
+
+const httpUrl = (value: string | null | undefined): string | null => {
+  const url = value?.trim();
+  return url && /^https?:\/\/[^\s<>"]+$/i.test(url) ? url : null;
+};
+
+const parseDate = (value: string | null): Date | null => {
+  const date = value ? new Date(plainText(value)) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+};
+
+const truncate = (value: string): string =>
+  value.length > MAX_SUMMARY_LENGTH ? `${value.slice(0, MAX_SUMMARY_LENGTH - 1).trimEnd()}…` : value;
+
+// Atom links are attributes: the alternate link, or the first one without a rel
+const atomLink = (entry: string): string | null => {
+  const links = [...entry.matchAll(/<link\b([^>]*)\/?>/gi)].map(match => match[1]);
+  const attribute = (attributes: string, name: string) =>
+    new RegExp(`\\b${name}\\s*=\\s*(["'])(.*?)\\1`, 'i').exec(attributes)?.[2];
+  const alternate = links.find(attributes => (attribute(attributes, 'rel') ?? 'alternate') === 'alternate');
+  return httpUrl(alternate ? decodeEntities(attribute(alternate, 'href') ?? '') : null);
+};
+
+const withGuid = (entry: Omit<FeedEntry, 'guid'>, id: string | null): FeedEntry => ({
+  ...entry,
+  guid: id || entry.link || `${entry.title}|${entry.published_at?.toISOString() ?? ''}`,
+});
+
+// Throws when the document is neither an RSS nor an Atom feed
+export const parseFeed = (xml: string): ParsedFeed => {
+  if (/<rss\b|<rdf:RDF\b/i.test(xml)) {
+    const channel = firstElement(xml, ['channel']) ?? xml;
+    return {
+      title: plainText(firstElement(channel.replace(/<item\b[\s\S]*$/i, ''), ['title'])),
+      entries: elements(xml, 'item').map(item => withGuid({
+        title: plainText(firstElement(item, ['title'])),
+        link: httpUrl(plainText(firstElement(item, ['link']))),
+        summary: truncate(plainText(firstElement(item, ['description', 'content:encoded']))),
+        author: plainText(firstElement(item, ['dc:creator', 'author'])) || null,
+        published_at: parseDate(firstElement(item, ['pubDate', 'dc:date'])),
+      }, plainText(firstElement(item, ['guid'])) || null)),
+    };
+  }
+
+  if (/<feed\b/i.test(xml)) {
+    return {
+      title: plainText(firstElement(xml.replace(/<entry\b[\s\S]*$/i, ''), ['title'])),
+      entries: elements(xml, 'entry').map(entry => withGuid({
+        title: plainText(firstElement(entry, ['title'])),
+        link: atomLink(entry),
+        summary: truncate(plainText(firstElement(entry, ['summary', 'content']))),
+        author: plainText(firstElement(firstElement(entry, ['author']) ?? '', ['name'])) || null,
+        published_at: parseDate(firstElement(entry, ['published', 'updated'])),
+      }, plainText(firstElement(entry, ['id'])) || null)),
+    };
+  }
+
+  throw new Error('Not an RSS or Atom feed');
+};
+
+// Placeholders a template uses that are not in `allowed`, as written
+export const unknownPlaceholders = (template: string, scope: 'entry' | 'feed', allowed: readonly string[]): string[] =>
+  [...template.matchAll(PLACEHOLDER_PATTERN)]
+    .filter(([, placeholderScope, name]) => placeholderScope !== scope || !allowed.includes(name))
+    .map(([raw]) => raw);
+
+// The template with feed placeholders removed, for merge tag checks
+export const withoutFeedPlaceholders = (template: string): string => template.replace(PLACEHOLDER_PATTERN, '');
+
+// Feed text must not turn into merge tags once it is part of a content body
+const neutraliseMergeTags = (value: string): string => value.replace(/\{\{/g, '{ {').replace(/\}\}/g, '} }');
+
+export const renderFeedTemplate = (template: string, scope: 'entry' | 'feed', values: Record<string, string>): string =>
+  template.replace(PLACEHOLDER_PATTERN, (raw, placeholderScope: string, name: string) =>
+    placeholderScope === scope && name in values ? neutraliseMergeTags(values[name]) : raw);
+
+export const entryValues = (entry: Pick<FeedEntry, 'title' | 'link' | 'summary' | 'author' | 'published_at'>): Record<string, string> => ({
+  title: entry.title,
+  link: entry.link ?? '',
+  summary: entry.summary,
+  author: entry.author ?? '',
+  published: entry.published_at?.toUTCString() ?? '',
+});
+
+// The next roundup slot strictly after `now`: daily at `hour` UTC, weekly on `weekday` (0 = Sunday) at that hour
+export const nextRoundupAt = (now: Date, frequency: 'daily' | 'weekly', hour: number, weekday: number): Date => {
+  const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hour));
+  if (frequency === 'weekly') {
+    next.setUTCDate(next.getUTCDate() + ((weekday - next.getUTCDay() + 7) % 7));
+  }
+  if (next.getTime() <= now.getTime()) {
+    next.setUTCDate(next.getUTCDate() + (frequency === 'weekly' ? 7 : 1));
+  }
+  return next;
+};
@@ -0,0 +1,67 @@
+// Topic and content layouts: an HTML shell (and optionally a plain-text one) with a single {{content}} slot
+// where the body goes. Everything else in a layout is rendered with the recipient's merge tags.
+export interface Layout {
+  html: string;
+  text: string | null;
+}
+
+export type LayoutValidation =
+  | { valid: true; layout: Layout }
+  | { valid: false; error: string };
+
+export const CONTENT_SLOT = '{{content}}';
+
+export const MAX_LAYOUT_LENGTH = 100_000;
+
+const SLOT_PATTERN = /\{\{\s*content\s*\}\}/g;
+
+const countSlots = (template: string): number => (template.match(SLOT_PATTERN) || []).length;
+
+// The layout with its slot removed, for merge tag checks: `content` is not a subscriber attribute
+export const withoutContentSlot = (template: string): string => template.replace(SLOT_PATTERN, '');
+
+export const validateLayout = (input: { html: unknown; text?: unknown }): LayoutValidation => {
+  const templates: Record<string, unknown> = { html: input.html };
+  if (input.text !== undefined && input.text !== null && input.text !== '') {
+    templates.text = input.text;
+  }
+
+  for (const [field, template] of Object.entries(templates)) {
+    if (typeof template !== 'string' || template.trim().length === 0) {
+      return { valid: false, error: `Layout ${field} must be a non-empty string` };
+    }
+    if (template.length > MAX_LAYOUT_LENGTH) {
+      return { valid: false, error: `Layout ${field} must be at most ${MAX_LAYOUT_LENGTH} characters` };
+    }
+    if (countSlots(template) !== 1) {
+      return { valid: false, error: `Layout ${field} must contain ${CONTENT_SLOT} exactly once` };
+    }
+  }
+
+  return {
+    valid: true,
+    layout: { html: templates.html as string, text: (templates.text as string | undefined) ?? null },
+  };
+};
+
+// Content bodies are written as text with inline HTML; line breaks are kept
+export const formatBodyHtml = (body: string): string =>
+  `<div style="white-space: pre-wrap;">${body.replace(/\n/g, '<br>')}</div>`;
+
+// The document newsletters without a layout are sent in
+export const defaultHtmlShell = (bodyHtml: string): string => `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          ${bodyHtml}
+        </body>
+      </html>
+    `;
+
+// A replacer function, so `$&` and friends in the body are not treated as replacement patterns
+export const applyLayout = (template: string, body: string): string =>
+  template.replace(SLOT_PATTERN, () => body);
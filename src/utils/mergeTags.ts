@@ -0,0 +1,62 @@
+export type AttributeValue = string | number | boolean | null;
+export type SubscriberAttributes = Record<string, AttributeValue>;
+
+// Tags every recipient has regardless of their attribute bag
+export const BUILT_IN_TAGS = ['email'];
+
+export const ATTRIBUTE_NAME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+// {{ name }} or {{ name | default: "fallback" }}
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const TAG_BODY_PATTERN = /^\s*([a-z][a-z0-9_]*)\s*(?:\|\s*default:\s*"([^"]*)"\s*)?$/;
+
+interface ParsedTag {
+  name: string;
+  fallback: string | null;
+}
+
+const parseTag = (body: string): ParsedTag | null => {
+  const match = TAG_BODY_PATTERN.exec(body);
+  return match ? { name: match[1], fallback: match[2] ?? null } : null;
+};
+
+export interface MergeTagCheck {
+  tags: string[];
+  invalid: string[];
+}
+
+export const inspectMergeTags = (template: string): MergeTagCheck => {
+  const tags = new Set<string>();
+  const invalid: string[] = [];
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const tag = parseTag(match[1]);
+    if (tag) {
+      tags.add(tag.name);
+    } else {
+      invalid.push(match[0]);
+    }
+  }
+
+  return { tags: [...tags], invalid };
+};
+
+// `escape` is applied to substituted values only: pass escapeHtml when rendering into HTML, where an
+// attribute such as "<img src=//x>" would otherwise become markup. Fallbacks are template text and stay as written.
+export const renderMergeTags = (
+  template: string,
+  values: SubscriberAttributes,
+  escape: (value: string) => string = value => value
+): string =>
+  template.replace(TAG_PATTERN, (raw, body: string) => {
+    const tag = parseTag(body);
+    if (!tag) {
+      return raw;
+    }
+
+    const value = values[tag.name];
+    if (value === undefined || value === null || value === '') {
+      return tag.fallback ?? '';
+    }
+    return escape(String(value));
+  });
@@ -15,6 +15,9 @@ const runMigrations = async (): Promise<void> => {
     const client = postgres(connectionString, { max: 1 });
     const db = drizzle(client);
 
+    // Needed by the trigram index behind subscriber email search
+    await client`CREATE EXTENSION IF NOT EXISTS pg_trgm`;
+
     logger.info('Running migrations...');
     await migrate(db, { migrationsFolder: './drizzle' });
 
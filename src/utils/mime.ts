@@ -0,0 +1,102 @@
+export type MimeHeaders = Map<string, string[]>;
+
+export interface MimePart {
+  headers: MimeHeaders;
+  contentType: string;
+  body: string;
+  parts: MimePart[];
+}
+
+const splitHeadersAndBody = (raw: string): [string, string] => {
+  const normalised = raw.replace(/\r\n/g, '\n');
+  const separator = normalised.indexOf('\n\n');
+  return separator === -1
+    ? [normalised, '']
+    : [normalised.slice(0, separator), normalised.slice(separator + 2)];
+};
+
+// Header blocks use folding (continuation lines start with whitespace) and may repeat names
+export const parseHeaders = (block: string): MimeHeaders => {
+  const headers: MimeHeaders = new Map();
+  const unfolded = block.replace(/\n[ \t]+/g, ' ');
+
+  for (const line of unfolded.split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) {
+      continue;
+    }
+    const name = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    headers.set(name, [...(headers.get(name) || []), value]);
+  }
+
+  return headers;
+};
+
+export const getHeader = (headers: MimeHeaders, name: string): string | undefined =>
+  headers.get(name.toLowerCase())?.[0];
+
+const getParameter = (headerValue: string, parameter: string): string | undefined => {
+  const match = new RegExp(`;\\s*${parameter}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i').exec(headerValue);
+  return match ? (match[1] ?? match[2]) : undefined;
+};
+
+const decodeBody = (body: string, encoding: string | undefined): string => {
+  switch (encoding?.toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf-8');
+    case 'quoted-printable':
+      return body
+        .replace(/=\n/g, '')
+        .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    default:
+      return body;
+  }
+};
+
+export const parseMimeMessage = (raw: string): MimePart => {
+  const [headerBlock, rawBody] = splitHeadersAndBody(raw);
+  const headers = parseHeaders(headerBlock);
+  const contentTypeHeader = getHeader(headers, 'content-type') || 'text/plain';
+  const contentType = contentTypeHeader.split(';')[0].trim().toLowerCase();
+
+  if (contentType.startsWith('multipart/')) {
+    const boundary = getParameter(contentTypeHeader, 'boundary');
+    if (boundary) {
+      const delimiter = `--${boundary}`;
+      const sections = rawBody.split(delimiter).slice(1);
+      const parts = sections
+        .filter(section => !section.startsWith('--'))
+        .map(section => parseMimeMessage(section.replace(/^[^\n]*\n/, '')));
+
+      return { headers, contentType, body: rawBody, parts };
+    }
+  }
+
+  return {
+    headers,
+    contentType,
+    body: decodeBody(rawBody, getHeader(headers, 'content-transfer-encoding')),
+    parts: [],
+  };
+};
+
+export const findParts = (part: MimePart, contentType: string): MimePart[] => [
+  ...(part.contentType === contentType ? [part] : []),
+  ...part.parts.flatMap(child => findParts(child, contentType)),
+];
+
+// Message-IDs are stored and compared without their angle brackets
+export const normaliseMessageId = (messageId: string | undefined): string | null => {
+  const trimmed = messageId?.trim().replace(/^<|>$/g, '');
+  return trimmed ? trimmed : null;
+};
+
+// Headers of the original message embedded in a report (message/rfc822 or text/rfc822-headers)
+export const findOriginalHeaders = (message: MimePart): MimeHeaders | null => {
+  const [original] = [
+    ...findParts(message, 'message/rfc822'),
+    ...findParts(message, 'text/rfc822-headers'),
+  ];
+  return original ? parseHeaders(splitHeadersAndBody(original.body)[0]) : null;
+};
@@ -0,0 +1,5 @@
+// Absolute URL for links we put in outgoing emails
+export const publicUrl = (path: string): string => {
+  const baseUrl = process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 8000}`;
+  return `${baseUrl.replace(/\/$/, '')}${path}`;
+};
@@ -0,0 +1,57 @@
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+interface Window {
+  startedAt: number;
+  hits: number;
+}
+
+export interface RateLimiter {
+  hit(key: string, now?: number): RateLimitDecision;
+}
+
+// Fixed-window counter per key, kept in memory: limits apply per process, not across instances
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions): RateLimiter => {
+  const windows = new Map<string, Window>();
+  let lastSweep = 0;
+
+  // Drops expired windows at most once per window length, so the map cannot grow without bound
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) {
+      return;
+    }
+    lastSweep = now;
+    for (const [key, window] of windows) {
+      if (now - window.startedAt >= windowMs) {
+        windows.delete(key);
+      }
+    }
+  };
+
+  return {
+    hit(key: string, now = Date.now()): RateLimitDecision {
+      sweep(now);
+
+      let window = windows.get(key);
+      if (!window || now - window.startedAt >= windowMs) {
+        window = { startedAt: now, hits: 0 };
+        windows.set(key, window);
+      }
+      window.hits++;
+
+      return {
+        allowed: window.hits <= limit,
+        remaining: Math.max(0, limit - window.hits),
+        retryAfterSeconds: Math.ceil((window.startedAt + windowMs - now) / 1000),
+      };
+    },
+  };
+};
@@ -0,0 +1,168 @@
+import { ATTRIBUTE_NAME_PATTERN, AttributeValue } from './mergeTags.js';
+
+// Segment definitions are stored as JSON and compiled to SQL by audienceService
+
+export const ATTRIBUTE_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'exists', 'not_exists'] as const;
+export const COUNT_OPERATORS = ['eq', 'gt', 'gte', 'lt', 'lte'] as const;
+export const SIGNUP_OPERATORS = ['before', 'after', 'within_days', 'older_than_days'] as const;
+export const ENGAGEMENT_METRICS = ['sent', 'opened', 'clicked', 'bounced', 'complained'] as const;
+
+export type AttributeOperator = typeof ATTRIBUTE_OPERATORS[number];
+export type CountOperator = typeof COUNT_OPERATORS[number];
+export type SignupOperator = typeof SIGNUP_OPERATORS[number];
+export type EngagementMetric = typeof ENGAGEMENT_METRICS[number];
+
+export type SegmentRule =
+  | { type: 'all'; rules: SegmentRule[] }
+  | { type: 'any'; rules: SegmentRule[] }
+  | { type: 'not'; rule: SegmentRule }
+  // Subscribed to at least one of the topics
+  | { type: 'topic'; topic_ids: number[] }
+  | { type: 'attribute'; name: string; op: AttributeOperator; value?: AttributeValue }
+  // Dates for before/after, a number of days for within_days/older_than_days
+  | { type: 'signup_date'; op: SignupOperator; value: string | number }
+  // Counts sends, opens, clicks, bounces or complaints, optionally only over the last `days` days
+  | { type: 'engagement'; metric: EngagementMetric; op: CountOperator; value: number; days?: number }
+  // Whether the subscriber was sent a given piece of content
+  | { type: 'content'; content_id: number; received: boolean };
+
+export type SegmentRuleValidation =
+  | { valid: true; rule: SegmentRule }
+  | { valid: false; error: string };
+
+const MAX_DEPTH = 5;
+const MAX_RULES = 50;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const oneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  values.includes(value as T);
+
+// Returns an error message for the first problem found, or null
+const checkRule = (input: unknown, path: string, depth: number, counter: { rules: number }): string | null => {
+  if (!isObject(input)) {
+    return `${path} must be an object`;
+  }
+  if (++counter.rules > MAX_RULES) {
+    return `Segments may contain at most ${MAX_RULES} rules`;
+  }
+  if (depth > MAX_DEPTH) {
+    return `Rules may be nested at most ${MAX_DEPTH} levels deep`;
+  }
+
+  switch (input.type) {
+    case 'all':
+    case 'any': {
+      if (!Array.isArray(input.rules) || input.rules.length === 0) {
+        return `${path}.rules must be a non-empty array`;
+      }
+      for (let i = 0; i < input.rules.length; i++) {
+        const error = checkRule(input.rules[i], `${path}.rules[${i}]`, depth + 1, counter);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    }
+    case 'not':
+      return checkRule(input.rule, `${path}.rule`, depth + 1, counter);
+    case 'topic':
+      if (!Array.isArray(input.topic_ids) || input.topic_ids.length === 0 || !input.topic_ids.every(isPositiveInteger)) {
+        return `${path}.topic_ids must be a non-empty array of topic ids`;
+      }
+      return null;
+    case 'attribute': {
+      if (typeof input.name !== 'string' || !ATTRIBUTE_NAME_PATTERN.test(input.name)) {
+        return `${path}.name must be a valid attribute name`;
+      }
+      if (!oneOf(ATTRIBUTE_OPERATORS, input.op)) {
+        return `${path}.op must be one of: ${ATTRIBUTE_OPERATORS.join(', ')}`;
+      }
+      if (input.op === 'exists' || input.op === 'not_exists') {
+        return null;
+      }
+      if (input.op === 'contains') {
+        return typeof input.value === 'string' && input.value ? null : `${path}.value must be a non-empty string`;
+      }
+      if (['gt', 'gte', 'lt', 'lte'].includes(input.op)) {
+        return typeof input.value === 'number' || typeof input.value === 'string'
+          ? null
+          : `${path}.value must be a number or string`;
+      }
+      return ['string', 'number', 'boolean'].includes(typeof input.value)
+        ? null
+        : `${path}.value must be a string, number or boolean`;
+    }
+    case 'signup_date':
+      if (!oneOf(SIGNUP_OPERATORS, input.op)) {
+        return `${path}.op must be one of: ${SIGNUP_OPERATORS.join(', ')}`;
+      }
+      if (input.op === 'before' || input.op === 'after') {
+        return typeof input.value === 'string' && !isNaN(new Date(input.value).getTime())
+          ? null
+          : `${path}.value must be a date`;
+      }
+      return isPositiveInteger(input.value) ? null : `${path}.value must be a positive number of days`;
+    case 'engagement':
+      if (!oneOf(ENGAGEMENT_METRICS, input.metric)) {
+        return `${path}.metric must be one of: ${ENGAGEMENT_METRICS.join(', ')}`;
+      }
+      if (!oneOf(COUNT_OPERATORS, input.op)) {
+        return `${path}.op must be one of: ${COUNT_OPERATORS.join(', ')}`;
+      }
+      if (!isCount(input.value)) {
+        return `${path}.value must be a non-negative integer`;
+      }
+      return input.days === undefined || isPositiveInteger(input.days)
+        ? null
+        : `${path}.days must be a positive number of days`;
+    case 'content':
+      if (!isPositiveInteger(input.content_id)) {
+        return `${path}.content_id must be a content id`;
+      }
+      return typeof input.received === 'boolean' ? null : `${path}.received must be a boolean`;
+    default:
+      return `${path}.type must be one of: all, any, not, topic, attribute, signup_date, engagement, content`;
+  }
+};
+
+export const validateSegmentRule = (input: unknown): SegmentRuleValidation => {
+  const error = checkRule(input, 'rules', 1, { rules: 0 });
+  return error ? { valid: false, error } : { valid: true, rule: input as SegmentRule };
+};
+
+// Topic and content ids the rule refers to, so callers can check they exist
+export const collectReferences = (rule: SegmentRule): { topicIds: number[]; contentIds: number[] } => {
+  const topicIds = new Set<number>();
+  const contentIds = new Set<number>();
+
+  const visit = (node: SegmentRule): void => {
+    switch (node.type) {
+      case 'all':
+      case 'any':
+        node.rules.forEach(visit);
+        return;
+      case 'not':
+        visit(node.rule);
+        return;
+      case 'topic':
+        node.topic_ids.forEach(id => topicIds.add(id));
+        return;
+      case 'content':
+        contentIds.add(node.content_id);
+        return;
+      default:
+        return;
+    }
+  };
+
+  visit(rule);
+  return { topicIds: [...topicIds], contentIds: [...contentIds] };
+};
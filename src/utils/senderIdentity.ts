@@ -0,0 +1,84 @@
+import { validateEmail, SYNTAX_ONLY } from './emailValidation.js';
+
+// Who a topic's newsletters come from. Unset fields fall back to the parent topic, then to SMTP_FROM_NAME/SMTP_FROM_EMAIL.
+export interface SenderIdentity {
+  from_name: string | null;
+  from_email: string | null;
+  reply_to: string | null;
+  // SMTP MAIL FROM, where bounces go; defaults to the from address
+  envelope_sender: string | null;
+}
+
+export const SENDER_FIELDS = ['from_name', 'from_email', 'reply_to', 'envelope_sender'] as const;
+export type SenderField = typeof SENDER_FIELDS[number];
+
+export type SenderIdentityValidation =
+  | { valid: true; identity: Partial<SenderIdentity> }
+  | { valid: false; error: string };
+
+const MAX_LENGTH = 255;
+
+export const parseDomainList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(domain => domain.trim().toLowerCase()).filter(Boolean);
+
+// Exact matches only: allowing example.com does not allow news.example.com
+export const isAllowedSendingDomain = (email: string, allowedDomains: string[]): boolean =>
+  allowedDomains.includes(email.slice(email.lastIndexOf('@') + 1).toLowerCase());
+
+// Validates the fields present in `input`; null or an empty string clears a field
+export const validateSenderIdentity = (
+  input: Partial<Record<SenderField, unknown>>,
+  allowedDomains: string[]
+): SenderIdentityValidation => {
+  const identity: Partial<SenderIdentity> = {};
+
+  for (const field of SENDER_FIELDS) {
+    const value = input[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null || value === '') {
+      identity[field] = null;
+      continue;
+    }
+    if (typeof value !== 'string') {
+      return { valid: false, error: `${field} must be a string` };
+    }
+
+    if (field === 'from_name') {
+      const name = value.trim();
+      // Control characters would let a name inject headers
+      if (!name || name.length > MAX_LENGTH || /[\x00-\x1f\x7f]/.test(name)) {
+        return { valid: false, error: `from_name must be 1-${MAX_LENGTH} characters without line breaks` };
+      }
+      identity.from_name = name;
+      continue;
+    }
+
+    const validation = validateEmail(value, SYNTAX_ONLY);
+    if (!validation.valid) {
+      return { valid: false, error: `${field} must be a valid email address` };
+    }
+
+    if (field !== 'reply_to' && !isAllowedSendingDomain(validation.email, allowedDomains)) {
+      return {
+        valid: false,
+        error: allowedDomains.length > 0
+          ? `${field} must use an allowed sending domain: ${allowedDomains.join(', ')}`
+          : `${field} cannot be set while no sending domains are allowed`,
+      };
+    }
+
+    identity[field] = validation.email;
+  }
+
+  return { valid: true, identity };
+};
+
+// Identities ordered nearest first (a topic, then its ancestors); each field comes from the nearest one that sets it
+export const resolveSenderIdentity = (identities: SenderIdentity[]): SenderIdentity => ({
+  from_name: identities.find(identity => identity.from_name)?.from_name ?? null,
+  from_email: identities.find(identity => identity.from_email)?.from_email ?? null,
+  reply_to: identities.find(identity => identity.reply_to)?.reply_to ?? null,
+  envelope_sender: identities.find(identity => identity.envelope_sender)?.envelope_sender ?? null,
+});
@@ -0,0 +1,20 @@
+// Bot protection for the public signup form. The form carries a hidden field people never fill in
+// and a signed token recording when it was served; bots tend to fill every field and submit at once.
+export const HONEYPOT_FIELD = 'website';
+
+export type BotSignal = 'honeypot' | 'too_fast';
+
+export const checkSubmission = (submission: {
+  honeypot: unknown;
+  issuedAt: number;
+  now: number;
+  minFillSeconds: number;
+}): BotSignal | null => {
+  if (typeof submission.honeypot === 'string' ? submission.honeypot.trim() !== '' : submission.honeypot !== undefined) {
+    return 'honeypot';
+  }
+  if (submission.now - submission.issuedAt < submission.minFillSeconds * 1000) {
+    return 'too_fast';
+  }
+  return null;
+};
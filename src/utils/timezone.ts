@@ -0,0 +1,107 @@
+// IANA time zone helpers built on Intl, so DST rules come from the runtime's tz database
+
+export interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+// The zone whose clocks run furthest ahead (UTC+14); no local wall time happens earlier than there
+export const EARLIEST_TIMEZONE = 'Pacific/Kiritimati';
+
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+const DAY_MS = 24 * 3600 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== 'string' || !timeZone) {
+    return false;
+  }
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// "2025-03-30T08:00" -> { year: 2025, month: 3, ... }; null when malformed or not a real calendar date
+export const parseLocalDateTime = (value: unknown): LocalDateTime | null => {
+  const match = typeof value === 'string' ? LOCAL_DATE_TIME_PATTERN.exec(value) : null;
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  const check = new Date(Date.UTC(year, month - 1, day, hour, minute));
+  if (
+    check.getUTCMonth() !== month - 1
+    || check.getUTCDate() !== day
+    || check.getUTCHours() !== hour
+    || check.getUTCMinutes() !== minute
+  ) {
+    return null;
+  }
+
+  return { year, month, day, hour, minute };
+};
+
+export const formatLocalDateTime = (local: LocalDateTime): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${local.year}-${pad(local.month)}-${pad(local.day)}T${pad(local.hour)}:${pad(local.minute)}`;
+};
+
+// Milliseconds the zone's wall clock is ahead of UTC at the given instant
+const offsetAt = (timeZone: string, instant: number): number => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(new Date(instant)).map(part => [part.type, part.value])
+  );
+  const wallClock = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * Instant at which the zone's clock shows the given wall time.
+ * Ambiguous times (clocks going back) resolve to the first occurrence; times skipped by a
+ * spring-forward gap resolve to the same distance past the gap (02:30 becomes 03:30).
+ */
+export const zonedTimeToUtc = (local: LocalDateTime, timeZone: string): Date => {
+  const wallClock = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const offsetBefore = offsetAt(timeZone, wallClock - DAY_MS);
+  const offsetAfter = offsetAt(timeZone, wallClock + DAY_MS);
+
+  const candidates = [...new Set([offsetBefore, offsetAfter])]
+    .map(offset => wallClock - offset)
+    .filter(instant => instant + offsetAt(timeZone, instant) === wallClock)
+    .sort((a, b) => a - b);
+
+  return new Date(candidates.length > 0 ? candidates[0] : wallClock - offsetBefore);
+};
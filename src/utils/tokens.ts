@@ -0,0 +1,57 @@
+import 'dotenv/config';
+import crypto from 'crypto';
+
+export type TokenPurpose = 'confirm' | 'unsubscribe' | 'preferences' | 'track' | 'signup' | 'subscribe';
+
+interface TokenEnvelope<T> {
+  purpose: TokenPurpose;
+  data: T;
+  exp: number | null;
+}
+
+const getSecret = (): string => {
+  if (!process.env.TOKEN_SECRET) {
+    throw new Error('TOKEN_SECRET environment variable is required');
+  }
+  return process.env.TOKEN_SECRET;
+};
+
+const sign = (payload: string): string =>
+  crypto.createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+export const signToken = <T>(purpose: TokenPurpose, data: T, ttlSeconds?: number): string => {
+  const envelope: TokenEnvelope<T> = {
+    purpose,
+    data,
+    exp: ttlSeconds ? Math.floor(Date.now() / 1000) + ttlSeconds : null,
+  };
+  const payload = Buffer.from(JSON.stringify(envelope)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+// Returns null for malformed, tampered, expired or wrong-purpose tokens
+export const verifyToken = <T>(purpose: TokenPurpose, token: string): T | null => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const envelope = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as TokenEnvelope<T>;
+    if (envelope.purpose !== purpose) {
+      return null;
+    }
+    if (envelope.exp !== null && envelope.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return envelope.data;
+  } catch (error) {
+    return null;
+  }
+};
@@ -0,0 +1,71 @@
+// Topics form a forest through parent_id. Subscribing to a topic covers every topic below it;
+// when a subscriber is on several topics of one branch, the nearest one decides frequency and snoozes.
+
+export interface TopicNode {
+  id: number;
+  parent_id: number | null;
+}
+
+export type TopicTree<T extends TopicNode> = T & { children: TopicTree<T>[] };
+
+// The topic itself first, then its parent and so on up to the root
+export const ancestry = (topics: TopicNode[], topicId: number): number[] => {
+  const parents = new Map(topics.map(topic => [topic.id, topic.parent_id]));
+  const chain: number[] = [];
+
+  for (let id: number | null | undefined = topicId; id !== null && id !== undefined && !chain.includes(id); id = parents.get(id)) {
+    if (!parents.has(id)) {
+      break;
+    }
+    chain.push(id);
+  }
+
+  return chain;
+};
+
+// The topic itself and everything below it
+export const descendants = (topics: TopicNode[], topicId: number): number[] => {
+  const result = [topicId];
+
+  for (let i = 0; i < result.length; i++) {
+    for (const topic of topics) {
+      if (topic.parent_id === result[i] && !result.includes(topic.id)) {
+        result.push(topic.id);
+      }
+    }
+  }
+
+  return result;
+};
+
+// Moving a topic under itself or one of its descendants would disconnect the branch from any root
+export const createsCycle = (topics: TopicNode[], topicId: number, parentId: number | null): boolean =>
+  parentId !== null && ancestry(topics, parentId).includes(topicId);
+
+// Topics a subscription on `topicId` delivers, leaving out branches the subscriber is subscribed to more specifically
+export const coveredTopics = (topics: TopicNode[], subscribedIds: number[], topicId: number): number[] => {
+  const subscribed = new Set(subscribedIds);
+  const result = [topicId];
+
+  for (let i = 0; i < result.length; i++) {
+    for (const topic of topics) {
+      if (topic.parent_id === result[i] && !subscribed.has(topic.id) && !result.includes(topic.id)) {
+        result.push(topic.id);
+      }
+    }
+  }
+
+  return result;
+};
+
+export const buildTree = <T extends TopicNode>(topics: T[]): TopicTree<T>[] => {
+  const nodes = new Map(topics.map(topic => [topic.id, { ...topic, children: [] as TopicTree<T>[] }]));
+  const roots: TopicTree<T>[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.parent_id !== null ? nodes.get(node.parent_id) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  return roots;
+};
@@ -0,0 +1,31 @@
+import { escapeHtml } from './html.js';
+
+export interface TrackingLinks {
+  openUrl: string;
+  clickUrl: (url: string) => string;
+}
+
+const ANCHOR_HREF_PATTERN = /(<a\b[^>]*?\bhref\s*=\s*)(["'])(.*?)\2/gi;
+
+const decodeAttribute = (value: string): string =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+// Routes http(s) links through the click tracker and appends an open pixel. Other schemes
+// (mailto:, tel:, anchors) are left alone, and so are links added after this runs, such as the footer.
+export const addTracking = (html: string, links: TrackingLinks): string => {
+  const tracked = html.replace(ANCHOR_HREF_PATTERN, (match, prefix: string, quote: string, href: string) => {
+    const url = decodeAttribute(href.trim());
+    if (!/^https?:\/\//i.test(url)) {
+      return match;
+    }
+    return `${prefix}${quote}${escapeHtml(links.clickUrl(url))}${quote}`;
+  });
+
+  const pixel = `<img src="${escapeHtml(links.openUrl)}" width="1" height="1" alt="" style="display: block; border: 0;">`;
+  return tracked.includes('</body>') ? tracked.replace('</body>', `${pixel}</body>`) : `${tracked}${pixel}`;
+};